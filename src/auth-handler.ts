@@ -8,6 +8,15 @@ import {
   getUpstreamAuthorizeUrl,
   Props,
 } from "./utils/upstream-utils";
+import { expiresAtFromNow } from "./utils/token-manager";
+import {
+  BASE_SCOPES,
+  getServiceScopeChoices,
+  isReadOnlyMode,
+  parseScopeString,
+  scopesForSelections,
+  toReadOnlyScopes,
+} from "./utils/scopes";
 import {
   clientIdAlreadyApproved,
   parseRedirectApproval,
@@ -46,30 +55,26 @@ async function redirectToGoogle(
   request: Request,
   oauthReqInfo: AuthRequest,
   envBindings: Env,
+  scopes: string[],
   headers: Record<string, string> = {}
 ) {
-  const scopes = [
-    "profile", // Basic profile info
-    "email", // User email address
-    "https://www.googleapis.com/auth/gmail.modify", // Modify Gmail data
-    "https://www.googleapis.com/auth/gmail.readonly", // Read Gmail data
-    "https://www.googleapis.com/auth/drive", // Access Google Drive
-    "https://www.googleapis.com/auth/calendar", // Access Google Calendar
-    "https://www.googleapis.com/auth/tasks", // Access Google Tasks
-    "https://www.googleapis.com/auth/youtube.readonly", // Read YouTube data
-    "https://www.googleapis.com/auth/contacts.readonly", // Read Google Contacts
-    "https://www.googleapis.com/auth/contacts", // Manage Google Contacts
-  ].join(" ");
+  const readOnly = isReadOnlyMode(envBindings);
   return new Response(null, {
     status: 302,
     headers: {
       ...headers,
       location: getUpstreamAuthorizeUrl({
         upstream_url: "https://accounts.google.com/o/oauth2/v2/auth",
-        scope: scopes,
+        scope: (readOnly ? toReadOnlyScopes(scopes) : scopes).join(" "),
         client_id: envBindings.GOOGLE_OAUTH_CLIENT_ID,
         redirect_uri: new URL("/callback", request.url).href,
         state: btoa(JSON.stringify(oauthReqInfo)),
+        // Offline access plus forced consent makes Google issue a refresh token
+        access_type: "offline",
+        prompt: "consent",
+        // Keep scopes granted earlier so services can be added incrementally,
+        // unless that could pull write scopes into a read-only deployment
+        include_granted_scopes: !readOnly,
       }),
     },
   });
@@ -81,14 +86,17 @@ app.get("/authorize", async (c) => {
   if (!clientId) {
     return c.text("Invalid request", 400);
   }
+  // Read-only deployments cannot reuse earlier grants, so always ask
   if (
-    await clientIdAlreadyApproved(
+    !isReadOnlyMode(c.env) &&
+    (await clientIdAlreadyApproved(
       c.req.raw,
       oauthReqInfo.clientId,
       c.env.COOKIE_ENCRYPTION_KEY
-    )
+    ))
   ) {
-    return redirectToGoogle(c.req.raw, oauthReqInfo, c.env);
+    // Previously granted services are carried over by include_granted_scopes
+    return redirectToGoogle(c.req.raw, oauthReqInfo, c.env, BASE_SCOPES);
   }
   return renderApprovalDialog(c.req.raw, {
     client: await c.env.OAUTH_PROVIDER.lookupClient(clientId),
@@ -99,12 +107,13 @@ app.get("/authorize", async (c) => {
         "This is a demo MCP Remote Server using Google for authentication.",
     },
     state: { oauthReqInfo },
+    scopeChoices: getServiceScopeChoices(isReadOnlyMode(c.env)),
   });
 });
 
 app.post("/authorize", async (c) => {
   // Validates form submission, extracts state, and generates Set-Cookie headers to skip approval dialog next time
-  const { state, headers } = await parseRedirectApproval(
+  const { state, headers, scopeSelections } = await parseRedirectApproval(
     c.req.raw,
     c.env.COOKIE_ENCRYPTION_KEY
   );
@@ -112,7 +121,13 @@ app.post("/authorize", async (c) => {
     return c.text("Invalid request", 400);
   }
 
-  return redirectToGoogle(c.req.raw, state.oauthReqInfo, c.env, headers);
+  return redirectToGoogle(
+    c.req.raw,
+    state.oauthReqInfo,
+    c.env,
+    scopesForSelections(scopeSelections, isReadOnlyMode(c.env)),
+    headers
+  );
 });
 
 app.get("/callback", async (c) => {
@@ -165,6 +180,8 @@ app.get("/callback", async (c) => {
       accessToken: googleAuthTokenResponse.access_token,
       refreshToken: googleAuthTokenResponse.refresh_token,
       expiresIn: googleAuthTokenResponse.expires_in,
+      expiresAt: expiresAtFromNow(googleAuthTokenResponse.expires_in),
+      scopes: parseScopeString(googleAuthTokenResponse.scope),
     } as Props,
   });
   return Response.redirect(redirectTo);
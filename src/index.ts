@@ -1,10 +1,26 @@
-import OAuthProvider from "@cloudflare/workers-oauth-provider";
+import OAuthProvider, {
+  type TokenExchangeCallbackOptions,
+} from "@cloudflare/workers-oauth-provider";
+import { env } from "cloudflare:workers";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { GoogleHandler } from "./auth-handler";
 import type { Props } from "./utils/upstream-utils";
+import { GoogleTokenManager, refreshGoogleProps } from "./utils/token-manager";
+import { isReadOnlyMode } from "./utils/scopes";
+import { GoogleRequestLayer, QuotaTracker } from "./utils/google-request";
+import { ConfirmationStore } from "./utils/confirmations";
+import { CursorStore } from "./utils/cursors";
+import { MeetingProposalStore } from "./utils/meeting-proposals";
 import { registerAllTools } from "./tools";
+import { registerAllResources } from "./resources";
+import { registerAllPrompts } from "./prompts";
+import {
+  registerResourceSubscriptions,
+  ResourceSubscriptions,
+} from "./resources/subscriptions";
+import { webhookHandler } from "./webhooks";
 
 export class MyMCP extends McpAgent<Env, unknown, Props> {
   server = new McpServer({
@@ -12,6 +28,8 @@ export class MyMCP extends McpAgent<Env, unknown, Props> {
     version: "1.0.0",
   });
 
+  private subscriptions?: ResourceSubscriptions;
+
   async init() {
     // Hello, world!
     this.server.tool(
@@ -22,7 +40,112 @@ export class MyMCP extends McpAgent<Env, unknown, Props> {
         content: [{ type: "text", text: `Hello, ${name}!` }],
       })
     );
-    registerAllTools(this.server, this.props);
+    const tokenManager = this.createTokenManager();
+    registerAllTools(
+      this.server,
+      tokenManager,
+      new CursorStore(this.ctx.storage),
+      new MeetingProposalStore(this.ctx.storage),
+      new ConfirmationStore(this.ctx.storage),
+      {
+        readOnly: isReadOnlyMode(this.env),
+      }
+    );
+    registerAllResources(this.server, tokenManager);
+    registerAllPrompts(this.server, tokenManager);
+    this.subscriptions = this.createSubscriptions(tokenManager);
+    registerResourceSubscriptions(this.server, this.subscriptions);
+  }
+
+  private createTokenManager(): GoogleTokenManager {
+    return new GoogleTokenManager(this.props, {
+      clientId: this.env.GOOGLE_OAUTH_CLIENT_ID,
+      clientSecret: this.env.GOOGLE_OAUTH_CLIENT_SECRET,
+      onRefresh: async (props) => {
+        // Persist so the refreshed token survives Durable Object restarts
+        this.props = props;
+        await this.ctx.storage.put("props", props);
+      },
+      requestLayer: new GoogleRequestLayer(new QuotaTracker(this.ctx.storage)),
+    });
+  }
+
+  private createSubscriptions(
+    tokenManager: GoogleTokenManager
+  ): ResourceSubscriptions {
+    return new ResourceSubscriptions(
+      this.ctx.storage,
+      this.env.OAUTH_KV,
+      tokenManager,
+      this.ctx.id.toString(),
+      {
+        gmailTopic: this.env.GMAIL_PUBSUB_TOPIC || undefined,
+        simulateGmailPush: this.env.SIMULATE_GMAIL_PUSH === "true",
+        webhookBaseUrl: this.env.WEBHOOK_BASE_URL || undefined,
+      }
+    );
+  }
+
+  /**
+   * Called by the webhook route when the user's mailbox changed.
+   *
+   * @returns False if this session no longer watches Gmail.
+   */
+  async onGmailPush(): Promise<boolean> {
+    const subscriptions = await this.getSubscriptions();
+    if (!subscriptions) return false;
+    return this.notifyUpdated(await subscriptions.handleGmailPush());
+  }
+
+  /**
+   * Called by the webhook route for a notification on a Drive changes channel.
+   *
+   * @returns False if the channel is not this session's current one.
+   */
+  async onDriveChange(channelId: string): Promise<boolean> {
+    const subscriptions = await this.getSubscriptions();
+    if (!subscriptions) return false;
+    return this.notifyUpdated(await subscriptions.handleDriveChange(channelId));
+  }
+
+  /**
+   * Renews the Gmail watch and Drive channel of the subscriptions.
+   */
+  async alarm() {
+    const subscriptions = await this.getSubscriptions();
+    await subscriptions?.renew();
+  }
+
+  /**
+   * Returns the resource subscriptions of the session. Woken by a webhook or
+   * an alarm rather than a client request, the agent has not started; the
+   * subscriptions are then set up from the props in storage, leaving the
+   * agent to start as usual once a client connects.
+   *
+   * @returns Undefined if the session was never authorized.
+   */
+  private async getSubscriptions(): Promise<ResourceSubscriptions | undefined> {
+    if (!this.subscriptions) {
+      const props = this.props ?? (await this.ctx.storage.get<Props>("props"));
+      if (!props?.accessToken) return undefined;
+      this.props = props;
+      this.subscriptions = this.createSubscriptions(this.createTokenManager());
+    }
+    return this.subscriptions;
+  }
+
+  private async notifyUpdated(uris: string[] | undefined): Promise<boolean> {
+    if (!uris) return false;
+    for (const uri of uris) {
+      try {
+        await this.server.server.sendResourceUpdated({ uri });
+      } catch (error) {
+        // The client may be disconnected, or not reconnected since the
+        // session was woken; it rereads resources on reconnect
+        console.error(`Error notifying update of ${uri}:`, error);
+      }
+    }
+    return true;
   }
 }
 
@@ -42,11 +165,40 @@ const mcpHandler = {
   },
 };
 
-export default new OAuthProvider({
+/**
+ * Refreshes the upstream Google token whenever the MCP client refreshes its
+ * own token, so the grant props never hand out an expired access token.
+ */
+async function tokenExchangeCallback(options: TokenExchangeCallbackOptions) {
+  const props = options.props as Props;
+  if (options.grantType !== "refresh_token" || !props.refreshToken) {
+    return;
+  }
+  const newProps = await refreshGoogleProps(
+    props,
+    env.GOOGLE_OAUTH_CLIENT_ID,
+    env.GOOGLE_OAUTH_CLIENT_SECRET
+  );
+  return { newProps, accessTokenTTL: newProps.expiresIn };
+}
+
+const oauthProvider = new OAuthProvider({
   apiRoute: ["/sse", "/mcp"],
   apiHandler: mcpHandler as any,
   defaultHandler: GoogleHandler as any,
   authorizeEndpoint: "/authorize",
   tokenEndpoint: "/token",
   clientRegistrationEndpoint: "/register",
+  tokenExchangeCallback,
 });
+
+export default {
+  fetch(request: Request, env: Env, ctx: ExecutionContext) {
+    // Google cannot authenticate as an MCP client, so its push notifications
+    // are routed before the OAuth provider checks for an access token
+    if (new URL(request.url).pathname.startsWith("/webhooks/")) {
+      return webhookHandler.fetch(request, env);
+    }
+    return oauthProvider.fetch(request, env, ctx);
+  },
+};
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { GoogleTokenManager } from "../utils/token-manager";
+import {
+  addDays,
+  isoWeekday,
+  localDate,
+  startOfDay,
+} from "../utils/time-zones";
+import { PromptRegistrar, PromptScopes, userPrompt } from "./registry";
+import {
+  findEmails,
+  formatEvents,
+  formatTasks,
+  getUserTimeZone,
+  listEvents,
+  listTasks,
+  PROMPT_SOURCES,
+  renderSection,
+  taskDueDate,
+} from "./sources";
+
+const BRIEFING_SCOPES = [
+  ...PROMPT_SOURCES.calendar.scopes,
+  ...PROMPT_SOURCES.gmail.scopes,
+  ...PROMPT_SOURCES.tasks.scopes,
+];
+// Emails included in each briefing
+const BRIEFING_EMAIL_LIMIT = 20;
+
+/**
+ * Scopes that unlock each briefing prompt
+ */
+export const briefingPromptScopes: PromptScopes = {
+  daily_briefing: BRIEFING_SCOPES,
+  weekly_review: BRIEFING_SCOPES,
+};
+
+const dateArg = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .optional();
+
+/**
+ * Registers the daily briefing and weekly review prompts
+ */
+export function registerBriefingPrompts(
+  server: PromptRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  server.registerPrompt(
+    "daily_briefing",
+    {
+      title: "Daily briefing",
+      description:
+        "Today's calendar, unread important email and tasks due, with a request to summarize the day and suggest priorities.",
+      argsSchema: {
+        date: dateArg.describe(
+          "Day to brief on as YYYY-MM-DD (default: today in your calendar's time zone)"
+        ),
+      },
+    },
+    async ({ date }) => {
+      const timeZone = await getUserTimeZone(tokenManager);
+      const day = date || localDate(new Date(), timeZone);
+
+      const sections = await Promise.all([
+        renderSection(
+          tokenManager,
+          "Calendar",
+          PROMPT_SOURCES.calendar,
+          async () =>
+            formatEvents(
+              await listEvents(tokenManager, {
+                timeMin: startOfDay(day, timeZone),
+                timeMax: startOfDay(addDays(day, 1), timeZone),
+              }),
+              timeZone
+            )
+        ),
+        renderSection(
+          tokenManager,
+          "Unread important email",
+          PROMPT_SOURCES.gmail,
+          () =>
+            findEmails(
+              tokenManager,
+              "is:unread is:important in:inbox",
+              BRIEFING_EMAIL_LIMIT
+            )
+        ),
+        renderSection(
+          tokenManager,
+          "Tasks due",
+          PROMPT_SOURCES.tasks,
+          async () => {
+            const due = (await listTasks(tokenManager))
+              .filter((task) => (taskDueDate(task) ?? "9999") <= day)
+              .sort((a, b) => (a.due ?? "").localeCompare(b.due ?? ""));
+            return formatTasks(due);
+          }
+        ),
+      ]);
+
+      return userPrompt(
+        `Daily briefing for ${day}`,
+        `Give me a briefing for ${day} (times are in ${timeZone}). Summarize my schedule and flag conflicts or tight gaps, point out emails that need a reply today, list tasks that are due or overdue, and suggest the three things I should focus on.\n\n${sections.join(
+          "\n\n"
+        )}`
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly review",
+      description:
+        "A week's meetings and completed tasks, next week's calendar, open tasks and unread important email, with a request for a weekly review.",
+      argsSchema: {
+        weekStart: dateArg.describe(
+          "First day of the week to review as YYYY-MM-DD (default: Monday of the current week)"
+        ),
+      },
+    },
+    async ({ weekStart }) => {
+      const timeZone = await getUserTimeZone(tokenManager);
+      const today = localDate(new Date(), timeZone);
+      const start = weekStart || addDays(today, 1 - isoWeekday(today));
+      const nextWeek = addDays(start, 7);
+      const weekEnd = addDays(nextWeek, -1);
+
+      const sections = await Promise.all([
+        renderSection(
+          tokenManager,
+          `This week (${start} to ${weekEnd})`,
+          PROMPT_SOURCES.calendar,
+          async () =>
+            formatEvents(
+              await listEvents(tokenManager, {
+                timeMin: startOfDay(start, timeZone),
+                timeMax: startOfDay(nextWeek, timeZone),
+                maxResults: 100,
+              }),
+              timeZone,
+              true
+            )
+        ),
+        renderSection(
+          tokenManager,
+          "Next week",
+          PROMPT_SOURCES.calendar,
+          async () =>
+            formatEvents(
+              await listEvents(tokenManager, {
+                timeMin: startOfDay(nextWeek, timeZone),
+                timeMax: startOfDay(addDays(nextWeek, 7), timeZone),
+                maxResults: 100,
+              }),
+              timeZone,
+              true
+            )
+        ),
+        renderSection(
+          tokenManager,
+          "Tasks completed this week",
+          PROMPT_SOURCES.tasks,
+          async () =>
+            formatTasks(
+              (
+                await listTasks(tokenManager, startOfDay(start, timeZone))
+              ).filter(
+                (task) =>
+                  new Date(task.completed ?? 0) < startOfDay(nextWeek, timeZone)
+              )
+            )
+        ),
+        renderSection(
+          tokenManager,
+          "Open tasks due by the end of next week",
+          PROMPT_SOURCES.tasks,
+          async () => {
+            const open = (await listTasks(tokenManager))
+              .filter(
+                (task) => (taskDueDate(task) ?? "9999") < addDays(nextWeek, 7)
+              )
+              .sort((a, b) => (a.due ?? "").localeCompare(b.due ?? ""));
+            return formatTasks(open);
+          }
+        ),
+        renderSection(
+          tokenManager,
+          "Unread important or starred email",
+          PROMPT_SOURCES.gmail,
+          () =>
+            findEmails(
+              tokenManager,
+              "is:unread {is:important is:starred} in:inbox",
+              BRIEFING_EMAIL_LIMIT
+            )
+        ),
+      ]);
+
+      return userPrompt(
+        `Weekly review for ${start} to ${weekEnd}`,
+        `Help me with a weekly review of ${start} to ${weekEnd} (times are in ${timeZone}). Summarize what I spent the week on and what got done, point out overdue tasks and loose ends from this week's meetings and email, and propose priorities and preparation for next week.\n\n${sections.join(
+          "\n\n"
+        )}`
+      );
+    }
+  );
+}
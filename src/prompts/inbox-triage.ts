@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { google } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { PromptRegistrar, PromptScopes, userPrompt } from "./registry";
+import { findEmails, PROMPT_SOURCES, renderSection } from "./sources";
+
+const DEFAULT_TRIAGE_MESSAGES = 25;
+const MAX_TRIAGE_MESSAGES = 100;
+
+/**
+ * Scopes that unlock the inbox triage prompt
+ */
+export const inboxTriagePromptScopes: PromptScopes = {
+  inbox_zero_triage: PROMPT_SOURCES.gmail.scopes,
+};
+
+/**
+ * Registers the inbox zero triage prompt
+ */
+export function registerInboxTriagePrompts(
+  server: PromptRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  server.registerPrompt(
+    "inbox_zero_triage",
+    {
+      title: "Inbox zero triage",
+      description:
+        "The newest messages matching a search and your labels, with a request to propose an action for each message and apply them once confirmed.",
+      argsSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe("Gmail search query to triage (default: in:inbox)"),
+        maxMessages: z
+          .string()
+          .regex(/^\d+$/, "Expected a number")
+          .optional()
+          .describe(
+            `Number of messages to triage (default: ${DEFAULT_TRIAGE_MESSAGES}, max: ${MAX_TRIAGE_MESSAGES})`
+          ),
+      },
+    },
+    async ({ query, maxMessages }) => {
+      const search = query || "in:inbox";
+      const limit = Math.min(
+        Math.max(Number(maxMessages ?? DEFAULT_TRIAGE_MESSAGES), 1),
+        MAX_TRIAGE_MESSAGES
+      );
+
+      const sections = await Promise.all([
+        renderSection(tokenManager, "Messages", PROMPT_SOURCES.gmail, () =>
+          findEmails(tokenManager, search, limit)
+        ),
+        renderSection(
+          tokenManager,
+          "Your labels",
+          PROMPT_SOURCES.gmail,
+          async () => {
+            const gmail = google.gmail({
+              version: "v1",
+              auth: tokenManager.getClient(),
+            });
+            const response = await gmail.users.labels.list({ userId: "me" });
+            const names = (response.data.labels || [])
+              .filter((label) => label.type === "user")
+              .map((label) => label.name)
+              .sort();
+            return names.length > 0 ? names.join(", ") : "No custom labels.";
+          }
+        ),
+      ]);
+
+      return userPrompt(
+        `Inbox triage for "${search}"`,
+        `Help me get to inbox zero for the messages matching "${search}". Sort each message into one of: reply needed, follow up later, file under a label, archive, or trash. Show me the proposed action for every message (grouped by action, with message IDs) and wait for my confirmation. Once I confirm, apply the actions with gmail_modifyLabels for individual messages or gmail_bulkModify for whole searches such as all mail from one newsletter, and draft replies with gmail_draftEmail where I ask for them.\n\n${sections.join(
+          "\n\n"
+        )}`
+      );
+    }
+  );
+}
@@ -0,0 +1,41 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope } from "../utils/scopes";
+import { createPromptRegistrar, PromptScopes } from "./registry";
+import { briefingPromptScopes, registerBriefingPrompts } from "./briefings";
+import {
+  meetingPrepPromptScopes,
+  registerMeetingPrepPrompts,
+} from "./meeting-prep";
+import {
+  inboxTriagePromptScopes,
+  registerInboxTriagePrompts,
+} from "./inbox-triage";
+
+const PROMPT_SCOPES: PromptScopes = {
+  ...briefingPromptScopes,
+  ...meetingPrepPromptScopes,
+  ...inboxTriagePromptScopes,
+};
+
+/**
+ * Registers MCP prompts that gather data from several Google services into a
+ * ready-made request, such as a daily briefing. Only prompts covered by the
+ * scopes the user granted are exposed. Prompts only read data; any changes
+ * are left to tools the model calls afterwards, so read-only mode does not
+ * change anything.
+ */
+export function registerAllPrompts(
+  server: McpServer,
+  tokenManager: GoogleTokenManager
+) {
+  const grantedScopes = tokenManager.props.scopes;
+  const registrar = createPromptRegistrar(server, (name) => {
+    const required = PROMPT_SCOPES[name];
+    return !required || hasAnyScope(grantedScopes, required);
+  });
+
+  registerBriefingPrompts(registrar, tokenManager);
+  registerMeetingPrepPrompts(registrar, tokenManager);
+  registerInboxTriagePrompts(registrar, tokenManager);
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { google } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { toEventOutput } from "../tools/calendar";
+import { PromptRegistrar, PromptScopes, userPrompt } from "./registry";
+import {
+  describeContacts,
+  findEmails,
+  findFiles,
+  formatEvents,
+  getUserTimeZone,
+  PROMPT_SOURCES,
+  renderSection,
+} from "./sources";
+
+// Attendees searched for in Gmail; longer queries are rejected
+const MAX_SEARCHED_ATTENDEES = 10;
+const RELATED_EMAIL_LIMIT = 10;
+const RELATED_FILE_LIMIT = 5;
+
+/**
+ * Scopes that unlock the meeting prep prompt
+ */
+export const meetingPrepPromptScopes: PromptScopes = {
+  meeting_prep: PROMPT_SOURCES.calendar.scopes,
+};
+
+/**
+ * Registers the meeting prep prompt
+ */
+export function registerMeetingPrepPrompts(
+  server: PromptRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  server.registerPrompt(
+    "meeting_prep",
+    {
+      title: "Meeting prep",
+      description:
+        "An event's details, what your contacts know about the attendees, related Drive files and recent email with them, with a request for a briefing note.",
+      argsSchema: {
+        eventId: z.string().min(1).describe("ID of the event to prepare for"),
+        calendarId: z
+          .string()
+          .optional()
+          .describe("Calendar ID (default: primary)"),
+      },
+    },
+    async ({ eventId, calendarId }) => {
+      const calendar = google.calendar({
+        version: "v3",
+        auth: tokenManager.getClient(),
+      });
+      const [response, timeZone] = await Promise.all([
+        calendar.events.get({ calendarId: calendarId || "primary", eventId }),
+        getUserTimeZone(tokenManager),
+      ]);
+      const event = response.data;
+      const output = toEventOutput(event);
+      const ownEmail = tokenManager.props.email.toLowerCase();
+      const attendeeEmails = (event.attendees || [])
+        .filter(
+          (a) =>
+            a.email &&
+            !a.self &&
+            !a.resource &&
+            a.email.toLowerCase() !== ownEmail
+        )
+        .map((a) => a.email!);
+
+      let details = formatEvents([event], timeZone, true);
+      if (output.organizer) details += `\nOrganizer: ${output.organizer}`;
+      if (output.attendees.length > 0) {
+        details += `\nResponses: ${output.attendees
+          .map((a) => `${a.name || a.email} (${a.responseStatus})`)
+          .join(", ")}`;
+      }
+      if (output.meetLink) details += `\nVideo call: ${output.meetLink}`;
+      if (output.description) details += `\n\n${output.description}`;
+
+      const attachments = (event.attachments || [])
+        .map((file) => `- ${file.title} (attached)\n  ${file.fileUrl}`)
+        .join("\n");
+      const sections = await Promise.all([
+        renderSection(tokenManager, "Attendees", PROMPT_SOURCES.contacts, () =>
+          describeContacts(tokenManager, attendeeEmails)
+        ),
+        renderSection(
+          tokenManager,
+          "Related Drive files",
+          PROMPT_SOURCES.drive,
+          async () => {
+            const found = event.summary
+              ? await findFiles(tokenManager, event.summary, RELATED_FILE_LIMIT)
+              : "";
+            return (
+              [attachments, found].filter(Boolean).join("\n") ||
+              "No related files."
+            );
+          }
+        ),
+        renderSection(
+          tokenManager,
+          "Recent email with the attendees",
+          PROMPT_SOURCES.gmail,
+          () => {
+            const people = attendeeEmails.slice(0, MAX_SEARCHED_ATTENDEES);
+            const query =
+              people.length > 0
+                ? `{${people
+                    .map((email) => `from:${email} to:${email}`)
+                    .join(" ")}} newer_than:60d`
+                : `"${output.summary.replace(/"/g, "")}" newer_than:60d`;
+            return findEmails(tokenManager, query, RELATED_EMAIL_LIMIT);
+          }
+        ),
+      ]);
+
+      return userPrompt(
+        `Meeting prep for ${output.summary}`,
+        `Prepare me for the meeting "${
+          output.summary
+        }" (times are in ${timeZone}). Write a short briefing note: the purpose of the meeting, who is attending and their context, open threads and documents I should review, and questions or decisions to raise.\n\n## Event\n\n${details}\n\n${sections.join(
+          "\n\n"
+        )}`
+      );
+    }
+  );
+}
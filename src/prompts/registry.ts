@@ -0,0 +1,76 @@
+import {
+  McpServer,
+  RegisteredPrompt,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { describeGoogleError } from "../utils/google-errors";
+
+/**
+ * Scopes that unlock each prompt, keyed by prompt name. Any one listed scope
+ * is sufficient: sections of a prompt whose service was not granted are
+ * replaced by a note instead.
+ */
+export type PromptScopes = Record<string, readonly string[]>;
+
+/**
+ * The part of McpServer the prompt modules register against
+ */
+export type PromptRegistrar = Pick<McpServer, "registerPrompt">;
+
+/**
+ * Builds a prompt result made of a single user message.
+ *
+ * @param description - Shown by clients next to the rendered prompt.
+ * @param text - The message text.
+ */
+export function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Wraps an McpServer so that prompts rejected by `isAllowed` never show up in
+ * prompts/list, and so that failed prompts become JSON-RPC errors with the
+ * same description tools and resources give.
+ *
+ * @param server - The server to register prompts on.
+ * @param isAllowed - Decides whether a prompt is exposed, given its name.
+ */
+export function createPromptRegistrar(
+  server: McpServer,
+  isAllowed: (name: string) => boolean
+): PromptRegistrar {
+  const registerPrompt = (
+    name: string,
+    config: object,
+    callback: (...args: unknown[]) => Promise<GetPromptResult>
+  ): RegisteredPrompt => {
+    const registered = (
+      server.registerPrompt as (
+        name: string,
+        config: object,
+        cb: (...args: unknown[]) => Promise<GetPromptResult>
+      ) => RegisteredPrompt
+    ).call(server, name, config, async (...args: unknown[]) => {
+      try {
+        return await callback(...args);
+      } catch (error) {
+        console.error(`Error in prompt ${name}:`, error);
+        const info = describeGoogleError(error);
+        throw new McpError(
+          info.code === "INVALID_ARGUMENT" || info.code === "NOT_FOUND"
+            ? ErrorCode.InvalidParams
+            : ErrorCode.InternalError,
+          `Error rendering ${name} [${info.code}]: ${info.message}\nHint: ${info.hint}`,
+          info
+        );
+      }
+    });
+    if (!isAllowed(name)) registered.remove();
+    return registered;
+  };
+  return { registerPrompt: registerPrompt as McpServer["registerPrompt"] };
+}
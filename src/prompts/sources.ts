@@ -0,0 +1,326 @@
+import { google, calendar_v3 } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope, SCOPES } from "../utils/scopes";
+import { describeGoogleError } from "../utils/google-errors";
+import { formatEmailSummaries, searchEmails } from "../utils/gmail-search";
+import { getCalendarTimeZone, localDate } from "../utils/time-zones";
+import { toEventOutput } from "../tools/calendar";
+import { toTaskOutput } from "../tools/tasks";
+import { summarizePerson } from "../tools/contacts";
+import { toFileOutput } from "../tools/drive";
+
+/**
+ * A Google service a prompt section is fetched from
+ */
+export interface PromptSource {
+  label: string;
+  /** Any one of these scopes is enough to fetch the section */
+  scopes: readonly string[];
+}
+
+/**
+ * The services prompts draw from, with the scopes needed to read them
+ */
+export const PROMPT_SOURCES = {
+  gmail: {
+    label: "Gmail",
+    scopes: [SCOPES.GMAIL_READONLY, SCOPES.GMAIL_MODIFY],
+  },
+  calendar: {
+    label: "Calendar",
+    scopes: [SCOPES.CALENDAR_READONLY, SCOPES.CALENDAR],
+  },
+  tasks: {
+    label: "Tasks",
+    scopes: [SCOPES.TASKS_READONLY, SCOPES.TASKS],
+  },
+  contacts: {
+    label: "Contacts",
+    scopes: [SCOPES.CONTACTS_READONLY],
+  },
+  drive: {
+    label: "Drive",
+    scopes: [SCOPES.DRIVE_READONLY, SCOPES.DRIVE_FILE, SCOPES.DRIVE],
+  },
+} satisfies Record<string, PromptSource>;
+
+/**
+ * A task together with the title of the list it belongs to
+ */
+export type ListedTask = ReturnType<typeof toTaskOutput> & {
+  listTitle: string;
+};
+
+/**
+ * Checks whether the user granted access to a source.
+ */
+export function canRead(
+  tokenManager: GoogleTokenManager,
+  source: PromptSource
+): boolean {
+  return hasAnyScope(tokenManager.props.scopes, source.scopes);
+}
+
+/**
+ * Renders a markdown section of a prompt. When the source was not granted or
+ * `load` fails, the section holds a note instead, so one unavailable service
+ * does not fail the whole prompt.
+ *
+ * @param tokenManager - Token manager of the current user.
+ * @param title - Heading of the section.
+ * @param source - The service the section is read from.
+ * @param load - Fetches the section body.
+ */
+export async function renderSection(
+  tokenManager: GoogleTokenManager,
+  title: string,
+  source: PromptSource,
+  load: () => Promise<string>
+): Promise<string> {
+  if (!canRead(tokenManager, source)) {
+    return `## ${title}\n\n_Unavailable: ${source.label} access was not granted._`;
+  }
+  try {
+    return `## ${title}\n\n${await load()}`;
+  } catch (error) {
+    console.error(`Error loading prompt section "${title}":`, error);
+    const info = describeGoogleError(error, source.label);
+    return `## ${title}\n\n_Could not be loaded [${info.code}]: ${info.message}_`;
+  }
+}
+
+/**
+ * Gets the time zone in the user's Calendar settings, falling back to UTC
+ * when Calendar was not granted or cannot be read.
+ */
+export async function getUserTimeZone(
+  tokenManager: GoogleTokenManager
+): Promise<string> {
+  if (!canRead(tokenManager, PROMPT_SOURCES.calendar)) return "UTC";
+  try {
+    return await getCalendarTimeZone(tokenManager.getClient());
+  } catch (error) {
+    console.error("Error reading the calendar time zone:", error);
+    return "UTC";
+  }
+}
+
+/**
+ * Lists the events of a calendar between two instants, recurring events
+ * expanded and ordered by start time.
+ */
+export async function listEvents(
+  tokenManager: GoogleTokenManager,
+  params: {
+    timeMin: Date;
+    timeMax: Date;
+    calendarId?: string;
+    maxResults?: number;
+  }
+): Promise<calendar_v3.Schema$Event[]> {
+  const calendar = google.calendar({
+    version: "v3",
+    auth: tokenManager.getClient(),
+  });
+  const response = await calendar.events.list({
+    calendarId: params.calendarId || "primary",
+    timeMin: params.timeMin.toISOString(),
+    timeMax: params.timeMax.toISOString(),
+    singleEvents: true,
+    orderBy: "startTime",
+    maxResults: params.maxResults ?? 50,
+  });
+  return response.data.items || [];
+}
+
+/**
+ * Formats events as a markdown list with local times and IDs.
+ *
+ * @param events - Events to format.
+ * @param timeZone - Time zone to show times in.
+ * @param withDate - Whether to prefix each event with its date.
+ */
+export function formatEvents(
+  events: calendar_v3.Schema$Event[],
+  timeZone: string,
+  withDate = false
+): string {
+  if (events.length === 0) return "No events.";
+  const time = (dateTime: string) =>
+    new Date(dateTime).toLocaleTimeString("en-GB", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  return events
+    .map((event) => {
+      const output = toEventOutput(event);
+      let when: string;
+      if (event.start?.dateTime && event.end?.dateTime) {
+        const date = localDate(new Date(event.start.dateTime), timeZone);
+        when = `${withDate ? `${date} ` : ""}${time(
+          event.start.dateTime
+        )}–${time(event.end.dateTime)}`;
+      } else {
+        when = `${withDate ? `${output.start} ` : ""}all day`;
+      }
+      let line = `- ${when}: ${output.summary} (ID: ${output.id})`;
+      if (output.location) line += `\n  Location: ${output.location}`;
+      if (output.attendees.length > 0) {
+        line += `\n  Attendees: ${output.attendees
+          .map((a) => a.name || a.email)
+          .join(", ")}`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Lists the tasks of every task list.
+ *
+ * @param tokenManager - Token manager of the current user.
+ * @param completedMin - When set, lists the tasks completed since then
+ *   instead of the open ones.
+ */
+export async function listTasks(
+  tokenManager: GoogleTokenManager,
+  completedMin?: Date
+): Promise<ListedTask[]> {
+  const tasks = google.tasks({
+    version: "v1",
+    auth: tokenManager.getClient(),
+  });
+  const lists = await tasks.tasklists.list({ maxResults: 100 });
+  const results = await Promise.all(
+    (lists.data.items || []).map(async (list) => {
+      const response = await tasks.tasks.list({
+        tasklist: list.id || "",
+        maxResults: 100,
+        showCompleted: !!completedMin,
+        showHidden: !!completedMin,
+        completedMin: completedMin?.toISOString(),
+      });
+      return (response.data.items || [])
+        .map((task) => ({
+          ...toTaskOutput(task),
+          listTitle: list.title || "",
+        }))
+        .filter(
+          (task) => (task.status === "completed") === Boolean(completedMin)
+        );
+    })
+  );
+  return results.flat();
+}
+
+/**
+ * Gets the due date of a task as YYYY-MM-DD. Tasks only store a date, sent
+ * as midnight UTC.
+ */
+export function taskDueDate(task: ListedTask): string | undefined {
+  return task.due?.slice(0, 10);
+}
+
+/**
+ * Formats tasks as a markdown list with due dates, lists and IDs.
+ */
+export function formatTasks(tasks: ListedTask[]): string {
+  if (tasks.length === 0) return "No tasks.";
+  return tasks
+    .map((task) => {
+      const details = [
+        taskDueDate(task) ? `due ${taskDueDate(task)}` : undefined,
+        `list: ${task.listTitle}`,
+        `ID: ${task.id}`,
+      ].filter(Boolean);
+      return `- ${task.title || "(Untitled)"} (${details.join(", ")})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Searches emails and formats them the way gmail_listEmails does.
+ */
+export async function findEmails(
+  tokenManager: GoogleTokenManager,
+  query: string,
+  maxResults: number
+): Promise<string> {
+  const { emails } = await searchEmails(tokenManager.getClient(), {
+    query,
+    maxResults,
+  });
+  return emails.length > 0
+    ? formatEmailSummaries(emails)
+    : "No matching emails.";
+}
+
+/**
+ * Looks up each address in the user's contacts and formats what is known
+ * about them, listing unknown addresses as they are.
+ */
+export async function describeContacts(
+  tokenManager: GoogleTokenManager,
+  emails: string[]
+): Promise<string> {
+  if (emails.length === 0) return "No attendees besides you.";
+  const people = google.people({
+    version: "v1",
+    auth: tokenManager.getClient(),
+  });
+  const lines = await Promise.all(
+    emails.map(async (email) => {
+      const response = await people.people.searchContacts({
+        query: email,
+        pageSize: 1,
+        readMask: "names,emailAddresses,phoneNumbers,organizations",
+      });
+      const person = response.data.results?.[0]?.person;
+      if (!person) return `- ${email} (not in your contacts)`;
+      const contact = summarizePerson(person);
+      const organization = person.organizations?.[0];
+      const role = [organization?.title, organization?.name]
+        .filter(Boolean)
+        .join(", ");
+      let line = `- ${contact.name} <${email}>`;
+      if (role) line += `, ${role}`;
+      if (contact.phoneNumbers.length > 0) {
+        line += `\n  Phone: ${contact.phoneNumbers.join(", ")}`;
+      }
+      return line;
+    })
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Searches Drive for files whose name or content contains some text. Drive
+ * ranks full-text matches by relevance and cannot sort them.
+ */
+export async function findFiles(
+  tokenManager: GoogleTokenManager,
+  text: string,
+  maxResults: number
+): Promise<string> {
+  const drive = google.drive({
+    version: "v3",
+    auth: tokenManager.getClient(),
+  });
+  const escaped = text.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+  const response = await drive.files.list({
+    q: `fullText contains '${escaped}' and trashed = false`,
+    pageSize: maxResults,
+    fields: "files(id, name, mimeType, modifiedTime, webViewLink)",
+  });
+  const files = (response.data.files || []).map(toFileOutput);
+  if (files.length === 0) return "No matching files.";
+  return files
+    .map(
+      (file) =>
+        `- ${file.name} (ID: ${file.id}, modified ${file.modifiedTime})${
+          file.webViewLink ? `\n  ${file.webViewLink}` : ""
+        }`
+    )
+    .join("\n");
+}
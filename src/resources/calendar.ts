@@ -0,0 +1,80 @@
+import { google } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  listableTemplate,
+  RECENT_RESOURCE_LIMIT,
+  ResourceRegistrar,
+  ResourceScopes,
+  uriVariable,
+} from "./registry";
+
+const CALENDAR_READ_SCOPES = [SCOPES.CALENDAR_READONLY, SCOPES.CALENDAR];
+
+/**
+ * Scopes that unlock each Calendar resource template
+ */
+export const calendarResourceScopes: ResourceScopes = {
+  calendar_event: CALENDAR_READ_SCOPES,
+};
+
+/**
+ * Registers Calendar events as MCP resources
+ */
+export function registerCalendarResources(
+  server: ResourceRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getCalendarClient = () => {
+    return google.calendar({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  // Resource for a single event, listing the next events on the primary calendar
+  server.registerResource(
+    "calendar_event",
+    listableTemplate("calendar://{calendarId}/events/{eventId}", async () => {
+      const calendar = getCalendarClient();
+      const response = await calendar.events.list({
+        calendarId: "primary",
+        timeMin: new Date().toISOString(),
+        singleEvents: true,
+        orderBy: "startTime",
+        maxResults: RECENT_RESOURCE_LIMIT,
+      });
+      return {
+        resources: (response.data.items || []).map((event) => ({
+          uri: `calendar://primary/events/${encodeURIComponent(
+            event.id || ""
+          )}`,
+          name: event.summary || "(No title)",
+          description: `Starts ${event.start?.dateTime || event.start?.date}`,
+          mimeType: "application/json",
+        })),
+      };
+    }),
+    {
+      description:
+        "A Calendar event as returned by the Google Calendar API, in JSON. Use 'primary' as the calendar ID for the user's main calendar.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const calendar = getCalendarClient();
+      const response = await calendar.events.get({
+        calendarId: uriVariable(variables, "calendarId"),
+        eventId: uriVariable(variables, "eventId"),
+      });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,128 @@
+import { google } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import { isTextMimeType } from "../utils/gmail-message";
+import { ToolError } from "../utils/google-errors";
+import {
+  listableTemplate,
+  RECENT_RESOURCE_LIMIT,
+  ResourceRegistrar,
+  ResourceScopes,
+  uriVariable,
+} from "./registry";
+
+const DRIVE_READ_SCOPES = [
+  SCOPES.DRIVE_READONLY,
+  SCOPES.DRIVE_FILE,
+  SCOPES.DRIVE,
+];
+// Larger stored files are not returned inline
+const MAX_RESOURCE_BYTES = 5 * 1024 * 1024;
+
+// Format each Google Apps file type is exported as when read
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  "application/vnd.google-apps.document": "text/plain",
+  "application/vnd.google-apps.spreadsheet": "text/csv",
+  "application/vnd.google-apps.presentation": "text/plain",
+  "application/vnd.google-apps.drawing": "image/png",
+  "application/vnd.google-apps.script":
+    "application/vnd.google-apps.script+json",
+};
+
+/**
+ * Scopes that unlock each Drive resource template
+ */
+export const driveResourceScopes: ResourceScopes = {
+  drive_file: DRIVE_READ_SCOPES,
+};
+
+/**
+ * Registers Drive files as MCP resources
+ */
+export function registerDriveResources(
+  server: ResourceRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getDriveClient = () => {
+    return google.drive({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  // Resource for a file's content, listing the most recently modified files
+  server.registerResource(
+    "drive_file",
+    listableTemplate("drive://files/{fileId}", async () => {
+      const drive = getDriveClient();
+      const response = await drive.files.list({
+        q: "trashed = false and mimeType != 'application/vnd.google-apps.folder'",
+        orderBy: "modifiedTime desc",
+        pageSize: RECENT_RESOURCE_LIMIT,
+        fields: "files(id, name, mimeType, modifiedTime, size)",
+      });
+      return {
+        resources: (response.data.files || []).map((file) => ({
+          uri: `drive://files/${encodeURIComponent(file.id || "")}`,
+          name: file.name || file.id || "",
+          description: `Modified ${file.modifiedTime}`,
+          mimeType:
+            EXPORT_MIME_TYPES[file.mimeType || ""] ??
+            file.mimeType ??
+            undefined,
+          size: file.size ? Number(file.size) : undefined,
+        })),
+      };
+    }),
+    {
+      description:
+        "The content of a Drive file. Google Docs and Slides are exported as plain text, Sheets as CSV and Drawings as PNG; other files are returned as stored.",
+    },
+    async (uri, variables) => {
+      const drive = getDriveClient();
+      const fileId = uriVariable(variables, "fileId");
+      const metadata = await drive.files.get({
+        fileId,
+        fields: "name, mimeType, size",
+      });
+      const sourceType = metadata.data.mimeType || "application/octet-stream";
+      const exportType = EXPORT_MIME_TYPES[sourceType];
+
+      if (
+        !exportType &&
+        sourceType.startsWith("application/vnd.google-apps.")
+      ) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `${metadata.data.name} is a ${sourceType} file, which has no content to read.`
+        );
+      }
+      if (!exportType && Number(metadata.data.size) > MAX_RESOURCE_BYTES) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `${metadata.data.name} is ${metadata.data.size} bytes, too large to return directly.`,
+          "Open the file in Drive instead, e.g. via the link from drive_listFiles."
+        );
+      }
+
+      const response = exportType
+        ? await drive.files.export(
+            { fileId, mimeType: exportType },
+            { responseType: "arraybuffer" }
+          )
+        : await drive.files.get(
+            { fileId, alt: "media" },
+            { responseType: "arraybuffer" }
+          );
+      const data = Buffer.from(response.data as ArrayBuffer);
+      const mimeType = exportType || sourceType;
+      return {
+        contents: [
+          isTextMimeType(mimeType)
+            ? { uri: uri.href, mimeType, text: data.toString("utf8") }
+            : { uri: uri.href, mimeType, blob: data.toString("base64") },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,235 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { google, gmail_v1 } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  downloadAttachment,
+  findBody,
+  getHeader,
+  htmlToText,
+  isHtmlBody,
+  isTextMimeType,
+  listAttachments,
+} from "../utils/gmail-message";
+import { ToolError } from "../utils/google-errors";
+import { formatEmailSummaries, searchEmails } from "../utils/gmail-search";
+import {
+  listableTemplate,
+  RECENT_RESOURCE_LIMIT,
+  ResourceRegistrar,
+  ResourceScopes,
+  uriVariable,
+} from "./registry";
+import { GMAIL_INBOX_URI } from "./subscriptions";
+
+const GMAIL_READ_SCOPES = [SCOPES.GMAIL_READONLY, SCOPES.GMAIL_MODIFY];
+// Larger attachments are not returned inline
+const MAX_RESOURCE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Scopes that unlock each Gmail resource template
+ */
+export const gmailResourceScopes: ResourceScopes = {
+  gmail_inbox: GMAIL_READ_SCOPES,
+  gmail_message: GMAIL_READ_SCOPES,
+  gmail_thread: GMAIL_READ_SCOPES,
+  gmail_attachment: GMAIL_READ_SCOPES,
+};
+
+/**
+ * Renders a message as plain text: its headers, attachment list and body,
+ * with HTML bodies converted to text.
+ */
+function formatMessage(message: gmail_v1.Schema$Message): string {
+  const headers = message.payload?.headers;
+  const date =
+    getHeader(headers, "Date") ||
+    (message.internalDate
+      ? new Date(parseInt(message.internalDate)).toISOString()
+      : "Unknown");
+  const body = message.payload ? findBody(message.payload) : "";
+  const attachments = message.payload ? listAttachments(message.payload) : [];
+
+  let text = `Message ID: ${message.id}\n`;
+  text += `Subject: ${getHeader(headers, "Subject") || "(No subject)"}\n`;
+  text += `From: ${getHeader(headers, "From") || ""}\n`;
+  text += `To: ${getHeader(headers, "To") || ""}\n`;
+  const cc = getHeader(headers, "Cc");
+  if (cc) text += `Cc: ${cc}\n`;
+  text += `Date: ${date}\n`;
+  if (attachments.length > 0) {
+    text += `Attachments: ${attachments
+      .map((a) => `${a.filename} (${a.mimeType}, ${a.size} bytes)`)
+      .join(", ")}\n`;
+  }
+  text += `\n${isHtmlBody(body) ? htmlToText(body) : body}`;
+  return text;
+}
+
+/**
+ * Registers the Gmail inbox, messages, threads and attachments as MCP resources
+ */
+export function registerGmailResources(
+  server: ResourceRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getGmailClient = () => {
+    return google.gmail({
+      version: "v1",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  const listInbox = () =>
+    searchEmails(tokenManager.getClient(), {
+      labelIds: ["INBOX"],
+      maxResults: RECENT_RESOURCE_LIMIT,
+    });
+
+  // Resource for the newest inbox messages, to subscribe to inbox changes
+  server.registerResource(
+    "gmail_inbox",
+    GMAIL_INBOX_URI,
+    {
+      description:
+        "Summaries of the newest messages in the inbox, as plain text. Subscribe to it to be notified of new mail.",
+      mimeType: "text/plain",
+    },
+    async (uri) => {
+      const { emails } = await listInbox();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text:
+              emails.length > 0
+                ? formatEmailSummaries(emails)
+                : "The inbox is empty.",
+          },
+        ],
+      };
+    }
+  );
+
+  // Resource for a single email, listing the newest inbox messages
+  server.registerResource(
+    "gmail_message",
+    listableTemplate("gmail://messages/{messageId}", async () => {
+      const { emails } = await listInbox();
+      return {
+        resources: emails.map((email) => ({
+          uri: `gmail://messages/${encodeURIComponent(email.id)}`,
+          name: email.subject,
+          description: `From ${email.from}, ${email.date}`,
+          mimeType: "text/plain",
+        })),
+      };
+    }),
+    {
+      description:
+        "An email with its headers, attachment list and body as plain text.",
+      mimeType: "text/plain",
+    },
+    async (uri, variables) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.messages.get({
+        userId: "me",
+        id: uriVariable(variables, "messageId"),
+        format: "full",
+      });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: formatMessage(response.data),
+          },
+        ],
+      };
+    }
+  );
+
+  // Resource for a whole conversation, listing the newest inbox threads
+  server.registerResource(
+    "gmail_thread",
+    listableTemplate("gmail://threads/{threadId}", async () => {
+      const { emails } = await listInbox();
+      const seen = new Set<string>();
+      return {
+        resources: emails
+          .filter((email) => {
+            if (!email.threadId || seen.has(email.threadId)) return false;
+            seen.add(email.threadId);
+            return true;
+          })
+          .map((email) => ({
+            uri: `gmail://threads/${encodeURIComponent(email.threadId!)}`,
+            name: email.subject,
+            description: `Last message from ${email.from}, ${email.date}`,
+            mimeType: "text/plain",
+          })),
+      };
+    }),
+    {
+      description:
+        "An email conversation with every message in chronological order, as plain text.",
+      mimeType: "text/plain",
+    },
+    async (uri, variables) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.threads.get({
+        userId: "me",
+        id: uriVariable(variables, "threadId"),
+        format: "full",
+      });
+      const messages = [...(response.data.messages || [])].sort(
+        (a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0)
+      );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: messages.map(formatMessage).join("\n\n---\n\n"),
+          },
+        ],
+      };
+    }
+  );
+
+  // Resource for an attachment, as returned by gmail_getAttachment. There
+  // is nothing to list: attachments are reached through their message.
+  server.registerResource(
+    "gmail_attachment",
+    new ResourceTemplate("gmail://messages/{messageId}/attachments/{partId}", {
+      list: undefined,
+    }),
+    {
+      description:
+        "An email attachment, as text for text-based files and as binary otherwise.",
+    },
+    async (uri, variables) => {
+      const attachment = await downloadAttachment(
+        getGmailClient(),
+        uriVariable(variables, "messageId"),
+        uriVariable(variables, "partId")
+      );
+      if (attachment.data.length > MAX_RESOURCE_BYTES) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `${attachment.filename} is ${attachment.data.length} bytes, too large to return directly.`,
+          "Use gmail_saveAttachmentToDrive to save it to Google Drive instead."
+        );
+      }
+      const { mimeType, data } = attachment;
+      return {
+        contents: [
+          isTextMimeType(mimeType)
+            ? { uri: uri.href, mimeType, text: data.toString("utf8") }
+            : { uri: uri.href, mimeType, blob: data.toString("base64") },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,37 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope } from "../utils/scopes";
+import { createResourceRegistrar, ResourceScopes } from "./registry";
+import { gmailResourceScopes, registerGmailResources } from "./gmail";
+import { driveResourceScopes, registerDriveResources } from "./drive";
+import { calendarResourceScopes, registerCalendarResources } from "./calendar";
+import { registerTasksResources, tasksResourceScopes } from "./tasks";
+
+const RESOURCE_SCOPES: ResourceScopes = {
+  ...gmailResourceScopes,
+  ...driveResourceScopes,
+  ...calendarResourceScopes,
+  ...tasksResourceScopes,
+};
+
+/**
+ * Registers Google data as MCP resources, so clients can attach messages,
+ * files, events and tasks as context without calling tools. Only resources
+ * covered by the scopes the user granted are exposed; all of them are
+ * read-only, so read-only mode does not change anything.
+ */
+export function registerAllResources(
+  server: McpServer,
+  tokenManager: GoogleTokenManager
+) {
+  const grantedScopes = tokenManager.props.scopes;
+  const registrar = createResourceRegistrar(server, (name) => {
+    const required = RESOURCE_SCOPES[name];
+    return !required || hasAnyScope(grantedScopes, required);
+  });
+
+  registerGmailResources(registrar, tokenManager);
+  registerDriveResources(registrar, tokenManager);
+  registerCalendarResources(registrar, tokenManager);
+  registerTasksResources(registrar, tokenManager);
+}
@@ -0,0 +1,151 @@
+import {
+  ListResourcesCallback,
+  McpServer,
+  ReadResourceCallback,
+  ReadResourceTemplateCallback,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  ResourceMetadata,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { describeGoogleError, ToolErrorCode } from "../utils/google-errors";
+import { SERVICE_SCOPE_CHOICES } from "../utils/scopes";
+
+// JSON-RPC error code the MCP specification reserves for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * How many recent items each resource template lists
+ */
+export const RECENT_RESOURCE_LIMIT = 20;
+
+/**
+ * Scopes that unlock each resource template, keyed by resource name. Any one
+ * listed scope is sufficient.
+ */
+export type ResourceScopes = Record<string, readonly string[]>;
+
+/**
+ * The part of McpServer the resource modules register against
+ */
+export interface ResourceRegistrar {
+  registerResource(
+    name: string,
+    uri: string,
+    config: ResourceMetadata,
+    readCallback: ReadResourceCallback
+  ): RegisteredResource;
+  registerResource(
+    name: string,
+    template: ResourceTemplate,
+    config: ResourceMetadata,
+    readCallback: ReadResourceTemplateCallback
+  ): RegisteredResourceTemplate;
+}
+
+const ERROR_CODES: Partial<Record<ToolErrorCode, number>> = {
+  INVALID_ARGUMENT: ErrorCode.InvalidParams,
+  NOT_FOUND: RESOURCE_NOT_FOUND,
+};
+
+/**
+ * Builds the JSON-RPC error for a failed resource read. The message is meant
+ * for the model; `data` carries the same details for programmatic clients.
+ *
+ * @param name - Name of the resource template, e.g. "gmail_message".
+ * @param uri - The URI that was read.
+ * @param error - The thrown value.
+ */
+export function resourceError(
+  name: string,
+  uri: URL,
+  error: unknown
+): McpError {
+  const service = SERVICE_SCOPE_CHOICES.find(
+    (choice) => choice.id === name.split("_")[0]
+  );
+  const info = describeGoogleError(error, service?.label);
+  return new McpError(
+    ERROR_CODES[info.code] ?? ErrorCode.InternalError,
+    `Error reading ${uri.href} [${info.code}]: ${info.message}\nHint: ${info.hint}`,
+    { ...info, uri: uri.href }
+  );
+}
+
+/**
+ * Creates a URI template whose `resources/list` callback never fails: the
+ * SDK lists all templates in one response, so an error in one service would
+ * otherwise hide the resources of every other service.
+ *
+ * @param uriTemplate - RFC 6570 template, e.g. "drive://files/{fileId}".
+ * @param list - Lists recent resources matching the template.
+ */
+export function listableTemplate(
+  uriTemplate: string,
+  list: ListResourcesCallback
+): ResourceTemplate {
+  return new ResourceTemplate(uriTemplate, {
+    list: async (extra) => {
+      try {
+        return await list(extra);
+      } catch (error) {
+        console.error(`Error listing ${uriTemplate}:`, error);
+        return { resources: [] };
+      }
+    },
+  });
+}
+
+/**
+ * Gets a variable matched from a resource URI, percent-decoded.
+ */
+export function uriVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Wraps an McpServer so that resource templates rejected by `isAllowed`
+ * never show up in resources/list or resources/templates/list, and so that
+ * failed reads become JSON-RPC errors described by resourceError.
+ *
+ * @param server - The server to register resources on.
+ * @param isAllowed - Decides whether a resource template is exposed, given its name.
+ */
+export function createResourceRegistrar(
+  server: McpServer,
+  isAllowed: (name: string) => boolean
+): ResourceRegistrar {
+  const registerResource = (
+    name: string,
+    uriOrTemplate: string | ResourceTemplate,
+    config: ResourceMetadata,
+    readCallback: (
+      uri: URL,
+      ...args: never[]
+    ) => ReturnType<ReadResourceCallback>
+  ) => {
+    const registered = (
+      server.registerResource as (
+        name: string,
+        uriOrTemplate: string | ResourceTemplate,
+        config: ResourceMetadata,
+        readCallback: (uri: URL, ...args: never[]) => unknown
+      ) => RegisteredResource | RegisteredResourceTemplate
+    ).call(server, name, uriOrTemplate, config, async (uri, ...args) => {
+      try {
+        return await readCallback(uri, ...args);
+      } catch (error) {
+        console.error(`Error reading ${uri.href}:`, error);
+        throw resourceError(name, uri, error);
+      }
+    });
+    if (!isAllowed(name)) registered.remove();
+    return registered;
+  };
+  return {
+    registerResource: registerResource as ResourceRegistrar["registerResource"],
+  };
+}
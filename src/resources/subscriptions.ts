@@ -0,0 +1,399 @@
+import { drive_v3, google } from "googleapis";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { getErrorStatus } from "../utils/google-errors";
+import { resourceError } from "./registry";
+
+const SUBSCRIPTIONS_STORAGE_KEY = "resourceSubscriptions";
+const GMAIL_PUSH_KEY_PREFIX = "push:gmail:";
+// Gmail watches expire after 7 days; Drive channels are requested for as long
+const WATCH_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+// Watches are renewed daily, well before they expire
+const RENEW_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * URI of the resource listing the newest inbox messages
+ */
+export const GMAIL_INBOX_URI = "gmail://inbox";
+
+/**
+ * Deployment settings for Google push notifications. Without them, no watch
+ * is registered with Google; Gmail subscriptions can then still be tested
+ * with simulated push requests in local development.
+ */
+export interface PushConfig {
+  /**
+   * Pub/Sub topic Gmail publishes mailbox changes to, e.g. "projects/my-project/topics/gmail"
+   */
+  gmailTopic?: string;
+  /**
+   * Accept Gmail subscriptions without a topic, to be notified by simulated
+   * pushes. For development only.
+   */
+  simulateGmailPush?: boolean;
+  /**
+   * Public origin of this worker, which Drive sends change notifications to
+   */
+  webhookBaseUrl?: string;
+}
+
+interface StoredSubscriptions {
+  uris: string[];
+  gmail?: { historyId: string };
+  drive?: { channelId: string; resourceId?: string; pageToken: string };
+}
+
+/**
+ * Returns the KV key prefix under which the sessions watching a mailbox are
+ * registered, for routing Gmail push messages to them.
+ */
+export function gmailPushKeyPrefix(email: string): string {
+  return `${GMAIL_PUSH_KEY_PREFIX}${email.toLowerCase()}:`;
+}
+
+/**
+ * Keeps track of the resources a session subscribed to, and of the Gmail
+ * watch and Drive changes channel that report changes to them. Both are
+ * shared by every subscription of the session and are stopped once the last
+ * subscription using them is gone.
+ *
+ * Gmail push messages only name the mailbox, so the sessions watching one
+ * are registered in KV; Drive notifications carry the session's Durable
+ * Object ID as the channel token.
+ */
+export class ResourceSubscriptions {
+  constructor(
+    private readonly storage: DurableObjectStorage,
+    private readonly kv: KVNamespace,
+    private readonly tokenManager: GoogleTokenManager,
+    private readonly objectId: string,
+    private readonly config: PushConfig
+  ) {}
+
+  private get gmail() {
+    return google.gmail({ version: "v1", auth: this.tokenManager.getClient() });
+  }
+
+  private get drive() {
+    return google.drive({ version: "v3", auth: this.tokenManager.getClient() });
+  }
+
+  private get gmailPushKey() {
+    return `${gmailPushKeyPrefix(this.tokenManager.props.email || "")}${
+      this.objectId
+    }`;
+  }
+
+  private async load(): Promise<StoredSubscriptions> {
+    return (
+      (await this.storage.get<StoredSubscriptions>(
+        SUBSCRIPTIONS_STORAGE_KEY
+      )) ?? { uris: [] }
+    );
+  }
+
+  private async save(state: StoredSubscriptions): Promise<void> {
+    await this.storage.put(SUBSCRIPTIONS_STORAGE_KEY, state);
+    const watching = !!state.gmail || !!state.drive;
+    if (watching && !(await this.storage.getAlarm())) {
+      await this.storage.setAlarm(Date.now() + RENEW_INTERVAL_MS);
+    } else if (!watching) {
+      await this.storage.deleteAlarm();
+    }
+  }
+
+  /**
+   * Subscribes to updates of a Gmail or Drive resource, starting the Gmail
+   * watch or Drive changes channel if this is the first subscription that
+   * needs it.
+   *
+   * @throws McpError with InvalidParams for resources that have no change notifications.
+   */
+  async subscribe(uri: string): Promise<void> {
+    const state = await this.load();
+    const source = sourceOf(uri);
+    if (source === "gmail" && !state.gmail) {
+      state.gmail = await this.startGmailWatch();
+    } else if (source === "drive" && !state.drive) {
+      state.drive = await this.startDriveChannel();
+    }
+    if (!state.uris.includes(uri)) state.uris.push(uri);
+    await this.save(state);
+  }
+
+  /**
+   * Removes a subscription, stopping the Gmail watch or Drive channel when
+   * no remaining subscription needs it.
+   */
+  async unsubscribe(uri: string): Promise<void> {
+    const state = await this.load();
+    state.uris = state.uris.filter((u) => u !== uri);
+    const needs = (source: string) =>
+      state.uris.some((u) => sourceOf(u) === source);
+    if (state.gmail && !needs("gmail")) {
+      await this.stopGmailWatch();
+      delete state.gmail;
+    }
+    if (state.drive && !needs("drive")) {
+      await this.stopDriveChannel(state.drive);
+      delete state.drive;
+    }
+    await this.save(state);
+  }
+
+  /**
+   * Works out which subscribed Gmail resources changed since the last push.
+   *
+   * @returns The URIs to notify, or undefined if this session no longer watches Gmail.
+   */
+  async handleGmailPush(): Promise<string[] | undefined> {
+    const state = await this.load();
+    if (!state.gmail) return undefined;
+    const subscribed = state.uris.filter((uri) => sourceOf(uri) === "gmail");
+
+    const messageIds = new Set<string>();
+    const threadIds = new Set<string>();
+    let historyId = state.gmail.historyId;
+    try {
+      let pageToken: string | undefined;
+      do {
+        const response = await this.gmail.users.history.list({
+          userId: "me",
+          startHistoryId: state.gmail.historyId,
+          pageToken,
+        });
+        for (const record of response.data.history || []) {
+          for (const change of [
+            ...(record.messagesAdded || []),
+            ...(record.messagesDeleted || []),
+            ...(record.labelsAdded || []),
+            ...(record.labelsRemoved || []),
+          ]) {
+            if (change.message?.id) messageIds.add(change.message.id);
+            if (change.message?.threadId) {
+              threadIds.add(change.message.threadId);
+            }
+          }
+        }
+        historyId = response.data.historyId || historyId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      // Gmail only keeps about a week of history; start over and treat
+      // every subscribed resource as changed
+      if (getErrorStatus(error) !== 404) throw error;
+      state.gmail = await this.startGmailWatch();
+      await this.save(state);
+      return subscribed;
+    }
+
+    state.gmail = { historyId };
+    await this.save(state);
+    if (messageIds.size === 0) return [];
+    return subscribed.filter((uri) => {
+      const [kind, id] = gmailResourceId(uri);
+      if (kind === "inbox") return true;
+      return kind === "messages" ? messageIds.has(id) : threadIds.has(id);
+    });
+  }
+
+  /**
+   * Works out which subscribed Drive files changed since the last
+   * notification on a changes channel.
+   *
+   * @param channelId - The X-Goog-Channel-ID of the notification.
+   * @returns The URIs to notify, or undefined if the channel is not this session's current one.
+   */
+  async handleDriveChange(channelId: string): Promise<string[] | undefined> {
+    const state = await this.load();
+    if (state.drive?.channelId !== channelId) return undefined;
+
+    const fileIds = new Set<string>();
+    let pageToken: string | undefined = state.drive.pageToken;
+    let newStartPageToken = pageToken;
+    while (pageToken) {
+      const response: { data: drive_v3.Schema$ChangeList } =
+        await this.drive.changes.list({
+          pageToken,
+          fields: "nextPageToken, newStartPageToken, changes(fileId)",
+        });
+      for (const change of response.data.changes || []) {
+        if (change.fileId) fileIds.add(change.fileId);
+      }
+      newStartPageToken = response.data.newStartPageToken || newStartPageToken;
+      pageToken = response.data.nextPageToken || undefined;
+    }
+
+    state.drive = { ...state.drive, pageToken: newStartPageToken };
+    await this.save(state);
+    return state.uris.filter(
+      (uri) =>
+        sourceOf(uri) === "drive" &&
+        fileIds.has(decodeURIComponent(uri.slice("drive://files/".length)))
+    );
+  }
+
+  /**
+   * Renews the Gmail watch and replaces the Drive channel before they
+   * expire. Called from the Durable Object alarm set by save().
+   */
+  async renew(): Promise<void> {
+    const state = await this.load();
+    if (state.gmail) {
+      // Keep the stored history ID so no change is missed in between
+      await this.startGmailWatch();
+    }
+    if (state.drive) {
+      const previous = state.drive;
+      state.drive = {
+        ...(await this.startDriveChannel()),
+        pageToken: previous.pageToken,
+      };
+      await this.stopDriveChannel(previous);
+    }
+    await this.storage.deleteAlarm();
+    await this.save(state);
+  }
+
+  private async startGmailWatch(): Promise<{ historyId: string }> {
+    let historyId: string | null | undefined;
+    if (this.config.gmailTopic) {
+      const response = await this.gmail.users.watch({
+        userId: "me",
+        requestBody: { topicName: this.config.gmailTopic },
+      });
+      historyId = response.data.historyId;
+    } else {
+      if (!this.config.simulateGmailPush) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Gmail updates are not enabled on this server: GMAIL_PUBSUB_TOPIC is not set."
+        );
+      }
+      const profile = await this.gmail.users.getProfile({ userId: "me" });
+      historyId = profile.data.historyId;
+    }
+    await this.kv.put(this.gmailPushKey, "", {
+      expirationTtl: WATCH_LIFETIME_MS / 1000,
+    });
+    return { historyId: historyId || "" };
+  }
+
+  private async stopGmailWatch(): Promise<void> {
+    await this.kv.delete(this.gmailPushKey);
+    // The watch belongs to the mailbox, so only stop it if no other session uses it
+    const others = await this.kv.list({
+      prefix: gmailPushKeyPrefix(this.tokenManager.props.email || ""),
+    });
+    if (this.config.gmailTopic && others.keys.length === 0) {
+      await this.gmail.users.stop({ userId: "me" });
+    }
+  }
+
+  private async startDriveChannel(): Promise<
+    NonNullable<StoredSubscriptions["drive"]>
+  > {
+    if (!this.config.webhookBaseUrl) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Drive updates are not enabled on this server: WEBHOOK_BASE_URL is not set."
+      );
+    }
+    const start = await this.drive.changes.getStartPageToken({});
+    const pageToken = start.data.startPageToken || "";
+    const channelId = crypto.randomUUID();
+    const response = await this.drive.changes.watch({
+      pageToken,
+      requestBody: {
+        id: channelId,
+        type: "web_hook",
+        address: new URL(
+          "/webhooks/drive",
+          this.config.webhookBaseUrl
+        ).toString(),
+        token: this.objectId,
+        expiration: String(Date.now() + WATCH_LIFETIME_MS),
+      },
+    });
+    return {
+      channelId,
+      resourceId: response.data.resourceId || undefined,
+      pageToken,
+    };
+  }
+
+  private async stopDriveChannel(
+    channel: NonNullable<StoredSubscriptions["drive"]>
+  ): Promise<void> {
+    if (!channel.resourceId) return;
+    try {
+      await this.drive.channels.stop({
+        requestBody: { id: channel.channelId, resourceId: channel.resourceId },
+      });
+    } catch (error) {
+      // An expired channel is already gone
+      if (getErrorStatus(error) !== 404) throw error;
+    }
+  }
+}
+
+/**
+ * Tells which push source reports changes to a resource.
+ *
+ * @throws McpError with InvalidParams for resources that have no change notifications.
+ */
+function sourceOf(uri: string): "gmail" | "drive" {
+  if (
+    uri === GMAIL_INBOX_URI ||
+    /^gmail:\/\/(messages|threads)\/[^/]+$/.test(uri)
+  ) {
+    return "gmail";
+  }
+  if (/^drive:\/\/files\/[^/]+$/.test(uri)) return "drive";
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Updates are not available for ${uri}. Only the Gmail inbox, messages and threads and Drive files can be subscribed to.`
+  );
+}
+
+/**
+ * Splits a Gmail resource URI into its kind and decoded ID.
+ */
+function gmailResourceId(uri: string): [string, string] {
+  if (uri === GMAIL_INBOX_URI) return ["inbox", ""];
+  const [kind, id] = uri.slice("gmail://".length).split("/");
+  return [kind, decodeURIComponent(id)];
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe requests and
+ * advertises subscription support. Must be called before the server is
+ * connected to a transport.
+ */
+export function registerResourceSubscriptions(
+  server: McpServer,
+  subscriptions: ResourceSubscriptions
+) {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      await subscriptions.subscribe(uri);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      console.error(`Error subscribing to ${uri}:`, error);
+      throw resourceError(uri.split(":")[0], new URL(uri), error);
+    }
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    await subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+}
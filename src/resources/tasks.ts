@@ -0,0 +1,82 @@
+import { google } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  listableTemplate,
+  RECENT_RESOURCE_LIMIT,
+  ResourceRegistrar,
+  ResourceScopes,
+  uriVariable,
+} from "./registry";
+
+const TASKS_READ_SCOPES = [SCOPES.TASKS_READONLY, SCOPES.TASKS];
+
+/**
+ * Scopes that unlock each Tasks resource template
+ */
+export const tasksResourceScopes: ResourceScopes = {
+  tasks_task: TASKS_READ_SCOPES,
+};
+
+/**
+ * Registers Google Tasks as MCP resources
+ */
+export function registerTasksResources(
+  server: ResourceRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getTasksClient = () => {
+    return google.tasks({
+      version: "v1",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  // Resource for a single task, listing the open tasks of the default list
+  server.registerResource(
+    "tasks_task",
+    listableTemplate("tasks://{listId}/{taskId}", async () => {
+      const tasks = getTasksClient();
+      // URIs need the real list ID rather than the "@default" alias
+      const taskList = await tasks.tasklists.get({ tasklist: "@default" });
+      const taskListId = taskList.data.id || "";
+      const response = await tasks.tasks.list({
+        tasklist: taskListId,
+        showCompleted: false,
+        maxResults: RECENT_RESOURCE_LIMIT,
+      });
+      return {
+        resources: (response.data.items || []).map((task) => ({
+          uri: `tasks://${encodeURIComponent(taskListId)}/${encodeURIComponent(
+            task.id || ""
+          )}`,
+          name: task.title || "(No title)",
+          description: task.due
+            ? `In ${taskList.data.title}, due ${task.due}`
+            : `In ${taskList.data.title}`,
+          mimeType: "application/json",
+        })),
+      };
+    }),
+    {
+      description: "A task as returned by the Google Tasks API, in JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const tasks = getTasksClient();
+      const response = await tasks.tasks.get({
+        tasklist: uriVariable(variables, "listId"),
+        task: uriVariable(variables, "taskId"),
+      });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,608 @@
+import { z } from "zod";
+import { google, calendar_v3 } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  DESTRUCTIVE_TOOL,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
+import {
+  eventSchema,
+  eventTimeParam,
+  timeZoneParam,
+  toEventOutput,
+} from "./calendar";
+import { ToolError } from "../utils/google-errors";
+import {
+  formatInTimeZone,
+  getCalendarTimeZone,
+  isDateOnly,
+  toZonedIsoString,
+  zonedInstant,
+} from "../utils/time-zones";
+
+const CALENDAR_READ_SCOPES = [SCOPES.CALENDAR_READONLY, SCOPES.CALENDAR];
+const CALENDAR_WRITE_SCOPES = [SCOPES.CALENDAR];
+// How far ahead pending invitations are listed when no end of the range is given
+const DEFAULT_INVITATION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Events fetched per request when looking for pending invitations
+const INVITATION_PAGE_SIZE = 250;
+
+/**
+ * Scopes that unlock each invitation and attendee tool
+ */
+export const calendarInvitationToolScopes: ToolScopes = {
+  calendar_respondToInvitation: CALENDAR_WRITE_SCOPES,
+  calendar_listInvitations: CALENDAR_READ_SCOPES,
+  calendar_addAttendees: CALENDAR_WRITE_SCOPES,
+  calendar_removeAttendees: CALENDAR_WRITE_SCOPES,
+  calendar_setAttendeesOptional: CALENDAR_WRITE_SCOPES,
+  calendar_proposeNewTime: CALENDAR_WRITE_SCOPES,
+};
+
+const sendUpdatesParam = z
+  .enum(["all", "externalOnly", "none"])
+  .default("all")
+  .describe("Who is notified of the change");
+
+const eventIdParam = z
+  .string()
+  .describe(
+    "ID of the event; pass the ID of a single occurrence to change only that occurrence of a recurring event"
+  );
+
+const calendarIdParam = z
+  .string()
+  .default("primary")
+  .describe("Calendar ID (default: primary)");
+
+type Attendee = calendar_v3.Schema$EventAttendee;
+
+/**
+ * Compares email addresses the way Google does, ignoring case.
+ */
+function sameEmail(a: string | null | undefined, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Registers the tools that answer invitations and manage who is invited to
+ * an existing event.
+ */
+export function registerCalendarInvitationTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getCalendarClient = () => {
+    return google.calendar({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  const getEvent = async (calendarId: string, eventId: string) => {
+    const response = await getCalendarClient().events.get({
+      calendarId,
+      eventId,
+    });
+    return response.data;
+  };
+
+  /**
+   * Finds the calendar owner among the attendees of an event.
+   *
+   * @throws ToolError with INVALID_ARGUMENT if the owner is not invited.
+   */
+  const findSelf = (event: calendar_v3.Schema$Event): Attendee => {
+    const self = (event.attendees || []).find(
+      (a) => a.self || sameEmail(a.email, tokenManager.props.email)
+    );
+    if (!self) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `You are not invited to event ${event.id}, so there is nothing to respond to.`,
+        "Pass the calendarId of the calendar the invitation was sent to."
+      );
+    }
+    return self;
+  };
+
+  /**
+   * Checks that the attendee list of an event can be edited from here.
+   *
+   * @throws ToolError with PERMISSION_DENIED unless the calendar owner
+   * organizes the event, or guests may invite others and `addingOnly` is set.
+   */
+  const assertCanEditAttendees = (
+    event: calendar_v3.Schema$Event,
+    addingOnly = false
+  ) => {
+    if (event.organizer?.self) return;
+    if (addingOnly && event.guestsCanInviteOthers !== false) return;
+    throw new ToolError(
+      "PERMISSION_DENIED",
+      `Only the organizer${
+        event.organizer?.email ? ` (${event.organizer.email})` : ""
+      } can change the attendees of event ${event.id}.`,
+      "Ask the organizer to make the change, or propose a new time with calendar_proposeNewTime."
+    );
+  };
+
+  /**
+   * Replaces the attendee list of an event, so the list must hold everyone
+   * who stays invited.
+   */
+  const patchAttendees = async (
+    calendarId: string,
+    eventId: string,
+    attendees: Attendee[],
+    sendUpdates: string
+  ) => {
+    const response = await getCalendarClient().events.patch({
+      calendarId,
+      eventId,
+      requestBody: { attendees },
+      sendUpdates,
+    });
+    return response.data;
+  };
+
+  /**
+   * Updates the calendar owner's own response to an event. A guest sends
+   * only their own entry, which Google merges into the attendee list, so
+   * changes the organizer made since the event was read are kept. The
+   * organizer has no such shortcut and sends the whole list back.
+   */
+  const patchOwnResponse = (
+    calendarId: string,
+    event: calendar_v3.Schema$Event,
+    self: Attendee,
+    changes: Pick<Attendee, "responseStatus" | "comment">,
+    sendUpdates: string
+  ) => {
+    const own = { ...self, ...changes };
+    const attendees = event.organizer?.self
+      ? (event.attendees || []).map((a) => (a === self ? own : a))
+      : [own];
+    return patchAttendees(calendarId, event.id!, attendees, sendUpdates);
+  };
+
+  server.registerTool(
+    "calendar_respondToInvitation",
+    {
+      description:
+        "Accept, decline or tentatively accept an event you were invited to, optionally with a note to the organizer",
+      inputSchema: {
+        eventId: eventIdParam,
+        calendarId: calendarIdParam,
+        response: z
+          .enum(["accepted", "declined", "tentative"])
+          .describe("Your answer"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Note shown to the organizer with your answer"),
+        sendUpdates: sendUpdatesParam,
+      },
+      outputSchema: { event: eventSchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ eventId, calendarId, response, comment, sendUpdates }) => {
+      const event = await getEvent(calendarId, eventId);
+      const self = findSelf(event);
+      const updated = await patchOwnResponse(
+        calendarId,
+        event,
+        self,
+        { responseStatus: response, comment: comment ?? self.comment },
+        sendUpdates
+      );
+      return structuredResult(
+        `Responded "${response}" to "${
+          updated.summary || "(No Title)"
+        }" (event ID: ${updated.id}).`,
+        { event: toEventOutput(updated) }
+      );
+    }
+  );
+
+  server.registerTool(
+    "calendar_listInvitations",
+    {
+      description:
+        "List upcoming events you were invited to and have not answered yet, across your calendars",
+      inputSchema: {
+        timeMin: eventTimeParam
+          .optional()
+          .describe(
+            "Start of the range (ISO string, local date-times are read in timeZone; default: now)"
+          ),
+        timeMax: eventTimeParam
+          .optional()
+          .describe(
+            `End of the range, in the same formats (default: ${DEFAULT_INVITATION_DAYS} days after timeMin)`
+          ),
+        calendarIds: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe("Calendars to check (default: every calendar you own)"),
+        timeZone: timeZoneParam,
+      },
+      outputSchema: {
+        timeZone: z.string().describe("Time zone of the listed times"),
+        invitations: z.array(eventSchema.extend({ calendarId: z.string() })),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ timeMin, timeMax, calendarIds, timeZone }) => {
+      const calendar = getCalendarClient();
+      const zone =
+        timeZone ?? (await getCalendarTimeZone(tokenManager.getClient()));
+      const rangeStart = timeMin
+        ? zonedInstant(timeMin, zone).getTime()
+        : Date.now();
+      const rangeEnd = timeMax
+        ? zonedInstant(timeMax, zone).getTime()
+        : rangeStart + DEFAULT_INVITATION_DAYS * DAY_MS;
+
+      let ids = calendarIds;
+      if (!ids) {
+        const list = await calendar.calendarList.list({
+          minAccessRole: "owner",
+        });
+        ids = (list.data.items || []).map((c) => c.id!).filter(Boolean);
+      }
+
+      const perCalendar = await Promise.all(
+        ids.map(async (calendarId) => {
+          // Page through the whole range; invitations can be on any page
+          const events: calendar_v3.Schema$Event[] = [];
+          let pageToken: string | undefined;
+          do {
+            const response = await calendar.events.list({
+              calendarId,
+              timeMin: new Date(rangeStart).toISOString(),
+              timeMax: new Date(rangeEnd).toISOString(),
+              timeZone: zone,
+              singleEvents: true,
+              orderBy: "startTime",
+              maxResults: INVITATION_PAGE_SIZE,
+              pageToken,
+            });
+            events.push(...(response.data.items || []));
+            pageToken = response.data.nextPageToken || undefined;
+          } while (pageToken);
+          return events
+            .filter(
+              (event) =>
+                !event.organizer?.self &&
+                (event.attendees || []).some(
+                  (a) => a.self && a.responseStatus === "needsAction"
+                )
+            )
+            .map((event) => ({ ...toEventOutput(event), calendarId }));
+        })
+      );
+      const startOf = (start?: string) =>
+        start ? zonedInstant(start, zone).getTime() : 0;
+      const invitations = perCalendar
+        .flat()
+        .sort((a, b) => startOf(a.start) - startOf(b.start));
+
+      return structuredResult(
+        invitations.length > 0
+          ? `Pending invitations (times in ${zone}):\n${invitations
+              .map(
+                (i) =>
+                  `- ${i.summary} (event ID: ${i.id}, calendar: ${
+                    i.calendarId
+                  })\n  ${
+                    i.allDay || !i.start
+                      ? i.start
+                      : formatInTimeZone(new Date(i.start), zone)
+                  }${i.organizer ? `, from ${i.organizer}` : ""}`
+              )
+              .join("\n")}`
+          : "No pending invitations.",
+        { timeZone: zone, invitations }
+      );
+    }
+  );
+
+  server.registerTool(
+    "calendar_addAttendees",
+    {
+      description:
+        "Invite people to an existing event. People already invited are left as they are.",
+      inputSchema: {
+        eventId: eventIdParam,
+        calendarId: calendarIdParam,
+        attendees: z
+          .array(
+            z.object({
+              email: z.string().email().describe("Email address to invite"),
+              optional: z
+                .boolean()
+                .default(false)
+                .describe("Whether attending is optional"),
+              displayName: z.string().optional().describe("Name to show"),
+            })
+          )
+          .min(1)
+          .describe("People to invite"),
+        sendUpdates: sendUpdatesParam,
+      },
+      outputSchema: {
+        event: eventSchema,
+        added: z.array(z.string()),
+        alreadyInvited: z.array(z.string()),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ eventId, calendarId, attendees, sendUpdates }) => {
+      const event = await getEvent(calendarId, eventId);
+      assertCanEditAttendees(event, true);
+      const current = event.attendees || [];
+      const added: string[] = [];
+      const alreadyInvited: string[] = [];
+      const additions: Attendee[] = [];
+      for (const attendee of attendees) {
+        const invited =
+          current.some((a) => sameEmail(a.email, attendee.email)) ||
+          additions.some((a) => sameEmail(a.email, attendee.email));
+        if (invited) {
+          alreadyInvited.push(attendee.email);
+          continue;
+        }
+        added.push(attendee.email);
+        additions.push({
+          email: attendee.email,
+          optional: attendee.optional,
+          displayName: attendee.displayName,
+        });
+      }
+      if (additions.length === 0) {
+        return structuredResult(
+          `Everyone is already invited to event ${eventId}.`,
+          { event: toEventOutput(event), added, alreadyInvited }
+        );
+      }
+      const updated = await patchAttendees(
+        calendarId,
+        eventId,
+        [...current, ...additions],
+        sendUpdates
+      );
+      let text = `Invited ${added.join(", ")} to "${
+        updated.summary || "(No Title)"
+      }".`;
+      if (alreadyInvited.length > 0) {
+        text += ` Already invited: ${alreadyInvited.join(", ")}.`;
+      }
+      return structuredResult(text, {
+        event: toEventOutput(updated),
+        added,
+        alreadyInvited,
+      });
+    }
+  );
+
+  server.registerTool(
+    "calendar_removeAttendees",
+    {
+      description: "Uninvite people from an event you organize",
+      inputSchema: {
+        eventId: eventIdParam,
+        calendarId: calendarIdParam,
+        emails: z
+          .array(z.string().email())
+          .min(1)
+          .describe("Email addresses to uninvite"),
+        sendUpdates: sendUpdatesParam,
+      },
+      outputSchema: {
+        event: eventSchema,
+        removed: z.array(z.string()),
+        notInvited: z.array(z.string()),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ eventId, calendarId, emails, sendUpdates }) => {
+      const event = await getEvent(calendarId, eventId);
+      assertCanEditAttendees(event);
+      const current = event.attendees || [];
+      const removed = emails.filter((email) =>
+        current.some((a) => sameEmail(a.email, email))
+      );
+      const notInvited = emails.filter((email) => !removed.includes(email));
+      if (removed.length === 0) {
+        return structuredResult(
+          `None of these people are invited to event ${eventId}.`,
+          { event: toEventOutput(event), removed, notInvited }
+        );
+      }
+      const updated = await patchAttendees(
+        calendarId,
+        eventId,
+        current.filter(
+          (a) => !removed.some((email) => sameEmail(a.email, email))
+        ),
+        sendUpdates
+      );
+      let text = `Removed ${removed.join(", ")} from "${
+        updated.summary || "(No Title)"
+      }".`;
+      if (notInvited.length > 0) {
+        text += ` Not invited: ${notInvited.join(", ")}.`;
+      }
+      return structuredResult(text, {
+        event: toEventOutput(updated),
+        removed,
+        notInvited,
+      });
+    }
+  );
+
+  server.registerTool(
+    "calendar_setAttendeesOptional",
+    {
+      description:
+        "Mark attendees of an event you organize as optional or required",
+      inputSchema: {
+        eventId: eventIdParam,
+        calendarId: calendarIdParam,
+        emails: z
+          .array(z.string().email())
+          .min(1)
+          .describe("Email addresses of the attendees to change"),
+        optional: z
+          .boolean()
+          .default(true)
+          .describe("True to make attending optional, false to require it"),
+        sendUpdates: sendUpdatesParam,
+      },
+      outputSchema: {
+        event: eventSchema,
+        notInvited: z.array(z.string()),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ eventId, calendarId, emails, optional, sendUpdates }) => {
+      const event = await getEvent(calendarId, eventId);
+      assertCanEditAttendees(event);
+      const current = event.attendees || [];
+      const notInvited = emails.filter(
+        (email) => !current.some((a) => sameEmail(a.email, email))
+      );
+      if (notInvited.length === emails.length) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `None of these people are invited to event ${eventId}.`,
+          "Invite them first with calendar_addAttendees."
+        );
+      }
+      const updated = await patchAttendees(
+        calendarId,
+        eventId,
+        current.map((a) =>
+          emails.some((email) => sameEmail(a.email, email))
+            ? { ...a, optional }
+            : a
+        ),
+        sendUpdates
+      );
+      let text = `Marked ${emails
+        .filter((email) => !notInvited.includes(email))
+        .join(", ")} as ${optional ? "optional" : "required"} for "${
+        updated.summary || "(No Title)"
+      }".`;
+      if (notInvited.length > 0) {
+        text += ` Not invited: ${notInvited.join(", ")}.`;
+      }
+      return structuredResult(text, {
+        event: toEventOutput(updated),
+        notInvited,
+      });
+    }
+  );
+
+  server.registerTool(
+    "calendar_proposeNewTime",
+    {
+      description:
+        "Suggest another time for an event you were invited to. Google Calendar has no API for time proposals, so the time is sent to the organizer as the note of your response.",
+      inputSchema: {
+        eventId: eventIdParam,
+        calendarId: calendarIdParam,
+        start: eventTimeParam.describe(
+          "Proposed start (ISO string, local date-times are read in timeZone, a date for all-day events)"
+        ),
+        end: eventTimeParam.describe("Proposed end, in the same format"),
+        response: z
+          .enum(["tentative", "declined"])
+          .default("tentative")
+          .describe("Your answer to the current time"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Note to add after the proposed time"),
+        sendUpdates: sendUpdatesParam,
+        timeZone: timeZoneParam,
+      },
+      outputSchema: {
+        event: eventSchema,
+        proposedStart: z.string(),
+        proposedEnd: z.string(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      eventId,
+      calendarId,
+      start,
+      end,
+      response,
+      comment,
+      sendUpdates,
+      timeZone,
+    }) => {
+      if (isDateOnly(start) !== isDateOnly(end)) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "start and end must both be dates or both be date-times."
+        );
+      }
+      const event = await getEvent(calendarId, eventId);
+      if (event.organizer?.self) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `You organize event ${eventId}, so there is nobody to propose a time to.`,
+          "Move the event with calendar_updateEvent instead."
+        );
+      }
+      const self = findSelf(event);
+      const zone =
+        timeZone ?? (await getCalendarTimeZone(tokenManager.getClient()));
+      const startAt = zonedInstant(start, zone);
+      const endAt = zonedInstant(end, zone);
+      if (endAt <= startAt) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "The proposed end must be after its start."
+        );
+      }
+
+      const proposedStart = isDateOnly(start)
+        ? start
+        : toZonedIsoString(startAt, zone);
+      const proposedEnd = isDateOnly(end) ? end : toZonedIsoString(endAt, zone);
+      const proposal = isDateOnly(start)
+        ? `Proposed new time: ${start} to ${end}.`
+        : `Proposed new time: ${formatInTimeZone(
+            startAt,
+            zone
+          )} - ${formatInTimeZone(endAt, zone)} (${zone}).`;
+      const updated = await patchOwnResponse(
+        calendarId,
+        event,
+        self,
+        {
+          responseStatus: response,
+          comment: comment ? `${proposal} ${comment}` : proposal,
+        },
+        sendUpdates
+      );
+      return structuredResult(
+        `Responded "${response}" to "${
+          updated.summary || "(No Title)"
+        }" with the note: ${proposal}`,
+        { event: toEventOutput(updated), proposedStart, proposedEnd }
+      );
+    }
+  );
+}
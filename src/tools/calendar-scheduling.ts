@@ -0,0 +1,650 @@
+import { z } from "zod";
+import { google, calendar_v3 } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope, SCOPES } from "../utils/scopes";
+import {
+  DESTRUCTIVE_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
+import {
+  assertCanAttachDriveFiles,
+  attachDriveFilesParam,
+  describeEventExtras,
+  eventSchema,
+  eventTimeParam,
+  MAX_FREE_TIME_ATTENDEES,
+  meetConferenceRequest,
+  meetingAttendeeParam,
+  prepareEventAttachments,
+  shareAttachmentsParam,
+  sharingFailureSchema,
+  timeZoneParam,
+  toEventOutput,
+  workingHoursParam,
+} from "./calendar";
+import { getErrorStatus, ToolError } from "../utils/google-errors";
+import {
+  findMeetingSlots,
+  queryBusyTimes,
+  RankedSlot,
+} from "../utils/free-time";
+import {
+  MeetingProposal,
+  MeetingProposalStore,
+  ProposalOption,
+} from "../utils/meeting-proposals";
+import { buildMimeMessage } from "../utils/mime";
+import { encodeBase64Url } from "../utils/gmail-message";
+import {
+  formatInTimeZone,
+  getCalendarTimeZone,
+  toZonedIsoString,
+  zonedInstant,
+} from "../utils/time-zones";
+
+const CALENDAR_WRITE_SCOPES = [SCOPES.CALENDAR];
+const GMAIL_SEND_SCOPES = [SCOPES.GMAIL_MODIFY];
+// How far ahead a meeting is scheduled when no end of the range is given
+const DEFAULT_SEARCH_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Marks hold events so they can be told apart from real meetings
+const HOLD_PROPERTY = "meetingHold";
+
+/**
+ * Scopes that unlock each meeting scheduling tool
+ */
+export const calendarSchedulingToolScopes: ToolScopes = {
+  calendar_scheduleMeeting: CALENDAR_WRITE_SCOPES,
+  calendar_confirmMeeting: CALENDAR_WRITE_SCOPES,
+  calendar_discardMeetingProposal: CALENDAR_WRITE_SCOPES,
+};
+
+const proposalOptionSchema = z.object({
+  option: z
+    .number()
+    .int()
+    .describe("Number to pass to calendar_confirmMeeting"),
+  start: z.string(),
+  end: z.string(),
+  holdEventId: z.string().optional(),
+  availableAttendees: z.array(z.string()),
+  unavailableAttendees: z.array(z.string()),
+  unknownAttendees: z.array(z.string()),
+});
+
+/**
+ * Formats a proposal option in the organizer's time zone.
+ */
+function formatOption(option: ProposalOption, timeZone: string): string {
+  return `${formatInTimeZone(
+    new Date(option.start),
+    timeZone
+  )} - ${formatInTimeZone(new Date(option.end), timeZone)} (${timeZone})`;
+}
+
+/**
+ * Writes the email offering the proposed times, with each time also shown
+ * in the attendees' own time zones.
+ */
+function composeOptionsEmail(
+  proposal: Omit<MeetingProposal, "id" | "createdAt">,
+  attendeeZones: string[],
+  message?: string
+): string {
+  const zones = [...new Set(attendeeZones)].filter(
+    (zone) => zone !== proposal.timeZone
+  );
+  const options = proposal.options.map((option, index) => {
+    let line = `${index + 1}. ${formatOption(option, proposal.timeZone)}`;
+    for (const zone of zones) {
+      line += `\n   ${formatOption(option, zone)}`;
+    }
+    return line;
+  });
+  return [
+    message,
+    `I'd like to schedule "${proposal.summary}". Which of these times work for you?`,
+    options.join("\n"),
+    "Reply with the numbers of the options that suit you.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Registers the tools that schedule a meeting in steps: proposing times
+ * (optionally holding them and emailing them to the attendees), then booking
+ * the chosen one.
+ */
+export function registerCalendarSchedulingTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  proposals: MeetingProposalStore
+) {
+  const getCalendarClient = () => {
+    return google.calendar({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  /**
+   * Deletes hold events, skipping those already gone.
+   *
+   * @returns How many holds were deleted.
+   */
+  const deleteHolds = async (
+    calendarId: string,
+    eventIds: string[]
+  ): Promise<number> => {
+    const calendar = getCalendarClient();
+    const results = await Promise.all(
+      eventIds.map(async (eventId) => {
+        try {
+          await calendar.events.delete({ calendarId, eventId });
+          return true;
+        } catch (error) {
+          const status = getErrorStatus(error);
+          if (status === 404 || status === 410) return false;
+          throw error;
+        }
+      })
+    );
+    return results.filter(Boolean).length;
+  };
+
+  /**
+   * Checks who has become busy at a proposed time since it was proposed.
+   * Events of the organizer that do not block time (free, cancelled,
+   * declined, or the proposal's own holds) are skipped; attendees whose
+   * free/busy cannot be read count as free.
+   *
+   * @returns The organizer ("you") and required attendees who are busy, and
+   *   the optional attendees who are.
+   */
+  const findConflicts = async (
+    proposal: MeetingProposal,
+    option: ProposalOption
+  ): Promise<{ required: string[]; optional: string[] }> => {
+    const range = {
+      start: new Date(option.start).getTime(),
+      end: new Date(option.end).getTime(),
+    };
+    const holdIds = new Set(proposal.options.map((o) => o.holdEventId));
+    const [events, busyTimes] = await Promise.all([
+      getCalendarClient().events.list({
+        calendarId: proposal.calendarId,
+        timeMin: new Date(range.start).toISOString(),
+        timeMax: new Date(range.end).toISOString(),
+        singleEvents: true,
+      }),
+      queryBusyTimes(
+        tokenManager.getClient(),
+        range,
+        proposal.attendees.map((a) => a.email)
+      ),
+    ]);
+    const organizerBusy = (events.data.items || []).some(
+      (event) =>
+        !holdIds.has(event.id ?? undefined) &&
+        event.status !== "cancelled" &&
+        event.transparency !== "transparent" &&
+        !event.attendees?.some((a) => a.self && a.responseStatus === "declined")
+    );
+    const busy = proposal.attendees.filter((a) =>
+      busyTimes
+        .get(a.email)
+        ?.some((block) => block.start < range.end && block.end > range.start)
+    );
+    return {
+      required: [
+        ...(organizerBusy ? ["you"] : []),
+        ...busy.filter((a) => !a.optional).map((a) => a.email),
+      ],
+      optional: busy.filter((a) => a.optional).map((a) => a.email),
+    };
+  };
+
+  server.registerTool(
+    "calendar_scheduleMeeting",
+    {
+      description:
+        "Start scheduling a meeting: find the best times for you and the attendees, optionally hold them on your calendar as tentative events and email them to the attendees. Returns a proposal ID; once a time is chosen, book it with calendar_confirmMeeting.",
+      inputSchema: {
+        summary: z.string().min(1).describe("Title of the meeting"),
+        attendees: z
+          .array(meetingAttendeeParam)
+          .min(1)
+          .max(MAX_FREE_TIME_ATTENDEES)
+          .describe("People to invite"),
+        durationMinutes: z
+          .number()
+          .int()
+          .positive()
+          .describe("Length of the meeting in minutes"),
+        description: z.string().optional().describe("Agenda of the meeting"),
+        location: z.string().optional().describe("Location of the meeting"),
+        addMeetLink: z
+          .boolean()
+          .default(true)
+          .describe("Add a Google Meet video conference when booking"),
+        attachDriveFileIds: attachDriveFilesParam,
+        shareAttachments: shareAttachmentsParam,
+        startTime: eventTimeParam
+          .optional()
+          .describe(
+            "Earliest time to meet (ISO string, local date-times are read in timeZone; default: now)"
+          ),
+        endTime: eventTimeParam
+          .optional()
+          .describe(
+            `Latest time the meeting may end, in the same formats (default: ${DEFAULT_SEARCH_DAYS} days after startTime)`
+          ),
+        optionCount: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(3)
+          .describe("How many times to propose"),
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar to check, hold and book on (default: primary)"),
+        workingHours: workingHoursParam
+          .optional()
+          .describe("Your working hours (default: 09:00-17:00 Mon-Fri)"),
+        preferredHours: workingHoursParam
+          .optional()
+          .describe("Hours to propose first, in timeZone"),
+        bufferMinutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(120)
+          .default(0)
+          .describe("Free time to keep before and after existing meetings"),
+        placeHolds: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Block each proposed time on your calendar with a tentative event, visible only to you"
+          ),
+        emailAttendees: z
+          .boolean()
+          .default(false)
+          .describe("Email the proposed times to the attendees"),
+        message: z.string().optional().describe("Note to open the email with"),
+        timeZone: timeZoneParam,
+      },
+      outputSchema: {
+        proposalId: z.string(),
+        timeZone: z.string(),
+        options: z.array(proposalOptionSchema).describe("Best first"),
+        emailMessageId: z.string().optional(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      summary,
+      attendees,
+      durationMinutes,
+      description,
+      location,
+      addMeetLink,
+      attachDriveFileIds = [],
+      shareAttachments,
+      startTime,
+      endTime,
+      optionCount,
+      calendarId,
+      workingHours,
+      preferredHours,
+      bufferMinutes,
+      placeHolds,
+      emailAttendees,
+      message,
+      timeZone,
+    }) => {
+      if (
+        emailAttendees &&
+        !hasAnyScope(tokenManager.props.scopes, GMAIL_SEND_SCOPES)
+      ) {
+        throw new ToolError(
+          "INSUFFICIENT_SCOPE",
+          "Emailing the proposed times requires permission to send Gmail.",
+          "Call again with emailAttendees set to false and share the times yourself, or re-authorize with Gmail send access."
+        );
+      }
+      // Fail now rather than when the meeting is booked
+      if (attachDriveFileIds.length > 0) {
+        assertCanAttachDriveFiles(tokenManager, shareAttachments);
+      }
+      const client = tokenManager.getClient();
+      const zone = timeZone ?? (await getCalendarTimeZone(client));
+      const rangeStart = startTime
+        ? zonedInstant(startTime, zone).getTime()
+        : Date.now();
+      const rangeEnd = endTime
+        ? zonedInstant(endTime, zone).getTime()
+        : rangeStart + DEFAULT_SEARCH_DAYS * DAY_MS;
+
+      const search = await findMeetingSlots(client, {
+        range: { start: rangeStart, end: rangeEnd },
+        durationMinutes,
+        stepMinutes: 30,
+        bufferMinutes,
+        maxSuggestions: optionCount,
+        timeZone: zone,
+        calendarIds: [calendarId],
+        attendees,
+        workingHours,
+        preferredHours,
+      });
+      if (search.suggestions.length === 0) {
+        throw new ToolError(
+          "CONFLICT",
+          "No free time was found for the meeting within working hours in the given range.",
+          "Search a longer range with endTime, shorten the meeting or pass different workingHours."
+        );
+      }
+
+      const calendar = getCalendarClient();
+      const toOption = async (slot: RankedSlot): Promise<ProposalOption> => {
+        const option: ProposalOption = {
+          start: toZonedIsoString(new Date(slot.start), zone),
+          end: toZonedIsoString(new Date(slot.end), zone),
+        };
+        if (!placeHolds) return option;
+        const hold = await calendar.events.insert({
+          calendarId,
+          requestBody: {
+            summary: `Hold: ${summary}`,
+            description: `Proposed time for "${summary}" with ${attendees
+              .map((a) => a.email)
+              .join(", ")}. Booked or removed by calendar_confirmMeeting.`,
+            start: { dateTime: option.start, timeZone: zone },
+            end: { dateTime: option.end, timeZone: zone },
+            status: "tentative",
+            visibility: "private",
+            extendedProperties: { private: { [HOLD_PROPERTY]: "true" } },
+          },
+          sendUpdates: "none",
+        });
+        return { ...option, holdEventId: hold.data.id ?? undefined };
+      };
+      const placed = await Promise.allSettled(search.suggestions.map(toOption));
+      const options = placed
+        .filter(
+          (result): result is PromiseFulfilledResult<ProposalOption> =>
+            result.status === "fulfilled"
+        )
+        .map((result) => result.value);
+
+      // Until the proposal is stored nothing else can remove the holds, so
+      // they are deleted again if placing, emailing or storing fails
+      let proposal: MeetingProposal;
+      try {
+        const failed = placed.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === "rejected"
+        );
+        if (failed) throw failed.reason;
+        const draft: Omit<MeetingProposal, "id" | "createdAt"> = {
+          summary,
+          description,
+          location,
+          calendarId,
+          timeZone: zone,
+          attendees: attendees.map((a) => ({
+            email: a.email,
+            optional: a.optional,
+          })),
+          addMeetLink,
+          attachDriveFileIds,
+          shareAttachments,
+          options,
+        };
+        if (emailAttendees) {
+          const gmail = google.gmail({ version: "v1", auth: client });
+          const sent = await gmail.users.messages.send({
+            userId: "me",
+            requestBody: {
+              raw: encodeBase64Url(
+                buildMimeMessage({
+                  to: attendees.filter((a) => !a.optional).map((a) => a.email),
+                  cc: attendees.filter((a) => a.optional).map((a) => a.email),
+                  subject: `Finding a time: ${summary}`,
+                  text: composeOptionsEmail(
+                    draft,
+                    search.attendees.map((a) => a.timeZone),
+                    message
+                  ),
+                })
+              ),
+            },
+          });
+          draft.emailMessageId = sent.data.id ?? undefined;
+        }
+        proposal = await proposals.create(draft);
+      } catch (error) {
+        await deleteHolds(
+          calendarId,
+          options.filter((o) => o.holdEventId).map((o) => o.holdEventId!)
+        ).catch((cleanupError) =>
+          console.error("Error deleting meeting holds:", cleanupError)
+        );
+        throw error;
+      }
+
+      const outputOptions = proposal.options.map((option, index) => ({
+        option: index + 1,
+        ...option,
+        availableAttendees: search.suggestions[index].available,
+        unavailableAttendees: search.suggestions[index].unavailable,
+        unknownAttendees: search.suggestions[index].unknown,
+      }));
+      let text = `Proposed times for "${summary}" (proposal ID: ${proposal.id}):\n`;
+      text += outputOptions
+        .map((option) => {
+          let line = `${option.option}. ${formatOption(option, zone)}`;
+          if (option.unavailableAttendees.length > 0) {
+            line += `\n   Unavailable: ${option.unavailableAttendees.join(
+              ", "
+            )}`;
+          }
+          if (option.unknownAttendees.length > 0) {
+            line += `\n   Free/busy unknown: ${option.unknownAttendees.join(
+              ", "
+            )}`;
+          }
+          return line;
+        })
+        .join("\n");
+      if (placeHolds) text += "\n\nEach time is held on your calendar.";
+      if (proposal.emailMessageId) {
+        text += `\nThe options were emailed to the attendees (message ID: ${proposal.emailMessageId}).`;
+      }
+      text += `\n\nOnce a time is chosen, call calendar_confirmMeeting with proposalId "${proposal.id}" and the option number.`;
+
+      return structuredResult(text, {
+        proposalId: proposal.id,
+        timeZone: zone,
+        options: outputOptions,
+        emailMessageId: proposal.emailMessageId,
+      });
+    }
+  );
+
+  server.registerTool(
+    "calendar_confirmMeeting",
+    {
+      description:
+        "Book one of the times proposed by calendar_scheduleMeeting: the chosen hold becomes the meeting and the invitations are sent, and the other holds are deleted.",
+      inputSchema: {
+        proposalId: z
+          .string()
+          .describe("Proposal ID returned by calendar_scheduleMeeting"),
+        option: z.number().int().min(1).describe("Number of the chosen option"),
+        sendUpdates: z
+          .enum(["all", "externalOnly", "none"])
+          .default("all")
+          .describe("Who receives the invitation"),
+        ignoreConflicts: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Book even if you or a required attendee has become busy at the chosen time"
+          ),
+      },
+      outputSchema: {
+        event: eventSchema,
+        deletedHolds: z.number().int(),
+        sharingFailures: z.array(sharingFailureSchema),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ proposalId, option, sendUpdates, ignoreConflicts }) => {
+      const proposal = await proposals.get(proposalId);
+      const chosen = proposal.options[option - 1];
+      if (!chosen) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Proposal ${proposalId} has ${proposal.options.length} options, not ${option}.`
+        );
+      }
+      if (new Date(chosen.start).getTime() <= Date.now()) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Option ${option} (${formatOption(
+            chosen,
+            proposal.timeZone
+          )}) has already started.`,
+          "Choose a later option, or call calendar_scheduleMeeting to propose new times."
+        );
+      }
+      const conflicts = await findConflicts(proposal, chosen);
+      if (conflicts.required.length > 0 && !ignoreConflicts) {
+        throw new ToolError(
+          "CONFLICT",
+          `Option ${option} is no longer free for: ${conflicts.required.join(
+            ", "
+          )}. Nothing was booked.`,
+          "Choose another option, call calendar_scheduleMeeting to propose new times, or call again with ignoreConflicts set to true."
+        );
+      }
+
+      const calendar = getCalendarClient();
+      const meeting: calendar_v3.Schema$Event = {
+        summary: proposal.summary,
+        description: proposal.description,
+        location: proposal.location,
+        start: { dateTime: chosen.start, timeZone: proposal.timeZone },
+        end: { dateTime: chosen.end, timeZone: proposal.timeZone },
+        attendees: proposal.attendees.map((a) => ({
+          email: a.email,
+          optional: a.optional,
+        })),
+      };
+      if (proposal.addMeetLink)
+        meeting.conferenceData = meetConferenceRequest();
+      const { attachments, sharingFailures } =
+        proposal.attachDriveFileIds.length > 0
+          ? await prepareEventAttachments(
+              tokenManager,
+              proposal.attachDriveFileIds,
+              proposal.attendees.map((a) => a.email),
+              proposal.shareAttachments
+            )
+          : { attachments: undefined, sharingFailures: [] };
+      meeting.attachments = attachments;
+      let event: calendar_v3.Schema$Event | undefined;
+      if (chosen.holdEventId) {
+        try {
+          const response = await calendar.events.patch({
+            calendarId: proposal.calendarId,
+            eventId: chosen.holdEventId,
+            requestBody: {
+              ...meeting,
+              status: "confirmed",
+              visibility: "default",
+              extendedProperties: { private: { [HOLD_PROPERTY]: "false" } },
+            },
+            sendUpdates,
+            conferenceDataVersion: 1,
+            supportsAttachments: true,
+          });
+          event = response.data;
+        } catch (error) {
+          // The hold was deleted by hand; book the meeting anew
+          const status = getErrorStatus(error);
+          if (status !== 404 && status !== 410) throw error;
+        }
+      }
+      if (!event) {
+        const response = await calendar.events.insert({
+          calendarId: proposal.calendarId,
+          requestBody: meeting,
+          sendUpdates,
+          conferenceDataVersion: 1,
+          supportsAttachments: true,
+        });
+        event = response.data;
+      }
+
+      const deletedHolds = await deleteHolds(
+        proposal.calendarId,
+        proposal.options
+          .filter((o) => o !== chosen && o.holdEventId)
+          .map((o) => o.holdEventId!)
+      );
+      await proposals.delete(proposalId);
+
+      const busy = [
+        ...conflicts.required,
+        ...conflicts.optional.map((email) => `${email} (optional)`),
+      ];
+      return structuredResult(
+        `Booked "${proposal.summary}" for ${formatOption(
+          chosen,
+          proposal.timeZone
+        )} (event ID: ${event.id}). ${deletedHolds} other hold(s) deleted.${
+          busy.length > 0 ? ` Busy at that time: ${busy.join(", ")}.` : ""
+        }${describeEventExtras(event, sharingFailures)}`,
+        { event: toEventOutput(event), deletedHolds, sharingFailures }
+      );
+    }
+  );
+
+  server.registerTool(
+    "calendar_discardMeetingProposal",
+    {
+      description:
+        "Give up on a meeting proposed by calendar_scheduleMeeting and delete its holds from your calendar.",
+      inputSchema: {
+        proposalId: z
+          .string()
+          .describe("Proposal ID returned by calendar_scheduleMeeting"),
+      },
+      outputSchema: {
+        proposalId: z.string(),
+        deletedHolds: z.number().int(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ proposalId }) => {
+      const proposal = await proposals.get(proposalId);
+      const deletedHolds = await deleteHolds(
+        proposal.calendarId,
+        proposal.options.filter((o) => o.holdEventId).map((o) => o.holdEventId!)
+      );
+      await proposals.delete(proposalId);
+      return structuredResult(
+        `Discarded the proposal for "${proposal.summary}" and deleted ${deletedHolds} hold(s).`,
+        { proposalId, deletedHolds }
+      );
+    }
+  );
+}
@@ -1,54 +1,403 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Props } from "../utils/upstream-utils";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope, SCOPES } from "../utils/scopes";
+import {
+  ADDITIVE_TOOL,
+  cursorParam,
+  DESTRUCTIVE_TOOL,
+  nextCursorOutput,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
 import { google } from "googleapis";
 import type { calendar_v3 } from "googleapis";
+import { CursorStore, describeNextPage } from "../utils/cursors";
+import { ToolError } from "../utils/google-errors";
+import { findMeetingSlots } from "../utils/free-time";
+import { attachDriveFiles, SharingFailure } from "../utils/drive-files";
+import {
+  formatInTimeZone,
+  getCalendarTimeZone,
+  isDateOnly,
+  isValidTimeZone,
+  toZonedIsoString,
+  zonedInstant,
+} from "../utils/time-zones";
+
+const CALENDAR_READ_SCOPES = [SCOPES.CALENDAR_READONLY, SCOPES.CALENDAR];
+const CALENDAR_WRITE_SCOPES = [SCOPES.CALENDAR];
+const DRIVE_READ_SCOPES = [
+  SCOPES.DRIVE_READONLY,
+  SCOPES.DRIVE_FILE,
+  SCOPES.DRIVE,
+];
+// Sharing attachments with the attendees changes their permissions
+const DRIVE_SHARE_SCOPES = [SCOPES.DRIVE_FILE, SCOPES.DRIVE];
+// Google Calendar accepts at most 25 attachments per event
+const MAX_EVENT_ATTACHMENTS = 25;
+
+/**
+ * Scopes that unlock each Calendar tool
+ */
+export const calendarToolScopes: ToolScopes = {
+  calendar_listEvents: CALENDAR_READ_SCOPES,
+  calendar_createEvent: CALENDAR_WRITE_SCOPES,
+  calendar_getEvent: CALENDAR_READ_SCOPES,
+  calendar_updateEvent: CALENDAR_WRITE_SCOPES,
+  calendar_deleteEvent: CALENDAR_WRITE_SCOPES,
+  calendar_findFreeTime: CALENDAR_READ_SCOPES,
+  calendar_listCalendars: CALENDAR_READ_SCOPES,
+};
+
+/**
+ * Output shape of an event
+ */
+export const eventSchema = z.object({
+  id: z.string(),
+  summary: z.string(),
+  start: z.string().optional().describe("Date-time, or date of all-day events"),
+  end: z
+    .string()
+    .optional()
+    .describe("Date-time, or the day after the last day of all-day events"),
+  allDay: z.boolean(),
+  timeZone: z
+    .string()
+    .optional()
+    .describe("Time zone the event was scheduled in"),
+  status: z.string().optional(),
+  location: z.string(),
+  description: z.string(),
+  attendees: z.array(
+    z.object({
+      email: z.string().optional(),
+      name: z.string(),
+      responseStatus: z.string().optional(),
+      optional: z.boolean().optional(),
+      comment: z.string().optional(),
+    })
+  ),
+  recurrence: z.array(z.string()).optional(),
+  organizer: z.string().optional(),
+  htmlLink: z.string().optional(),
+  meetLink: z.string().optional().describe("Google Meet join URL"),
+  attachments: z.array(
+    z.object({
+      fileId: z.string().optional(),
+      title: z.string().optional(),
+      fileUrl: z.string(),
+    })
+  ),
+});
+
+/**
+ * Output shape of an attachment that could not be shared with an attendee
+ */
+export const sharingFailureSchema = z.object({
+  fileId: z.string(),
+  emailAddress: z.string(),
+  message: z.string(),
+});
+
+const timeSlotSchema = z.object({ start: z.string(), end: z.string() });
+
+/**
+ * Parameter for a point in time: a date-time with a UTC offset, a local
+ * date-time read in the time zone of the call, or a date
+ */
+export const eventTimeParam = z.union([
+  z.string().date(),
+  z.string().datetime({
+    offset: true,
+    local: true,
+    message:
+      "Invalid date-time. Use ISO 8601, e.g. '2025-03-14T09:30:00' or '2025-03-14T09:30:00+01:00'.",
+  }),
+]);
+
+/**
+ * Parameter for the time zone of a call
+ */
+export const timeZoneParam = z
+  .string()
+  .refine(isValidTimeZone, "Unknown time zone. Use an IANA name.")
+  .optional()
+  .describe(
+    "IANA time zone, e.g. 'Europe/Berlin', for date-times without an offset and for results (default: the time zone in your Calendar settings)"
+  );
+
+/**
+ * How many attendees a free time search can rank slots for
+ */
+export const MAX_FREE_TIME_ATTENDEES = 20;
+
+const HOUR_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * Parameter for someone's working hours
+ */
+export const workingHoursParam = z
+  .object({
+    start: z
+      .string()
+      .regex(HOUR_PATTERN, "Expected a time as HH:MM")
+      .describe("Local start time, e.g. '09:00'"),
+    end: z
+      .string()
+      .regex(HOUR_PATTERN, "Expected a time as HH:MM")
+      .describe("Local end time, e.g. '17:30'"),
+    days: z
+      .array(z.number().int().min(1).max(7))
+      .min(1)
+      .default([1, 2, 3, 4, 5])
+      .describe("ISO weekdays, 1 (Monday) to 7 (Sunday); default Mon-Fri"),
+  })
+  .refine((hours) => hours.start < hours.end, "end must be after start");
+
+/**
+ * Parameter for someone to meet with, in free time searches
+ */
+export const meetingAttendeeParam = z.object({
+  email: z.string().email(),
+  optional: z
+    .boolean()
+    .default(false)
+    .describe("Rank slots where they are busy lower, not last"),
+  timeZone: timeZoneParam.describe(
+    "Their IANA time zone (default: their calendar's if shared with you, otherwise yours)"
+  ),
+  workingHours: workingHoursParam
+    .optional()
+    .describe("Their working hours (default: 09:00-17:00 Mon-Fri)"),
+});
+
+/**
+ * Parameter for Drive files to attach to an event
+ */
+export const attachDriveFilesParam = z
+  .array(z.string())
+  .max(MAX_EVENT_ATTACHMENTS)
+  .optional()
+  .describe("IDs of Drive files to attach to the event");
+
+/**
+ * Parameter for the access attendees get to attached Drive files
+ */
+export const shareAttachmentsParam = z
+  .enum(["none", "reader", "commenter", "writer"])
+  .default("reader")
+  .describe(
+    "Access to grant the attendees on attached Drive files, or 'none' to leave sharing as it is"
+  );
+
+/**
+ * Asks Google to create a Meet conference for an event. Requires
+ * `conferenceDataVersion: 1` on the insert or patch request.
+ */
+export function meetConferenceRequest(): calendar_v3.Schema$ConferenceData {
+  return {
+    createRequest: {
+      requestId: crypto.randomUUID(),
+      conferenceSolutionKey: { type: "hangoutsMeet" },
+    },
+  };
+}
+
+/**
+ * Checks that Drive files can be attached to an event, and shared with its
+ * attendees unless `role` is "none".
+ *
+ * @throws ToolError with INSUFFICIENT_SCOPE when Drive access was not
+ * granted, or is read-only while the files are to be shared.
+ */
+export function assertCanAttachDriveFiles(
+  tokenManager: GoogleTokenManager,
+  role: z.infer<typeof shareAttachmentsParam>
+): void {
+  const granted = tokenManager.props.scopes;
+  if (!hasAnyScope(granted, DRIVE_READ_SCOPES)) {
+    throw new ToolError(
+      "INSUFFICIENT_SCOPE",
+      "Attaching Drive files requires Drive access.",
+      "Re-authorize with Drive access, or link the files in the description instead."
+    );
+  }
+  if (role !== "none" && !hasAnyScope(granted, DRIVE_SHARE_SCOPES)) {
+    throw new ToolError(
+      "INSUFFICIENT_SCOPE",
+      "Sharing the attached Drive files with the attendees requires write access to Drive, but only read-only access was granted.",
+      "Call again with shareAttachments set to 'none' to attach the files without sharing them, or re-authorize with Drive write access."
+    );
+  }
+}
+
+/**
+ * Prepares Drive files as attachments of an event, shared with its
+ * attendees unless `role` is "none".
+ *
+ * @throws ToolError with INSUFFICIENT_SCOPE, see assertCanAttachDriveFiles().
+ */
+export async function prepareEventAttachments(
+  tokenManager: GoogleTokenManager,
+  fileIds: string[],
+  attendees: string[],
+  role: z.infer<typeof shareAttachmentsParam>
+): Promise<{
+  attachments: calendar_v3.Schema$EventAttachment[];
+  sharingFailures: SharingFailure[];
+}> {
+  assertCanAttachDriveFiles(tokenManager, role);
+  const drive = google.drive({ version: "v3", auth: tokenManager.getClient() });
+  return attachDriveFiles(drive, fileIds, { emails: attendees, role });
+}
+
+/**
+ * Describes the Meet link and any attachments that could not be shared, to
+ * be appended to a tool's output.
+ */
+export function describeEventExtras(
+  event: calendar_v3.Schema$Event,
+  sharingFailures: SharingFailure[]
+): string {
+  let text = "";
+  const { meetLink } = toEventOutput(event);
+  if (meetLink) text += `\nGoogle Meet: ${meetLink}`;
+  if (sharingFailures.length > 0) {
+    text += `\nCould not share some attachments:\n${sharingFailures
+      .map((f) => `- ${f.fileId} with ${f.emailAddress}: ${f.message}`)
+      .join("\n")}`;
+  }
+  return text;
+}
+
+/**
+ * Builds the start or end of an event: a date for all-day events, otherwise
+ * a date-time pinned to a time zone so recurrences keep their local time
+ * across DST changes.
+ */
+function toEventDateTime(
+  value: string,
+  timeZone: string
+): calendar_v3.Schema$EventDateTime {
+  return isDateOnly(value) ? { date: value } : { dateTime: value, timeZone };
+}
+
+/**
+ * Checks that an event's start and end are both dates or both date-times.
+ */
+function assertSameKind(start: string, end: string) {
+  if (isDateOnly(start) !== isDateOnly(end)) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "start and end must both be dates (all-day event) or both be date-times.",
+      "For an all-day event pass dates such as '2025-03-14', with end the day after the last day."
+    );
+  }
+}
+
+/**
+ * Maps an event resource to the eventSchema output shape.
+ */
+export function toEventOutput(
+  event: calendar_v3.Schema$Event
+): z.infer<typeof eventSchema> {
+  return {
+    id: event.id || "",
+    summary: event.summary || "(No Title)",
+    start: event.start?.dateTime || event.start?.date || undefined,
+    end: event.end?.dateTime || event.end?.date || undefined,
+    allDay: !!event.start?.date,
+    timeZone: event.start?.timeZone ?? undefined,
+    status: event.status ?? undefined,
+    location: event.location || "",
+    description: event.description || "",
+    attendees: (event.attendees || []).map((a) => ({
+      email: a.email ?? undefined,
+      name: a.displayName || "",
+      responseStatus: a.responseStatus ?? undefined,
+      optional: a.optional ?? undefined,
+      comment: a.comment ?? undefined,
+    })),
+    recurrence: event.recurrence ?? undefined,
+    organizer: event.organizer?.email ?? undefined,
+    htmlLink: event.htmlLink ?? undefined,
+    meetLink:
+      event.hangoutLink ||
+      event.conferenceData?.entryPoints?.find(
+        (e) => e.entryPointType === "video"
+      )?.uri ||
+      undefined,
+    attachments: (event.attachments || []).map((a) => ({
+      fileId: a.fileId ?? undefined,
+      title: a.title ?? undefined,
+      fileUrl: a.fileUrl || "",
+    })),
+  };
+}
 
 /**
  * Registers Calendar-related tools with the MCP server
  */
-export function registerCalendarTools(server: McpServer, props: Props) {
+export function registerCalendarTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore
+) {
   const getCalendarClient = () => {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: props.accessToken });
-    return google.calendar({ version: "v3", auth });
+    return google.calendar({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
   };
 
+  const resolveTimeZone = async (timeZone?: string) =>
+    timeZone ?? (await getCalendarTimeZone(tokenManager.getClient()));
+
   // Tool to list upcoming events (existing)
-  server.tool(
+  server.registerTool(
     "calendar_listEvents",
-    "List upcoming calendar events",
     {
-      timeMin: z
-        .string()
-        .datetime({ message: "Invalid datetime string. Must be ISO 8601." })
-        .optional()
-        .describe(
-          "Start time (ISO string, e.g., '2023-10-26T10:00:00Z', default: now)"
-        ),
-      timeMax: z
-        .string()
-        .datetime({ message: "Invalid datetime string. Must be ISO 8601." })
-        .optional()
-        .describe(
-          "End time (ISO string, e.g., '2023-10-27T10:00:00Z', default: 7 days from now)"
-        ),
-      maxResults: z
-        .number()
-        .int()
-        .min(1)
-        .max(2500) // Max allowed by API
-        .default(10)
-        .describe("Maximum number of results"),
-      calendarId: z
-        .string()
-        .default("primary")
-        .describe("Calendar ID (default: primary)"),
-      query: z.string().optional().describe("Free text search query"),
-      showDeleted: z
-        .boolean()
-        .default(false)
-        .describe("Whether to include deleted events"),
+      description:
+        "List upcoming calendar events. Times are returned in your time zone unless another is given.",
+      inputSchema: {
+        timeMin: eventTimeParam
+          .optional()
+          .describe(
+            "Start of the range (ISO string, e.g., '2023-10-26T10:00:00Z', '2023-10-26T10:00:00' in timeZone, or '2023-10-26' for the start of that day; default: now)"
+          ),
+        timeMax: eventTimeParam
+          .optional()
+          .describe(
+            "End of the range, in the same formats as timeMin (default: 7 days from now)"
+          ),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(2500) // Max allowed by API
+          .default(10)
+          .describe("Maximum number of results"),
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar ID (default: primary)"),
+        query: z.string().optional().describe("Free text search query"),
+        showDeleted: z
+          .boolean()
+          .default(false)
+          .describe("Whether to include deleted events"),
+        timeZone: timeZoneParam,
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        calendarId: z.string(),
+        timeZone: z.string().describe("Time zone of the listed times"),
+        events: z.array(eventSchema),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
     },
     async ({
       timeMin,
@@ -57,554 +406,659 @@ export function registerCalendarTools(server: McpServer, props: Props) {
       calendarId,
       query,
       showDeleted,
+      timeZone,
+      cursor,
     }) => {
-      try {
-        const calendar = getCalendarClient();
-        const now = new Date();
-        const defaultTimeMin = now.toISOString();
-        const defaultTimeMax = new Date(
-          now.getTime() + 7 * 24 * 60 * 60 * 1000
-        ).toISOString();
-
-        const params: calendar_v3.Params$Resource$Events$List = {
-          calendarId,
-          timeMin: timeMin || defaultTimeMin,
-          timeMax: timeMax || defaultTimeMax,
-          maxResults,
-          singleEvents: true,
-          orderBy: "startTime",
-          showDeleted,
-        };
-        if (query) params.q = query;
-
-        const response = await calendar.events.list(params);
-
-        const formattedEvents = (response.data.items || []).map((event) => ({
-          id: event.id,
-          summary: event.summary || "(No Title)",
-          start: event.start?.dateTime || event.start?.date,
-          end: event.end?.dateTime || event.end?.date,
-          status: event.status,
-          location: event.location || "",
-          description: event.description || "",
-          attendees: event.attendees
-            ? event.attendees.map((a) => ({
-                email: a.email,
-                name: a.displayName || "",
-                responseStatus: a.responseStatus,
-              }))
-            : [],
-        }));
+      const calendar = getCalendarClient();
+      const zone = await resolveTimeZone(timeZone);
+      const now = new Date();
+      const defaultTimeMin = now.toISOString();
+      const defaultTimeMax = new Date(
+        now.getTime() + 7 * 24 * 60 * 60 * 1000
+      ).toISOString();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text:
-                formattedEvents.length > 0
-                  ? `Events for calendar "${calendarId}":\n${JSON.stringify(
-                      formattedEvents,
-                      null,
-                      2
-                    )}`
-                  : `No upcoming events found for calendar "${calendarId}".`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing calendar events:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing events: ${error.message || String(error)}`,
-            },
-          ],
-        };
-      }
+      const params: calendar_v3.Params$Resource$Events$List = {
+        calendarId,
+        timeMin: timeMin
+          ? zonedInstant(timeMin, zone).toISOString()
+          : defaultTimeMin,
+        timeMax: timeMax
+          ? zonedInstant(timeMax, zone).toISOString()
+          : defaultTimeMax,
+        timeZone: zone,
+        singleEvents: true,
+        orderBy: "startTime",
+        showDeleted,
+      };
+      if (query) params.q = query;
+
+      const page = await cursors.resume("calendar_listEvents", cursor, params);
+      const response = await calendar.events.list({
+        ...page.params,
+        maxResults,
+        pageToken: page.pageToken,
+      });
+      const nextCursor = await cursors.create(
+        "calendar_listEvents",
+        page.params,
+        response.data.nextPageToken
+      );
+
+      const formattedEvents = (response.data.items || []).map(toEventOutput);
+      const listedCalendarId = page.params.calendarId || "primary";
+      const listedTimeZone = page.params.timeZone || zone;
+
+      return structuredResult(
+        formattedEvents.length > 0
+          ? `Events for calendar "${listedCalendarId}" (times in ${listedTimeZone}):\n${JSON.stringify(
+              formattedEvents,
+              null,
+              2
+            )}${describeNextPage(nextCursor)}`
+          : `No upcoming events found for calendar "${listedCalendarId}".`,
+        {
+          calendarId: listedCalendarId,
+          timeZone: listedTimeZone,
+          events: formattedEvents,
+          nextCursor,
+        }
+      );
     }
   );
 
   // Tool to create an event
-  server.tool(
+  server.registerTool(
     "calendar_createEvent",
-    "Create a new calendar event",
     {
-      summary: z.string().describe("Title or summary of the event"),
-      start: z
-        .string()
-        .datetime({ message: "Invalid datetime string. Must be ISO 8601." })
-        .describe("Start time (ISO string, e.g., '2023-10-26T10:00:00Z')"),
-      end: z
-        .string()
-        .datetime({ message: "Invalid datetime string. Must be ISO 8601." })
-        .describe("End time (ISO string, e.g., '2023-10-26T11:00:00Z')"),
-      calendarId: z
-        .string()
-        .default("primary")
-        .describe("Calendar ID (default: primary)"),
-      description: z
-        .string()
-        .optional()
-        .describe("Detailed description of the event"),
-      location: z.string().optional().describe("Location of the event"),
-      colorId: z.string().optional().describe("Color ID for the event (1-11)"),
-      attendees: z
-        .array(z.string().email())
-        .optional()
-        .describe("List of attendee email addresses"),
-      recurrence: z
-        .string()
-        .optional()
-        .describe(
-          "Recurrence rule (RRULE format, e.g., 'RRULE:FREQ=WEEKLY;COUNT=10')"
+      description:
+        "Create a new calendar event. Pass dates instead of date-times for an all-day event.",
+      inputSchema: {
+        summary: z.string().describe("Title or summary of the event"),
+        start: eventTimeParam.describe(
+          "Start time (ISO string, e.g., '2023-10-26T10:00:00Z', or '2023-10-26T10:00:00' in timeZone), or the first day of an all-day event ('2023-10-26')"
         ),
+        end: eventTimeParam.describe(
+          "End time in the same format as start; for all-day events the day after the last day ('2023-10-27' for a one-day event)"
+        ),
+        timeZone: timeZoneParam,
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar ID (default: primary)"),
+        description: z
+          .string()
+          .optional()
+          .describe("Detailed description of the event"),
+        location: z.string().optional().describe("Location of the event"),
+        colorId: z
+          .string()
+          .optional()
+          .describe("Color ID for the event (1-11)"),
+        attendees: z
+          .array(z.string().email())
+          .optional()
+          .describe("List of attendee email addresses"),
+        recurrence: z
+          .string()
+          .optional()
+          .describe(
+            "Recurrence rule (RRULE format, e.g., 'RRULE:FREQ=WEEKLY;COUNT=10')"
+          ),
+        addMeetLink: z
+          .boolean()
+          .default(false)
+          .describe("Add a Google Meet video conference"),
+        attachDriveFileIds: attachDriveFilesParam,
+        shareAttachments: shareAttachmentsParam,
+      },
+      outputSchema: {
+        event: eventSchema,
+        sharingFailures: z.array(sharingFailureSchema),
+      },
+      annotations: ADDITIVE_TOOL,
     },
     async ({
       summary,
       start,
       end,
+      timeZone,
       calendarId,
       description,
       location,
       colorId,
       attendees,
       recurrence,
+      addMeetLink,
+      attachDriveFileIds,
+      shareAttachments,
     }) => {
-      try {
-        const calendar = getCalendarClient();
-        const requestBody: calendar_v3.Schema$Event = {
-          summary,
-          start: { dateTime: start },
-          end: { dateTime: end },
-        };
+      assertSameKind(start, end);
+      const calendar = getCalendarClient();
+      const zone = isDateOnly(start) ? "" : await resolveTimeZone(timeZone);
+      const requestBody: calendar_v3.Schema$Event = {
+        summary,
+        start: toEventDateTime(start, zone),
+        end: toEventDateTime(end, zone),
+      };
 
-        if (description) requestBody.description = description;
-        if (location) requestBody.location = location;
-        if (colorId) requestBody.colorId = colorId;
-        if (attendees && attendees.length > 0) {
-          requestBody.attendees = attendees.map((email) => ({ email }));
-        }
-        if (recurrence) {
-          requestBody.recurrence = [recurrence];
-        }
+      if (description) requestBody.description = description;
+      if (location) requestBody.location = location;
+      if (colorId) requestBody.colorId = colorId;
+      if (attendees && attendees.length > 0) {
+        requestBody.attendees = attendees.map((email) => ({ email }));
+      }
+      if (recurrence) {
+        requestBody.recurrence = [recurrence];
+      }
+      if (addMeetLink) requestBody.conferenceData = meetConferenceRequest();
+      let sharingFailures: SharingFailure[] = [];
+      if (attachDriveFileIds && attachDriveFileIds.length > 0) {
+        const prepared = await prepareEventAttachments(
+          tokenManager,
+          attachDriveFileIds,
+          attendees || [],
+          shareAttachments
+        );
+        requestBody.attachments = prepared.attachments;
+        sharingFailures = prepared.sharingFailures;
+      }
 
-        const response = await calendar.events.insert({
-          calendarId,
-          requestBody,
-          sendUpdates: attendees && attendees.length > 0 ? "all" : "none",
-        });
+      const response = await calendar.events.insert({
+        calendarId,
+        requestBody,
+        sendUpdates: attendees && attendees.length > 0 ? "all" : "none",
+        conferenceDataVersion: 1,
+        supportsAttachments: true,
+      });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Event "${summary}" created successfully with ID: ${response.data.id} in calendar: ${calendarId}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error creating event:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating event: ${error.message || String(error)}`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `Event "${summary}" created successfully with ID: ${
+          response.data.id
+        } in calendar: ${calendarId}${describeEventExtras(
+          response.data,
+          sharingFailures
+        )}`,
+        { event: toEventOutput(response.data), sharingFailures }
+      );
     }
   );
 
   // Tool to get a specific event
-  server.tool(
+  server.registerTool(
     "calendar_getEvent",
-    "Get details of a specific calendar event",
     {
-      eventId: z.string().describe("The ID of the event to retrieve"),
-      calendarId: z
-        .string()
-        .default("primary")
-        .describe("Calendar ID (default: primary)"),
+      description: "Get details of a specific calendar event",
+      inputSchema: {
+        eventId: z.string().describe("The ID of the event to retrieve"),
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar ID (default: primary)"),
+      },
+      outputSchema: { event: eventSchema },
+      annotations: READ_ONLY_TOOL,
     },
     async ({ eventId, calendarId }) => {
-      try {
-        const calendar = getCalendarClient();
-        const response = await calendar.events.get({
-          calendarId,
-          eventId,
-        });
+      const calendar = getCalendarClient();
+      const response = await calendar.events.get({
+        calendarId,
+        eventId,
+      });
 
-        const data = response.data;
-        let resultText = `Event Details (ID: ${data.id}):\n`;
-        resultText += `Title: ${data.summary || "(No Title)"}\n`;
-        resultText += `Status: ${data.status}\n`;
-        resultText += `Start: ${data.start?.dateTime || data.start?.date}\n`;
-        resultText += `End: ${data.end?.dateTime || data.end?.date}\n`;
-        if (data.description)
-          resultText += `Description: ${data.description}\n`;
-        if (data.location) resultText += `Location: ${data.location}\n`;
-        if (data.attendees && data.attendees.length > 0) {
-          resultText += `Attendees: ${data.attendees
-            .map((a) => `${a.email} (${a.responseStatus})`)
-            .join(", ")}\n`;
-        }
-        if (data.recurrence)
-          resultText += `Recurrence: ${data.recurrence.join(", ")}\n`;
-        if (data.organizer?.email)
-          resultText += `Organizer: ${data.organizer.email}\n`;
-        if (data.htmlLink) resultText += `Link: ${data.htmlLink}\n`;
-
-        return {
-          content: [{ type: "text", text: resultText }],
-        };
-      } catch (error: any) {
-        console.error("Error getting event:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting event ${eventId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+      const data = response.data;
+      let resultText = `Event Details (ID: ${data.id}):\n`;
+      resultText += `Title: ${data.summary || "(No Title)"}\n`;
+      resultText += `Status: ${data.status}\n`;
+      resultText += `Start: ${data.start?.dateTime || data.start?.date}\n`;
+      resultText += `End: ${data.end?.dateTime || data.end?.date}\n`;
+      if (data.description) resultText += `Description: ${data.description}\n`;
+      if (data.location) resultText += `Location: ${data.location}\n`;
+      if (data.attendees && data.attendees.length > 0) {
+        resultText += `Attendees: ${data.attendees
+          .map((a) => `${a.email} (${a.responseStatus})`)
+          .join(", ")}\n`;
       }
+      if (data.recurrence)
+        resultText += `Recurrence: ${data.recurrence.join(", ")}\n`;
+      if (data.organizer?.email)
+        resultText += `Organizer: ${data.organizer.email}\n`;
+      if (data.htmlLink) resultText += `Link: ${data.htmlLink}\n`;
+      const { meetLink, attachments } = toEventOutput(data);
+      if (meetLink) resultText += `Google Meet: ${meetLink}\n`;
+      if (attachments.length > 0) {
+        resultText += `Attachments: ${attachments
+          .map((a) => `${a.title} (${a.fileUrl})`)
+          .join(", ")}\n`;
+      }
+
+      return structuredResult(resultText, { event: toEventOutput(data) });
     }
   );
 
   // Tool to update an event
-  server.tool(
+  server.registerTool(
     "calendar_updateEvent",
-    "Update an existing calendar event",
     {
-      eventId: z.string().describe("The ID of the event to update"),
-      calendarId: z
-        .string()
-        .default("primary")
-        .describe("Calendar ID (default: primary)"),
-      changes: z
-        .object({
-          summary: z.string().optional(),
-          description: z.string().optional(),
-          start: z
-            .string()
-            .datetime()
-            .optional()
-            .describe("New start time (ISO string)"),
-          end: z
-            .string()
-            .datetime()
-            .optional()
-            .describe("New end time (ISO string)"),
-          location: z.string().optional(),
-          colorId: z.string().optional(),
-          attendees: z.array(z.string().email()).optional(),
-          recurrence: z.string().optional(),
-        })
-        .describe("Object containing the fields to update"),
+      description: "Update an existing calendar event",
+      inputSchema: {
+        eventId: z.string().describe("The ID of the event to update"),
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar ID (default: primary)"),
+        changes: z
+          .object({
+            summary: z.string().optional(),
+            description: z.string().optional(),
+            start: eventTimeParam
+              .optional()
+              .describe(
+                "New start time (ISO string, local date-times are read in timeZone), or date for all-day events"
+              ),
+            end: eventTimeParam
+              .optional()
+              .describe(
+                "New end time, or for all-day events the day after the last day"
+              ),
+            timeZone: timeZoneParam,
+            location: z.string().optional(),
+            colorId: z.string().optional(),
+            attendees: z.array(z.string().email()).optional(),
+            recurrence: z.string().optional(),
+            addMeetLink: z
+              .boolean()
+              .optional()
+              .describe("Add a Google Meet video conference"),
+            attachDriveFileIds: attachDriveFilesParam.describe(
+              "IDs of Drive files to attach, in addition to those already attached"
+            ),
+            shareAttachments: shareAttachmentsParam,
+          })
+          .describe("Object containing the fields to update"),
+      },
+      outputSchema: {
+        event: eventSchema,
+        sharingFailures: z.array(sharingFailureSchema),
+      },
+      annotations: DESTRUCTIVE_TOOL,
     },
     async ({ eventId, calendarId, changes }) => {
-      try {
-        const calendar = getCalendarClient();
-        const updatedEvent: calendar_v3.Schema$Event = {};
-
-        // Map changes to the request body, handling nested structures
-        if (changes.summary !== undefined)
-          updatedEvent.summary = changes.summary;
-        if (changes.description !== undefined)
-          updatedEvent.description = changes.description;
-        if (changes.location !== undefined)
-          updatedEvent.location = changes.location;
-        if (changes.colorId !== undefined)
-          updatedEvent.colorId = changes.colorId;
-        if (changes.start) updatedEvent.start = { dateTime: changes.start };
-        if (changes.end) updatedEvent.end = { dateTime: changes.end };
-        if (changes.attendees)
-          updatedEvent.attendees = changes.attendees.map((email) => ({
-            email,
-          }));
-        if (changes.recurrence) updatedEvent.recurrence = [changes.recurrence];
-
-        if (Object.keys(updatedEvent).length === 0) {
-          return {
-            content: [{ type: "text", text: "No changes provided to update." }],
-          };
-        }
+      const calendar = getCalendarClient();
+      const updatedEvent: calendar_v3.Schema$Event = {};
 
-        const response = await calendar.events.patch({
-          calendarId,
-          eventId,
-          requestBody: updatedEvent,
-          sendUpdates: changes.attendees ? "all" : "none",
-        });
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Event "${response.data.summary}" (ID: ${eventId}) updated successfully.`,
-            },
-          ],
+      // Map changes to the request body, handling nested structures
+      if (changes.summary !== undefined) updatedEvent.summary = changes.summary;
+      if (changes.description !== undefined)
+        updatedEvent.description = changes.description;
+      if (changes.location !== undefined)
+        updatedEvent.location = changes.location;
+      if (changes.colorId !== undefined) updatedEvent.colorId = changes.colorId;
+      if (changes.start && changes.end) {
+        assertSameKind(changes.start, changes.end);
+      }
+      if (changes.timeZone && !changes.start && !changes.end) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "timeZone only applies together with a new start or end."
+        );
+      }
+      const needsZone = [changes.start, changes.end].some(
+        (value) => value && !isDateOnly(value)
+      );
+      const zone = needsZone ? await resolveTimeZone(changes.timeZone) : "";
+      // Clear the other kind of value so events can switch to or from all-day
+      const cleared = { date: null, dateTime: null, timeZone: null };
+      if (changes.start) {
+        updatedEvent.start = {
+          ...cleared,
+          ...toEventDateTime(changes.start, zone),
         };
-      } catch (error: any) {
-        console.error("Error updating event:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error updating event ${eventId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
+      }
+      if (changes.end) {
+        updatedEvent.end = {
+          ...cleared,
+          ...toEventDateTime(changes.end, zone),
         };
       }
+      if (changes.attendees)
+        updatedEvent.attendees = changes.attendees.map((email) => ({
+          email,
+        }));
+      if (changes.recurrence) updatedEvent.recurrence = [changes.recurrence];
+      if (changes.addMeetLink) {
+        updatedEvent.conferenceData = meetConferenceRequest();
+      }
+      let sharingFailures: SharingFailure[] = [];
+      if (changes.attachDriveFileIds && changes.attachDriveFileIds.length > 0) {
+        // Attachments are replaced as a whole, so keep the existing ones
+        const existing = await calendar.events.get({ calendarId, eventId });
+        const attached = existing.data.attachments || [];
+        const prepared = await prepareEventAttachments(
+          tokenManager,
+          changes.attachDriveFileIds.filter(
+            (id) => !attached.some((a) => a.fileId === id)
+          ),
+          changes.attendees ??
+            (existing.data.attendees || [])
+              .filter((a) => a.email && !a.self)
+              .map((a) => a.email!),
+          changes.shareAttachments
+        );
+        updatedEvent.attachments = [...attached, ...prepared.attachments];
+        sharingFailures = prepared.sharingFailures;
+      }
+
+      if (Object.keys(updatedEvent).length === 0) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "No changes provided to update."
+        );
+      }
+
+      const response = await calendar.events.patch({
+        calendarId,
+        eventId,
+        requestBody: updatedEvent,
+        sendUpdates: changes.attendees ? "all" : "none",
+        conferenceDataVersion: 1,
+        supportsAttachments: true,
+      });
+
+      return structuredResult(
+        `Event "${
+          response.data.summary
+        }" (ID: ${eventId}) updated successfully.${describeEventExtras(
+          response.data,
+          sharingFailures
+        )}`,
+        { event: toEventOutput(response.data), sharingFailures }
+      );
     }
   );
 
   // Tool to delete an event
-  server.tool(
+  server.registerTool(
     "calendar_deleteEvent",
-    "Delete a calendar event",
     {
-      eventId: z.string().describe("The ID of the event to delete"),
-      calendarId: z
-        .string()
-        .default("primary")
-        .describe("Calendar ID (default: primary)"),
-      sendUpdates: z
-        .enum(["all", "none", "externalOnly"])
-        .default("all")
-        .describe("Whether to send notifications to attendees"),
+      description: "Delete a calendar event",
+      inputSchema: {
+        eventId: z.string().describe("The ID of the event to delete"),
+        calendarId: z
+          .string()
+          .default("primary")
+          .describe("Calendar ID (default: primary)"),
+        sendUpdates: z
+          .enum(["all", "none", "externalOnly"])
+          .default("all")
+          .describe("Whether to send notifications to attendees"),
+      },
+      outputSchema: {
+        eventId: z.string(),
+        calendarId: z.string(),
+        alreadyDeleted: z
+          .boolean()
+          .describe("True if the event no longer existed"),
+      },
+      annotations: DESTRUCTIVE_TOOL,
     },
     async ({ eventId, calendarId, sendUpdates }) => {
+      const calendar = getCalendarClient();
       try {
-        const calendar = getCalendarClient();
         await calendar.events.delete({
           calendarId,
           eventId,
           sendUpdates,
         });
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Event ${eventId} deleted successfully from calendar ${calendarId}.`,
-            },
-          ],
-        };
       } catch (error: any) {
         // Handle 'gone' error specifically (event already deleted)
         if (error.code === 410) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Event ${eventId} was already deleted or does not exist.`,
-              },
-            ],
-          };
+          return structuredResult(
+            `Event ${eventId} was already deleted or does not exist.`,
+            { eventId, calendarId, alreadyDeleted: true }
+          );
         }
-        console.error("Error deleting event:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deleting event ${eventId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+        throw error;
       }
+
+      return structuredResult(
+        `Event ${eventId} deleted successfully from calendar ${calendarId}.`,
+        { eventId, calendarId, alreadyDeleted: false }
+      );
     }
   );
 
   // Tool to find free time slots
-  server.tool(
+  server.registerTool(
     "calendar_findFreeTime",
-    "Find free time slots across specified calendars",
     {
-      startTime: z
-        .string()
-        .datetime()
-        .describe("Start of the time range to search (ISO string)"),
-      endTime: z
-        .string()
-        .datetime()
-        .describe("End of the time range to search (ISO string)"),
-      durationMinutes: z
-        .number()
-        .int()
-        .positive()
-        .describe("Required duration of the free slot in minutes"),
-      calendarIds: z
-        .array(z.string())
-        .min(1)
-        .default(["primary"])
-        .describe("List of calendar IDs to check (default: primary)"),
+      description:
+        "Find free time slots across your calendars within working hours, and suggest meeting times ranked by which attendees are free. Slots are returned in your time zone unless another is given.",
+      inputSchema: {
+        startTime: eventTimeParam.describe(
+          "Start of the time range to search (ISO string, local date-times are read in timeZone; a date means the start of that day)"
+        ),
+        endTime: eventTimeParam.describe(
+          "End of the time range to search, in the same formats as startTime"
+        ),
+        durationMinutes: z
+          .number()
+          .int()
+          .positive()
+          .describe("Required duration of the free slot in minutes"),
+        calendarIds: z
+          .array(z.string())
+          .min(1)
+          .default(["primary"])
+          .describe(
+            "Your calendar IDs that must all be free (default: primary)"
+          ),
+        attendees: z
+          .array(meetingAttendeeParam)
+          .max(MAX_FREE_TIME_ATTENDEES)
+          .optional()
+          .describe(
+            "People to meet with; suggestions are ranked by how many of them are free and within working hours"
+          ),
+        workingHours: workingHoursParam
+          .optional()
+          .describe("Your working hours (default: 09:00-17:00 Mon-Fri)"),
+        ignoreWorkingHours: z
+          .boolean()
+          .default(false)
+          .describe("Consider any time of day, for everyone"),
+        preferredHours: workingHoursParam
+          .optional()
+          .describe("Hours to suggest first, in timeZone"),
+        slotStepMinutes: z
+          .number()
+          .int()
+          .min(5)
+          .max(240)
+          .default(30)
+          .describe("Suggested slots start on multiples of this many minutes"),
+        bufferMinutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(120)
+          .default(0)
+          .describe("Free time to keep before and after existing meetings"),
+        maxSuggestions: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(10)
+          .describe("Maximum number of suggested slots"),
+        timeZone: timeZoneParam,
+      },
+      outputSchema: {
+        timeZone: z.string().describe("Time zone of the slot times"),
+        freeSlots: z
+          .array(timeSlotSchema)
+          .describe("Windows in which all your calendars are free"),
+        suggestions: z
+          .array(
+            timeSlotSchema.extend({
+              availableAttendees: z.array(z.string()),
+              unavailableAttendees: z
+                .array(z.string())
+                .describe("Busy or outside their working hours"),
+              unknownAttendees: z
+                .array(z.string())
+                .describe("Free/busy not visible to you"),
+              preferred: z.boolean().describe("Within the preferred hours"),
+            })
+          )
+          .describe("Meeting times, best first"),
+        attendees: z.array(
+          z.object({
+            email: z.string(),
+            timeZone: z.string(),
+            freeBusyKnown: z.boolean(),
+          })
+        ),
+      },
+      annotations: READ_ONLY_TOOL,
     },
-    async ({ startTime, endTime, durationMinutes, calendarIds }) => {
-      try {
-        const calendar = getCalendarClient();
-        const timeMin = new Date(startTime);
-        const timeMax = new Date(endTime);
-        const durationMs = durationMinutes * 60 * 1000;
-
-        // Use the freebusy query API for efficiency
-        const response = await calendar.freebusy.query({
-          requestBody: {
-            timeMin: timeMin.toISOString(),
-            timeMax: timeMax.toISOString(),
-            items: calendarIds.map((id) => ({ id })),
-          },
-        });
-
-        const busySlots: { start: number; end: number }[] = [];
-        for (const calId in response.data.calendars) {
-          const calendarInfo = response.data.calendars[calId];
-          if (calendarInfo.busy) {
-            calendarInfo.busy.forEach((slot) => {
-              busySlots.push({
-                start: new Date(slot.start!).getTime(),
-                end: new Date(slot.end!).getTime(),
-              });
-            });
-          }
-        }
-
-        // Sort busy slots
-        busySlots.sort((a, b) => a.start - b.start);
-
-        // Merge overlapping busy slots
-        const mergedBusySlots: { start: number; end: number }[] = [];
-        if (busySlots.length > 0) {
-          let currentSlot = { ...busySlots[0] };
-          for (let i = 1; i < busySlots.length; i++) {
-            if (busySlots[i].start <= currentSlot.end) {
-              currentSlot.end = Math.max(currentSlot.end, busySlots[i].end);
-            } else {
-              mergedBusySlots.push(currentSlot);
-              currentSlot = { ...busySlots[i] };
-            }
-          }
-          mergedBusySlots.push(currentSlot);
-        }
+    async ({
+      startTime,
+      endTime,
+      durationMinutes,
+      calendarIds,
+      attendees = [],
+      workingHours,
+      ignoreWorkingHours,
+      preferredHours,
+      slotStepMinutes,
+      bufferMinutes,
+      maxSuggestions,
+      timeZone,
+    }) => {
+      const zone = await resolveTimeZone(timeZone);
+      const range = {
+        start: zonedInstant(startTime, zone).getTime(),
+        end: zonedInstant(endTime, zone).getTime(),
+      };
+      if (range.end <= range.start) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "endTime must be after startTime."
+        );
+      }
 
-        // Find free slots
-        const freeSlots: { start: string; end: string }[] = [];
-        let currentCheckTime = timeMin.getTime();
-
-        for (const busy of mergedBusySlots) {
-          if (
-            busy.start > currentCheckTime &&
-            busy.start - currentCheckTime >= durationMs
-          ) {
-            freeSlots.push({
-              start: new Date(currentCheckTime).toISOString(),
-              end: new Date(busy.start).toISOString(),
-            });
-          }
-          currentCheckTime = Math.max(currentCheckTime, busy.end);
-        }
+      const {
+        freeWindows,
+        suggestions,
+        attendees: resolvedAttendees,
+      } = await findMeetingSlots(tokenManager.getClient(), {
+        range,
+        durationMinutes,
+        stepMinutes: slotStepMinutes,
+        bufferMinutes,
+        maxSuggestions,
+        timeZone: zone,
+        calendarIds,
+        attendees,
+        workingHours,
+        ignoreWorkingHours,
+        preferredHours,
+      });
 
-        // Check free time after the last busy slot
-        if (
-          timeMax.getTime() > currentCheckTime &&
-          timeMax.getTime() - currentCheckTime >= durationMs
-        ) {
-          freeSlots.push({
-            start: new Date(currentCheckTime).toISOString(),
-            end: timeMax.toISOString(),
-          });
-        }
+      const toSlot = (interval: { start: number; end: number }) => ({
+        start: toZonedIsoString(new Date(interval.start), zone),
+        end: toZonedIsoString(new Date(interval.end), zone),
+      });
+      const formatSlot = (interval: { start: number; end: number }) =>
+        `${formatInTimeZone(
+          new Date(interval.start),
+          zone
+        )} - ${formatInTimeZone(new Date(interval.end), zone)}`;
+      const freeSlots = freeWindows.map(toSlot);
+      const output = {
+        timeZone: zone,
+        freeSlots,
+        suggestions: suggestions.map((slot) => ({
+          ...toSlot(slot),
+          availableAttendees: slot.available,
+          unavailableAttendees: slot.unavailable,
+          unknownAttendees: slot.unknown,
+          preferred: slot.preferred,
+        })),
+        attendees: resolvedAttendees,
+      };
 
-        if (freeSlots.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "No free time slots found matching the criteria.",
-              },
-            ],
-          };
-        }
+      if (freeSlots.length === 0) {
+        return structuredResult(
+          "No free time slots found matching the criteria.",
+          output
+        );
+      }
 
-        const resultText =
-          "Available time slots:\n" +
-          freeSlots
-            .map(
-              (slot) =>
-                `${new Date(slot.start).toLocaleString()} - ${new Date(
-                  slot.end
-                ).toLocaleString()}`
-            )
+      let resultText =
+        `Available time slots (${zone}):\n` +
+        freeWindows.map(formatSlot).join("\n");
+      if (attendees.length > 0 || preferredHours) {
+        resultText +=
+          "\n\nSuggested meeting times, best first:\n" +
+          suggestions
+            .map((slot) => {
+              let line = `- ${formatSlot(slot)}`;
+              if (slot.preferred) line += " (preferred hours)";
+              if (slot.unavailable.length > 0) {
+                line += `\n  Unavailable: ${slot.unavailable.join(", ")}`;
+              }
+              if (slot.unknown.length > 0) {
+                line += `\n  Free/busy unknown: ${slot.unknown.join(", ")}`;
+              }
+              return line;
+            })
             .join("\n");
-
-        return { content: [{ type: "text", text: resultText }] };
-      } catch (error: any) {
-        console.error("Error finding free time:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error finding free time: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
       }
+
+      return structuredResult(resultText, output);
     }
   );
 
   // Tool to list user's calendars
-  server.tool(
+  server.registerTool(
     "calendar_listCalendars",
-    "List all calendars the user has access to",
-    {}, // No parameters needed
+    {
+      description: "List all calendars the user has access to",
+      // No parameters needed
+      outputSchema: {
+        calendars: z.array(
+          z.object({
+            id: z.string(),
+            summary: z.string().optional(),
+            description: z.string(),
+            primary: z.boolean(),
+            accessRole: z.string().optional(),
+            backgroundColor: z.string().optional(),
+          })
+        ),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
     async () => {
-      try {
-        const calendar = getCalendarClient();
-        const response = await calendar.calendarList.list();
-
-        const calendars = (response.data.items || []).map((cal) => ({
-          id: cal.id,
-          summary: cal.summary,
-          description: cal.description || "",
-          primary: !!cal.primary,
-          accessRole: cal.accessRole,
-          backgroundColor: cal.backgroundColor,
-        }));
+      const calendar = getCalendarClient();
+      const response = await calendar.calendarList.list();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text:
-                calendars.length > 0
-                  ? `User Calendars:\n${JSON.stringify(calendars, null, 2)}`
-                  : "No calendars found.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing calendars:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing calendars: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
-      }
+      const calendars = (response.data.items || []).map((cal) => ({
+        id: cal.id || "",
+        summary: cal.summary ?? undefined,
+        description: cal.description || "",
+        primary: !!cal.primary,
+        accessRole: cal.accessRole ?? undefined,
+        backgroundColor: cal.backgroundColor ?? undefined,
+      }));
+
+      return structuredResult(
+        calendars.length > 0
+          ? `User Calendars:\n${JSON.stringify(calendars, null, 2)}`
+          : "No calendars found.",
+        { calendars }
+      );
     }
   );
 }
@@ -1,239 +1,272 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Props } from "../utils/upstream-utils";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  cursorParam,
+  nextCursorOutput,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
 import { google, people_v1 } from "googleapis";
+import { CursorStore, describeNextPage } from "../utils/cursors";
+
+const CONTACTS_SCOPES = [SCOPES.CONTACTS_READONLY];
+
+/**
+ * Scopes that unlock each Contacts tool
+ */
+export const contactsToolScopes: ToolScopes = {
+  contacts_listContacts: CONTACTS_SCOPES,
+  contacts_searchContacts: CONTACTS_SCOPES,
+  contacts_getContact: CONTACTS_SCOPES,
+};
+
+const contactSummarySchema = z.object({
+  resourceName: z.string().optional(),
+  name: z.string(),
+  emails: z.array(z.string()),
+  phoneNumbers: z.array(z.string()),
+});
+
+const contactDetailsSchema = contactSummarySchema.extend({
+  birthdays: z.array(z.string()),
+  addresses: z.array(z.string()),
+  organizations: z.array(
+    z.object({ name: z.string().optional(), title: z.string().optional() })
+  ),
+  biography: z.string().optional(),
+});
+
+const values = (items?: { value?: string | null }[]) =>
+  (items || []).map((item) => item.value).filter((v): v is string => !!v);
+
+/**
+ * Extracts the name, email addresses and phone numbers of a contact.
+ */
+export function summarizePerson(
+  person: people_v1.Schema$Person | undefined
+): z.infer<typeof contactSummarySchema> {
+  return {
+    resourceName: person?.resourceName ?? undefined,
+    name: person?.names?.[0]?.displayName || "N/A",
+    emails: values(person?.emailAddresses),
+    phoneNumbers: values(person?.phoneNumbers),
+  };
+}
 
 /**
  * Registers Google Contacts (People API) related tools with the MCP server.
  */
-export function registerContactsTools(server: McpServer, props: Props) {
+export function registerContactsTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore
+) {
   const getPeopleClient = () => {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: props.accessToken });
-    return google.people({ version: "v1", auth });
+    return google.people({
+      version: "v1",
+      auth: tokenManager.getClient(),
+    });
   };
 
   // Tool to list contacts
-  server.tool(
+  server.registerTool(
     "contacts_listContacts",
-    "List contacts from the user's Google Contacts.",
     {
-      pageSize: z
-        .number()
-        .int()
-        .min(1)
-        .max(1000)
-        .default(20)
-        .describe("Maximum number of contacts to return"),
-      // Common fields: names,emailAddresses,phoneNumbers
-      readMask: z
-        .string()
-        .default("names,emailAddresses,phoneNumbers")
-        .describe("Comma-separated list of fields to include for each contact"),
-      // Other options: sources, requestSyncToken, pageToken
+      description: "List contacts from the user's Google Contacts.",
+      inputSchema: {
+        pageSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .default(20)
+          .describe("Maximum number of contacts to return"),
+        // Common fields: names,emailAddresses,phoneNumbers
+        readMask: z
+          .string()
+          .default("names,emailAddresses,phoneNumbers")
+          .describe(
+            "Comma-separated list of fields to include for each contact"
+          ),
+        // Other options: sources, requestSyncToken
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        contacts: z.array(contactSummarySchema),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
     },
-    async ({ pageSize, readMask }) => {
-      try {
-        const people = getPeopleClient();
-        const response = await people.people.connections.list({
-          resourceName: "people/me",
-          pageSize,
-          personFields: readMask,
-          // Add sortOrder if needed: people.connections.list({ sortOrder: 'LAST_MODIFIED_ASCENDING' })
-        });
-
-        const connections = response.data.connections;
-        if (!connections || connections.length === 0) {
-          return { content: [{ type: "text", text: "No contacts found." }] };
-        }
+    async ({ pageSize, readMask, cursor }) => {
+      const people = getPeopleClient();
+      const page = await cursors.resume("contacts_listContacts", cursor, {
+        resourceName: "people/me",
+        personFields: readMask,
+      });
+      const response = await people.people.connections.list({
+        ...page.params,
+        pageSize,
+        pageToken: page.pageToken,
+        // Add sortOrder if needed: people.connections.list({ sortOrder: 'LAST_MODIFIED_ASCENDING' })
+      });
+      const nextCursor = await cursors.create(
+        "contacts_listContacts",
+        page.params,
+        response.data.nextPageToken
+      );
 
-        const formattedContacts = connections.map((person) => ({
-          resourceName: person.resourceName,
-          name: person.names?.[0]?.displayName || "N/A",
-          emails:
-            person.emailAddresses?.map((e) => e.value).filter(Boolean) || [],
-          phoneNumbers:
-            person.phoneNumbers?.map((p) => p.value).filter(Boolean) || [],
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Contacts:\n${JSON.stringify(formattedContacts, null, 2)}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing contacts:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing contacts: ${error.message || String(error)}`,
-            },
-          ],
-        };
+      const connections = response.data.connections;
+      if (!connections || connections.length === 0) {
+        return structuredResult("No contacts found.", { contacts: [] });
       }
+
+      const formattedContacts = connections.map(summarizePerson);
+
+      return structuredResult(
+        `Contacts:\n${JSON.stringify(
+          formattedContacts,
+          null,
+          2
+        )}${describeNextPage(nextCursor)}`,
+        { contacts: formattedContacts, nextCursor }
+      );
     }
   );
 
   // Tool to search contacts
-  server.tool(
+  server.registerTool(
     "contacts_searchContacts",
-    "Search for contacts by name, email, or phone number.",
     {
-      query: z.string().min(1).describe("The query string to search for"),
-      pageSize: z
-        .number()
-        .int()
-        .min(1)
-        .max(30)
-        .default(10)
-        .describe("Maximum number of results (max 30 for search)"),
-      readMask: z
-        .string()
-        .default("names,emailAddresses,phoneNumbers")
-        .describe("Comma-separated list of fields to include"),
+      description: "Search for contacts by name, email, or phone number.",
+      inputSchema: {
+        query: z.string().min(1).describe("The query string to search for"),
+        pageSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(30)
+          .default(10)
+          .describe("Maximum number of results (max 30 for search)"),
+        readMask: z
+          .string()
+          .default("names,emailAddresses,phoneNumbers")
+          .describe("Comma-separated list of fields to include"),
+      },
+      outputSchema: { contacts: z.array(contactSummarySchema) },
+      annotations: READ_ONLY_TOOL,
     },
     async ({ query, pageSize, readMask }) => {
-      try {
-        const people = getPeopleClient();
-        // Note: The search API is people.searchContacts, not people.connections.search
-        const response = await people.people.searchContacts({
-          // Corrected API endpoint
-          query,
-          pageSize,
-          readMask,
-        });
-
-        const results = response.data.results;
-        if (!results || results.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `No contacts found matching query "${query}".`,
-              },
-            ],
-          };
-        }
+      const people = getPeopleClient();
+      // Note: The search API is people.searchContacts, not people.connections.search
+      const response = await people.people.searchContacts({
+        // Corrected API endpoint
+        query,
+        pageSize,
+        readMask,
+      });
 
-        const formattedResults = results.map((result) => ({
-          resourceName: result.person?.resourceName,
-          name: result.person?.names?.[0]?.displayName || "N/A",
-          emails:
-            result.person?.emailAddresses
-              ?.map((e) => e.value)
-              .filter(Boolean) || [],
-          phoneNumbers:
-            result.person?.phoneNumbers?.map((p) => p.value).filter(Boolean) ||
-            [],
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Contact Search Results for "${query}":\n${JSON.stringify(
-                formattedResults,
-                null,
-                2
-              )}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error searching contacts:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error searching contacts: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+      const results = response.data.results;
+      if (!results || results.length === 0) {
+        return structuredResult(
+          `No contacts found matching query "${query}".`,
+          { contacts: [] }
+        );
       }
+
+      const formattedResults = results.map((result) =>
+        summarizePerson(result.person)
+      );
+
+      return structuredResult(
+        `Contact Search Results for "${query}":\n${JSON.stringify(
+          formattedResults,
+          null,
+          2
+        )}`,
+        { contacts: formattedResults }
+      );
     }
   );
 
   // Tool to get a specific contact's details
-  server.tool(
+  server.registerTool(
     "contacts_getContact",
-    "Get detailed information for a specific contact using their resource name.",
     {
-      resourceName: z
-        .string()
-        .min(1)
-        .startsWith("people/")
-        .describe(
-          "The resource name of the contact (e.g., 'people/c123456789')"
-        ),
-      readMask: z
-        .string()
-        .default(
-          "names,emailAddresses,phoneNumbers,birthdays,addresses,organizations,biographies"
-        )
-        .describe("Comma-separated list of fields to include"),
+      description:
+        "Get detailed information for a specific contact using their resource name.",
+      inputSchema: {
+        resourceName: z
+          .string()
+          .min(1)
+          .startsWith("people/")
+          .describe(
+            "The resource name of the contact (e.g., 'people/c123456789')"
+          ),
+        readMask: z
+          .string()
+          .default(
+            "names,emailAddresses,phoneNumbers,birthdays,addresses,organizations,biographies"
+          )
+          .describe("Comma-separated list of fields to include"),
+      },
+      outputSchema: { contact: contactDetailsSchema },
+      annotations: READ_ONLY_TOOL,
     },
     async ({ resourceName, readMask }) => {
-      try {
-        const people = getPeopleClient();
-        const response = await people.people.get({
-          resourceName,
-          personFields: readMask,
-        });
-
-        const person = response.data;
-
-        // Format the output nicely
-        const details = {
-          resourceName: person.resourceName,
-          names: person.names,
-          emailAddresses: person.emailAddresses,
-          phoneNumbers: person.phoneNumbers,
-          birthdays: person.birthdays,
-          addresses: person.addresses,
-          organizations: person.organizations,
-          biographies: person.biographies,
-          // Add other fields from readMask as needed
-        };
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Contact Details (${resourceName}):\n${JSON.stringify(
-                details,
-                null,
-                2
-              )}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error.code === 404) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Contact with resource name ${resourceName} not found.`,
-              },
-            ],
-          };
+      const people = getPeopleClient();
+      const response = await people.people.get({
+        resourceName,
+        personFields: readMask,
+      });
+
+      const person = response.data;
+
+      // Format the output nicely
+      const details = {
+        resourceName: person.resourceName,
+        names: person.names,
+        emailAddresses: person.emailAddresses,
+        phoneNumbers: person.phoneNumbers,
+        birthdays: person.birthdays,
+        addresses: person.addresses,
+        organizations: person.organizations,
+        biographies: person.biographies,
+        // Add other fields from readMask as needed
+      };
+
+      return structuredResult(
+        `Contact Details (${resourceName}):\n${JSON.stringify(
+          details,
+          null,
+          2
+        )}`,
+        {
+          contact: {
+            ...summarizePerson(person),
+            birthdays: (person.birthdays || [])
+              .map((b) =>
+                b.date
+                  ? [b.date.year, b.date.month, b.date.day]
+                      .filter(Boolean)
+                      .map((n) => String(n).padStart(2, "0"))
+                      .join("-")
+                  : b.text
+              )
+              .filter((b): b is string => !!b),
+            addresses: (person.addresses || [])
+              .map((a) => a.formattedValue)
+              .filter((a): a is string => !!a),
+            organizations: (person.organizations || []).map((o) => ({
+              name: o.name ?? undefined,
+              title: o.title ?? undefined,
+            })),
+            biography: person.biographies?.[0]?.value ?? undefined,
+          },
         }
-        console.error(`Error getting contact ${resourceName}:`, error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting contact: ${error.message || String(error)}`,
-            },
-          ],
-        };
-      }
+      );
     }
   );
 
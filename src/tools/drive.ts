@@ -1,477 +1,471 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Props } from "../utils/upstream-utils";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  ADDITIVE_TOOL,
+  cursorParam,
+  DESTRUCTIVE_TOOL,
+  nextCursorOutput,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
 import { google, drive_v3 } from "googleapis";
+import { ToolError } from "../utils/google-errors";
+import { CursorStore, describeNextPage } from "../utils/cursors";
 import { Readable } from "stream"; // Needed for file content handling
 
+const DRIVE_READ_SCOPES = [
+  SCOPES.DRIVE_READONLY,
+  SCOPES.DRIVE_FILE,
+  SCOPES.DRIVE,
+];
+const DRIVE_WRITE_SCOPES = [SCOPES.DRIVE_FILE, SCOPES.DRIVE];
+
+/**
+ * Scopes that unlock each Drive tool
+ */
+export const driveToolScopes: ToolScopes = {
+  drive_listFiles: DRIVE_READ_SCOPES,
+  drive_getFileContent: DRIVE_READ_SCOPES,
+  drive_createFile: DRIVE_WRITE_SCOPES,
+  drive_updateFileContent: DRIVE_WRITE_SCOPES,
+  drive_deleteFile: DRIVE_WRITE_SCOPES,
+  drive_shareFile: DRIVE_WRITE_SCOPES,
+};
+
+const fileSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  mimeType: z.string().optional(),
+  modifiedTime: z.string().optional(),
+  size: z.number().optional().describe("Size in bytes"),
+  webViewLink: z.string().optional(),
+});
+
+/**
+ * Maps a Drive file resource to the fileSchema output shape.
+ */
+export function toFileOutput(
+  file: drive_v3.Schema$File
+): z.infer<typeof fileSchema> {
+  return {
+    id: file.id || "",
+    name: file.name ?? undefined,
+    mimeType: file.mimeType ?? undefined,
+    modifiedTime: file.modifiedTime ?? undefined,
+    size: file.size ? Number(file.size) : undefined,
+    webViewLink: file.webViewLink ?? undefined,
+  };
+}
+
 /**
  * Registers Drive-related tools with the MCP server
  */
-export function registerDriveTools(server: McpServer, props: Props) {
+export function registerDriveTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore
+) {
   const getDriveClient = () => {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: props.accessToken });
-    return google.drive({ version: "v3", auth });
+    return google.drive({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
   };
 
   // Tool to list files (existing)
-  server.tool(
+  server.registerTool(
     "drive_listFiles",
-    "List files from Google Drive. Default query is 'trashed = false'.",
     {
-      query: z
-        .string()
-        .optional()
-        .default("trashed = false")
-        .describe(
-          "Search query (e.g., 'name contains \"report\"', 'mimeType=\"image/jpeg\"')"
-        ),
-      pageSize: z
-        .number()
-        .int()
-        .min(1)
-        .max(1000)
-        .default(20)
-        .describe("Maximum number of results"),
-      orderBy: z
-        .string()
-        .optional()
-        .default("modifiedTime desc")
-        .describe("Field(s) to sort by (e.g., 'modifiedTime desc', 'name')"),
-      fields: z
-        .string()
-        .optional()
-        .default("files(id, name, mimeType, modifiedTime, size, webViewLink)")
-        .describe("Fields to include in the response"),
+      description:
+        "List files from Google Drive. Default query is 'trashed = false'.",
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .default("trashed = false")
+          .describe(
+            "Search query (e.g., 'name contains \"report\"', 'mimeType=\"image/jpeg\"')"
+          ),
+        pageSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .default(20)
+          .describe("Maximum number of results"),
+        orderBy: z
+          .string()
+          .optional()
+          .default("modifiedTime desc")
+          .describe("Field(s) to sort by (e.g., 'modifiedTime desc', 'name')"),
+        fields: z
+          .string()
+          .optional()
+          .default("files(id, name, mimeType, modifiedTime, size, webViewLink)")
+          .describe("Fields to include in the response"),
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        files: z.array(fileSchema),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
     },
-    async ({ query, pageSize, orderBy, fields }) => {
-      try {
-        const drive = getDriveClient();
-        const response = await drive.files.list({
-          q: query,
-          pageSize: pageSize,
-          orderBy: orderBy,
-          fields: fields,
-        });
+    async ({ query, pageSize, orderBy, fields, cursor }) => {
+      const drive = getDriveClient();
+      const page = await cursors.resume("drive_listFiles", cursor, {
+        q: query,
+        orderBy: orderBy,
+        // The next page token is only returned when asked for
+        fields: fields.includes("nextPageToken")
+          ? fields
+          : `nextPageToken, ${fields}`,
+      });
+      const response = await drive.files.list({
+        ...page.params,
+        pageSize: pageSize,
+        pageToken: page.pageToken,
+      });
+      const nextCursor = await cursors.create(
+        "drive_listFiles",
+        page.params,
+        response.data.nextPageToken
+      );
 
-        if (!response.data.files || response.data.files.length === 0) {
-          return {
-            content: [
-              { type: "text", text: "No files found matching your criteria." },
-            ],
-          };
-        }
+      if (!response.data.files || response.data.files.length === 0) {
+        return structuredResult("No files found matching your criteria.", {
+          files: [],
+        });
+      }
 
-        // Format the output similar to the old class
-        const formattedFiles = response.data.files
-          .map((file: any) => {
-            const size = file.size
-              ? `${(parseInt(file.size) / 1024).toFixed(2)} KB`
-              : "N/A";
-            return `${file.name} (${file.mimeType})\nID: ${
-              file.id
-            }\nModified: ${file.modifiedTime}\nSize: ${size}\nLink: ${
-              file.webViewLink || "N/A"
-            }`;
-          })
-          .join("\n\n---\n\n");
+      // Format the output similar to the old class
+      const formattedFiles = response.data.files
+        .map((file: any) => {
+          const size = file.size
+            ? `${(parseInt(file.size) / 1024).toFixed(2)} KB`
+            : "N/A";
+          return `${file.name} (${file.mimeType})\nID: ${file.id}\nModified: ${
+            file.modifiedTime
+          }\nSize: ${size}\nLink: ${file.webViewLink || "N/A"}`;
+        })
+        .join("\n\n---\n\n");
 
-        return {
-          content: [
-            { type: "text", text: `Files Found:\n\n${formattedFiles}` },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing drive files:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing files: ${error.message || String(error)}`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `Files Found:\n\n${formattedFiles}${describeNextPage(nextCursor)}`,
+        { files: response.data.files.map(toFileOutput), nextCursor }
+      );
     }
   );
 
   // Tool to get file content
-  server.tool(
+  server.registerTool(
     "drive_getFileContent",
-    "Get the content of a file. Exports Google Docs/Sheets as text/csv.",
     {
-      fileId: z
-        .string()
-        .describe("The ID of the file to retrieve content from"),
+      description:
+        "Get the content of a file. Exports Google Docs/Sheets as text/csv.",
+      inputSchema: {
+        fileId: z
+          .string()
+          .describe("The ID of the file to retrieve content from"),
+      },
+      outputSchema: {
+        file: fileSchema,
+        exportedAs: z
+          .string()
+          .optional()
+          .describe("MIME type a Google Docs or Sheets file was exported as"),
+        content: z
+          .string()
+          .optional()
+          .describe("Text content; absent for file types without a preview"),
+      },
+      annotations: READ_ONLY_TOOL,
     },
     async ({ fileId }) => {
-      try {
-        const drive = getDriveClient();
-        const fileMetadata = await drive.files.get({
-          fileId: fileId,
-          fields: "id, name, mimeType, webViewLink",
-        });
+      const drive = getDriveClient();
+      const fileMetadata = await drive.files.get({
+        fileId: fileId,
+        fields: "id, name, mimeType, webViewLink",
+      });
 
-        const { name, mimeType, webViewLink } = fileMetadata.data;
+      const { name, mimeType, webViewLink } = fileMetadata.data;
+      const file = toFileOutput(fileMetadata.data);
 
-        if (!mimeType) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Could not determine MIME type for file: ${name} (ID: ${fileId})`,
-              },
-            ],
-          };
-        }
+      if (!mimeType) {
+        return structuredResult(
+          `Could not determine MIME type for file: ${name} (ID: ${fileId})`,
+          { file }
+        );
+      }
 
-        // Handle text-based files
-        if (
-          mimeType.startsWith("text/") ||
-          mimeType === "application/json" ||
-          mimeType.includes("javascript")
-        ) {
-          const response = await drive.files.get(
-            { fileId: fileId, alt: "media" },
-            { responseType: "stream" }
-          );
-          // Read stream to string (simplified example, might need more robust handling for large files)
-          const content = await streamToString(response.data as Readable);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `File: ${name} (ID: ${fileId})\nType: ${mimeType}\n\nContent:\n${content}`,
-              },
-            ],
-          };
-        }
-        // Handle Google Docs/Sheets export
-        else if (
-          mimeType === "application/vnd.google-apps.document" ||
+      // Handle text-based files
+      if (
+        mimeType.startsWith("text/") ||
+        mimeType === "application/json" ||
+        mimeType.includes("javascript")
+      ) {
+        const response = await drive.files.get(
+          { fileId: fileId, alt: "media" },
+          { responseType: "stream" }
+        );
+        // Read stream to string (simplified example, might need more robust handling for large files)
+        const content = await streamToString(response.data as Readable);
+        return structuredResult(
+          `File: ${name} (ID: ${fileId})\nType: ${mimeType}\n\nContent:\n${content}`,
+          { file, content }
+        );
+      }
+      // Handle Google Docs/Sheets export
+      else if (
+        mimeType === "application/vnd.google-apps.document" ||
+        mimeType === "application/vnd.google-apps.spreadsheet"
+      ) {
+        const exportMimeType =
           mimeType === "application/vnd.google-apps.spreadsheet"
-        ) {
-          const exportMimeType =
-            mimeType === "application/vnd.google-apps.spreadsheet"
-              ? "text/csv"
-              : "text/plain";
-          const response = await drive.files.export(
-            { fileId: fileId, mimeType: exportMimeType },
-            { responseType: "stream" }
-          );
-          const content = await streamToString(response.data as Readable);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `File: ${name} (ID: ${fileId})\nType: ${mimeType}\nExported as: ${exportMimeType}\n\nContent:\n${content}`,
-              },
-            ],
-          };
-        }
-        // Handle other types
-        else {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `File: ${name} (ID: ${fileId})\nType: ${mimeType}\nLink: ${webViewLink}\n\nContent preview is not available for this file type.`,
-              },
-            ],
-          };
-        }
-      } catch (error: any) {
-        console.error("Error getting file content:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting content for file ${fileId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+            ? "text/csv"
+            : "text/plain";
+        const response = await drive.files.export(
+          { fileId: fileId, mimeType: exportMimeType },
+          { responseType: "stream" }
+        );
+        const content = await streamToString(response.data as Readable);
+        return structuredResult(
+          `File: ${name} (ID: ${fileId})\nType: ${mimeType}\nExported as: ${exportMimeType}\n\nContent:\n${content}`,
+          { file, exportedAs: exportMimeType, content }
+        );
+      }
+      // Handle other types
+      else {
+        return structuredResult(
+          `File: ${name} (ID: ${fileId})\nType: ${mimeType}\nLink: ${webViewLink}\n\nContent preview is not available for this file type.`,
+          { file }
+        );
       }
     }
   );
 
   // Tool to create a file
-  server.tool(
+  server.registerTool(
     "drive_createFile",
-    "Create a new file (text or Google Doc/Sheet/etc.)",
     {
-      name: z.string().describe("The name of the new file"),
-      content: z
-        .string()
-        .optional()
-        .describe(
-          "The text content for the file (ignored for Google Apps types)"
-        ),
-      mimeType: z
-        .string()
-        .default("text/plain")
-        .describe(
-          "MIME type (e.g., 'text/plain', 'application/vnd.google-apps.document')"
-        ),
-      folderId: z
-        .string()
-        .optional()
-        .describe("ID of the folder to create the file in"),
+      description: "Create a new file (text or Google Doc/Sheet/etc.)",
+      inputSchema: {
+        name: z.string().describe("The name of the new file"),
+        content: z
+          .string()
+          .optional()
+          .describe(
+            "The text content for the file (ignored for Google Apps types)"
+          ),
+        mimeType: z
+          .string()
+          .default("text/plain")
+          .describe(
+            "MIME type (e.g., 'text/plain', 'application/vnd.google-apps.document')"
+          ),
+        folderId: z
+          .string()
+          .optional()
+          .describe("ID of the folder to create the file in"),
+      },
+      outputSchema: { file: fileSchema },
+      annotations: ADDITIVE_TOOL,
     },
     async ({ name, content, mimeType, folderId }) => {
-      try {
-        const drive = getDriveClient();
-        const fileMetadata: drive_v3.Schema$File = { name };
-        if (folderId) fileMetadata.parents = [folderId];
+      const drive = getDriveClient();
+      const fileMetadata: drive_v3.Schema$File = { name };
+      if (folderId) fileMetadata.parents = [folderId];
 
-        let response;
-        // Handle Google Apps types (no content upload)
-        if (mimeType.startsWith("application/vnd.google-apps")) {
-          fileMetadata.mimeType = mimeType;
-          response = await drive.files.create({
-            requestBody: fileMetadata,
-            fields: "id, name, webViewLink, mimeType",
-          });
-          const { id, webViewLink, mimeType: createdMimeType } = response.data;
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Created ${createdMimeType} '${name}'\nID: ${id}\nLink: ${webViewLink}`,
-              },
-            ],
-          };
-        }
-        // Handle regular files with content
-        else {
-          if (content === undefined) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: Content is required for non-Google Apps file types.",
-                },
-              ],
-            };
-          }
-          response = await drive.files.create({
-            requestBody: fileMetadata,
-            media: {
-              mimeType: mimeType,
-              body: content,
-            },
-            fields: "id, name, webViewLink, mimeType",
-          });
-          const { id, webViewLink, mimeType: createdMimeType } = response.data;
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Created file '${name}' (${createdMimeType})\nID: ${id}\nLink: ${
-                  webViewLink || "N/A"
-                }`,
-              },
-            ],
-          };
+      let response;
+      // Handle Google Apps types (no content upload)
+      if (mimeType.startsWith("application/vnd.google-apps")) {
+        fileMetadata.mimeType = mimeType;
+        response = await drive.files.create({
+          requestBody: fileMetadata,
+          fields: "id, name, webViewLink, mimeType",
+        });
+        const { id, webViewLink, mimeType: createdMimeType } = response.data;
+        return structuredResult(
+          `Created ${createdMimeType} '${name}'\nID: ${id}\nLink: ${webViewLink}`,
+          { file: toFileOutput(response.data) }
+        );
+      }
+      // Handle regular files with content
+      else {
+        if (content === undefined) {
+          throw new ToolError(
+            "INVALID_ARGUMENT",
+            "Content is required for non-Google Apps file types."
+          );
         }
-      } catch (error: any) {
-        console.error("Error creating file:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating file '${name}': ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+        response = await drive.files.create({
+          requestBody: fileMetadata,
+          media: {
+            mimeType: mimeType,
+            body: content,
+          },
+          fields: "id, name, webViewLink, mimeType",
+        });
+        const { id, webViewLink, mimeType: createdMimeType } = response.data;
+        return structuredResult(
+          `Created file '${name}' (${createdMimeType})\nID: ${id}\nLink: ${
+            webViewLink || "N/A"
+          }`,
+          { file: toFileOutput(response.data) }
+        );
       }
     }
   );
 
   // Tool to update file content (only non-Google Apps types)
-  server.tool(
+  server.registerTool(
     "drive_updateFileContent",
-    "Update the content of an existing file (not applicable for Google Docs/Sheets).",
     {
-      fileId: z.string().describe("The ID of the file to update"),
-      content: z.string().describe("The new text content for the file"),
-      mimeType: z
-        .string()
-        .optional()
-        .describe("Optional: New MIME type for the file"),
+      description:
+        "Update the content of an existing file (not applicable for Google Docs/Sheets).",
+      inputSchema: {
+        fileId: z.string().describe("The ID of the file to update"),
+        content: z.string().describe("The new text content for the file"),
+        mimeType: z
+          .string()
+          .optional()
+          .describe("Optional: New MIME type for the file"),
+      },
+      outputSchema: { file: fileSchema },
+      annotations: DESTRUCTIVE_TOOL,
     },
     async ({ fileId, content, mimeType }) => {
-      try {
-        const drive = getDriveClient();
-        // Get metadata first to check type
-        const meta = await drive.files.get({
-          fileId,
-          fields: "mimeType, name",
-        });
-        if (meta.data.mimeType?.startsWith("application/vnd.google-apps")) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Cannot update content for Google Apps file type (${meta.data.mimeType}). Use Google Drive interface.`,
-              },
-            ],
-          };
-        }
+      const drive = getDriveClient();
+      // Get metadata first to check type
+      const meta = await drive.files.get({
+        fileId,
+        fields: "mimeType, name",
+      });
+      if (meta.data.mimeType?.startsWith("application/vnd.google-apps")) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Cannot update content for Google Apps file type (${meta.data.mimeType}).`,
+          "Use the Google Drive interface to edit Google Docs, Sheets and Slides."
+        );
+      }
 
-        const response = await drive.files.update({
-          fileId: fileId,
-          media: {
-            mimeType: mimeType || meta.data.mimeType || "text/plain", // Use provided, existing, or default
-            body: content,
-          },
-          fields: "id, name, modifiedTime",
-        });
+      const response = await drive.files.update({
+        fileId: fileId,
+        media: {
+          mimeType: mimeType || meta.data.mimeType || "text/plain", // Use provided, existing, or default
+          body: content,
+        },
+        fields: "id, name, modifiedTime",
+      });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `File '${response.data.name}' (ID: ${fileId}) content updated successfully at ${response.data.modifiedTime}.`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error updating file content:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error updating content for file ${fileId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `File '${response.data.name}' (ID: ${fileId}) content updated successfully at ${response.data.modifiedTime}.`,
+        { file: toFileOutput(response.data) }
+      );
     }
   );
 
   // Tool to delete a file (move to trash or permanently)
-  server.tool(
+  server.registerTool(
     "drive_deleteFile",
-    "Delete a file (moves to trash by default).",
     {
-      fileId: z.string().describe("The ID of the file to delete"),
-      permanently: z
-        .boolean()
-        .default(false)
-        .describe(
-          "Set to true to delete permanently instead of moving to trash"
-        ),
+      description: "Delete a file (moves to trash by default).",
+      inputSchema: {
+        fileId: z.string().describe("The ID of the file to delete"),
+        permanently: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Set to true to delete permanently instead of moving to trash"
+          ),
+      },
+      outputSchema: {
+        fileId: z.string(),
+        permanentlyDeleted: z.boolean(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
     },
     async ({ fileId, permanently }) => {
-      try {
-        const drive = getDriveClient();
-        if (permanently) {
-          await drive.files.delete({ fileId });
-          return {
-            content: [
-              { type: "text", text: `File ID ${fileId} permanently deleted.` },
-            ],
-          };
-        } else {
-          await drive.files.update({ fileId, requestBody: { trashed: true } });
-          return {
-            content: [
-              { type: "text", text: `File ID ${fileId} moved to trash.` },
-            ],
-          };
-        }
-      } catch (error: any) {
-        // Handle 'notFound' error specifically
-        if (error.code === 404) {
-          return {
-            content: [
-              { type: "text", text: `Error: File ID ${fileId} not found.` },
-            ],
-          };
-        }
-        console.error("Error deleting file:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deleting file ${fileId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+      const drive = getDriveClient();
+      if (permanently) {
+        await drive.files.delete({ fileId });
+        return structuredResult(`File ID ${fileId} permanently deleted.`, {
+          fileId,
+          permanentlyDeleted: true,
+        });
+      } else {
+        await drive.files.update({ fileId, requestBody: { trashed: true } });
+        return structuredResult(`File ID ${fileId} moved to trash.`, {
+          fileId,
+          permanentlyDeleted: false,
+        });
       }
     }
   );
 
   // Tool to share a file
-  server.tool(
+  server.registerTool(
     "drive_shareFile",
-    "Share a file with a user.",
     {
-      fileId: z.string().describe("The ID of the file to share"),
-      emailAddress: z
-        .string()
-        .email()
-        .describe("Email address of the user to share with"),
-      role: z
-        .enum(["reader", "commenter", "writer", "owner"])
-        .default("reader")
-        .describe("Role to grant the user"),
-      sendNotification: z
-        .boolean()
-        .default(true)
-        .describe("Whether to send an email notification"),
-      message: z
-        .string()
-        .optional()
-        .describe("Optional message to include in the notification email"),
+      description: "Share a file with a user.",
+      inputSchema: {
+        fileId: z.string().describe("The ID of the file to share"),
+        emailAddress: z
+          .string()
+          .email()
+          .describe("Email address of the user to share with"),
+        role: z
+          .enum(["reader", "commenter", "writer", "owner"])
+          .default("reader")
+          .describe("Role to grant the user"),
+        sendNotification: z
+          .boolean()
+          .default(true)
+          .describe("Whether to send an email notification"),
+        message: z
+          .string()
+          .optional()
+          .describe("Optional message to include in the notification email"),
+      },
+      outputSchema: {
+        fileId: z.string(),
+        name: z.string().optional(),
+        permissionId: z.string().optional(),
+        emailAddress: z.string(),
+        role: z.string(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
     },
     async ({ fileId, emailAddress, role, sendNotification, message }) => {
-      try {
-        const drive = getDriveClient();
-        await drive.permissions.create({
-          fileId: fileId,
-          requestBody: {
-            type: "user",
-            role: role,
-            emailAddress: emailAddress,
-          },
-          sendNotificationEmail: sendNotification,
-          emailMessage: message,
-          fields: "id", // Request minimal fields
-        });
+      const drive = getDriveClient();
+      const permission = await drive.permissions.create({
+        fileId: fileId,
+        requestBody: {
+          type: "user",
+          role: role,
+          emailAddress: emailAddress,
+        },
+        sendNotificationEmail: sendNotification,
+        emailMessage: message,
+        fields: "id", // Request minimal fields
+      });
 
-        // Get file name for confirmation message
-        const fileMeta = await drive.files.get({ fileId, fields: "name" });
+      // Get file name for confirmation message
+      const fileMeta = await drive.files.get({ fileId, fields: "name" });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `File '${fileMeta.data.name}' (ID: ${fileId}) shared with ${emailAddress} as ${role}.`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error sharing file:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error sharing file ${fileId} with ${emailAddress}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `File '${fileMeta.data.name}' (ID: ${fileId}) shared with ${emailAddress} as ${role}.`,
+        {
+          fileId,
+          name: fileMeta.data.name ?? undefined,
+          permissionId: permission.data.id ?? undefined,
+          emailAddress,
+          role,
+        }
+      );
     }
   );
 }
@@ -0,0 +1,688 @@
+import { z } from "zod";
+import { google, gmail_v1 } from "googleapis";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  ADDITIVE_TOOL,
+  DESTRUCTIVE_TOOL,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
+import { ToolError } from "../utils/google-errors";
+import { findLabel } from "../utils/gmail-labels";
+import { escapeHtml, htmlToText } from "../utils/gmail-message";
+import { formatEmailSummaries, searchEmails } from "../utils/gmail-search";
+import { emailSummarySchema } from "./gmail";
+
+const SETTINGS_READ_SCOPES = [
+  SCOPES.GMAIL_READONLY,
+  SCOPES.GMAIL_MODIFY,
+  SCOPES.GMAIL_SETTINGS_BASIC,
+];
+const SETTINGS_WRITE_SCOPES = [SCOPES.GMAIL_SETTINGS_BASIC];
+// Messages shown when previewing a filter
+const FILTER_PREVIEW_SIZE = 20;
+
+/**
+ * Scopes that unlock each Gmail settings tool
+ */
+export const gmailSettingsToolScopes: ToolScopes = {
+  gmail_listFilters: SETTINGS_READ_SCOPES,
+  gmail_createFilter: SETTINGS_WRITE_SCOPES,
+  gmail_deleteFilter: SETTINGS_WRITE_SCOPES,
+  gmail_getVacation: SETTINGS_READ_SCOPES,
+  gmail_setVacation: SETTINGS_WRITE_SCOPES,
+  gmail_listSendAs: SETTINGS_READ_SCOPES,
+  gmail_updateSignature: SETTINGS_WRITE_SCOPES,
+};
+
+const filterCriteriaSchema = z
+  .object({
+    from: z.string().optional().describe("Sender, e.g. '@vendor.com'"),
+    to: z.string().optional().describe("Recipient"),
+    subject: z.string().optional().describe("Words in the subject"),
+    query: z
+      .string()
+      .optional()
+      .describe("Any Gmail search query the message must match"),
+    negatedQuery: z
+      .string()
+      .optional()
+      .describe("Gmail search query the message must not match"),
+    hasAttachment: z
+      .boolean()
+      .optional()
+      .describe("Only match messages with attachments"),
+    excludeChats: z.boolean().optional().describe("Do not match chats"),
+    size: z.number().int().min(1).optional().describe("Message size in bytes"),
+    sizeComparison: z
+      .enum(["larger", "smaller"])
+      .optional()
+      .describe("Whether messages must be larger or smaller than `size`"),
+  })
+  .refine((criteria) => Object.values(criteria).some((v) => v !== undefined), {
+    message: "At least one filter criterion is required.",
+  });
+
+const filterActionSchema = z
+  .object({
+    addLabels: z
+      .array(z.string())
+      .optional()
+      .describe("Labels to apply, as names or IDs (e.g., ['Vendors'])"),
+    removeLabels: z
+      .array(z.string())
+      .optional()
+      .describe("Labels to remove, as names or IDs"),
+    skipInbox: z.boolean().optional().describe("Archive (skip the inbox)"),
+    markRead: z.boolean().optional().describe("Mark as read"),
+    star: z.boolean().optional().describe("Star the message"),
+    markImportant: z.boolean().optional().describe("Always mark as important"),
+    neverMarkImportant: z
+      .boolean()
+      .optional()
+      .describe("Never mark as important"),
+    trash: z.boolean().optional().describe("Delete (move to trash)"),
+    neverSpam: z.boolean().optional().describe("Never send to spam"),
+    forward: z
+      .string()
+      .email()
+      .optional()
+      .describe(
+        "Forward to this address; it must be a verified forwarding address"
+      ),
+  })
+  .refine((action) => Object.values(action).some((v) => v), {
+    message: "At least one filter action is required.",
+  });
+
+type FilterCriteria = z.infer<typeof filterCriteriaSchema>;
+
+const filterSchema = z.object({
+  id: z.string(),
+  criteria: z.object({
+    from: z.string().optional(),
+    to: z.string().optional(),
+    subject: z.string().optional(),
+    query: z.string().optional(),
+    negatedQuery: z.string().optional(),
+    hasAttachment: z.boolean().optional(),
+    excludeChats: z.boolean().optional(),
+    size: z.number().optional(),
+    sizeComparison: z.string().optional(),
+  }),
+  addLabels: z.array(z.string()).describe("Names of the labels applied"),
+  removeLabels: z.array(z.string()).describe("Names of the labels removed"),
+  forward: z.string().optional(),
+});
+
+const vacationSchema = z.object({
+  enabled: z.boolean(),
+  startTime: z.string().optional().describe("ISO 8601 date-time"),
+  endTime: z.string().optional().describe("ISO 8601 date-time"),
+  subject: z.string().optional(),
+  message: z.string().optional().describe("Auto-reply as plain text"),
+  restrictToContacts: z.boolean(),
+  restrictToDomain: z.boolean(),
+});
+
+const sendAsSchema = z.object({
+  sendAsEmail: z.string(),
+  displayName: z.string().optional(),
+  replyToAddress: z.string().optional(),
+  isPrimary: z.boolean(),
+  isDefault: z.boolean(),
+  verificationStatus: z.string().optional(),
+  signature: z.string().optional().describe("Signature as HTML"),
+});
+
+/**
+ * Builds the Gmail search query that matches the same messages as a
+ * filter's criteria, used to preview a filter.
+ */
+function criteriaToQuery(criteria: FilterCriteria): string {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`from:(${criteria.from})`);
+  if (criteria.to) parts.push(`to:(${criteria.to})`);
+  if (criteria.subject) parts.push(`subject:(${criteria.subject})`);
+  if (criteria.query) parts.push(`(${criteria.query})`);
+  if (criteria.negatedQuery) parts.push(`-(${criteria.negatedQuery})`);
+  if (criteria.hasAttachment) parts.push("has:attachment");
+  if (criteria.excludeChats) parts.push("-in:chats");
+  if (criteria.size) {
+    parts.push(`${criteria.sizeComparison || "larger"}:${criteria.size}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Maps a filter resource to the filterSchema output shape, with label IDs
+ * replaced by their names.
+ */
+function toFilterOutput(
+  filter: gmail_v1.Schema$Filter,
+  labels: gmail_v1.Schema$Label[]
+): z.infer<typeof filterSchema> {
+  const labelName = (id: string) =>
+    labels.find((label) => label.id === id)?.name || id;
+  const criteria = Object.fromEntries(
+    Object.entries(filter.criteria || {}).filter(
+      ([, value]) => value !== null && value !== undefined
+    )
+  );
+  return {
+    id: filter.id || "",
+    criteria,
+    addLabels: (filter.action?.addLabelIds || []).map(labelName),
+    removeLabels: (filter.action?.removeLabelIds || []).map(labelName),
+    forward: filter.action?.forward ?? undefined,
+  };
+}
+
+/**
+ * Describes a filter in the form shown by gmail_listFilters.
+ */
+function describeFilter(filter: z.infer<typeof filterSchema>): string {
+  const criteria = Object.entries(filter.criteria).map(
+    ([key, value]) => `${key}: ${value}`
+  );
+  const actions: string[] = [];
+  if (filter.addLabels.length > 0) {
+    actions.push(`add labels: ${filter.addLabels.join(", ")}`);
+  }
+  if (filter.removeLabels.length > 0) {
+    actions.push(`remove labels: ${filter.removeLabels.join(", ")}`);
+  }
+  if (filter.forward) actions.push(`forward to: ${filter.forward}`);
+  return `Filter ID: ${filter.id}\nCriteria: ${criteria.join(
+    "; "
+  )}\nActions: ${actions.join("; ")}`;
+}
+
+/**
+ * Parses a date or date-time into the epoch milliseconds the settings API
+ * expects.
+ */
+function toEpochMillis(value: string, name: string): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `${name} "${value}" is not a valid date.`,
+      "Use ISO 8601, e.g. '2024-08-01' or '2024-08-01T09:00:00+02:00'."
+    );
+  }
+  return String(time);
+}
+
+const fromEpochMillis = (value: string | null | undefined) =>
+  value ? new Date(Number(value)).toISOString() : undefined;
+
+/**
+ * Maps vacation settings to the vacationSchema output shape.
+ */
+function toVacationOutput(
+  vacation: gmail_v1.Schema$VacationSettings
+): z.infer<typeof vacationSchema> {
+  return {
+    enabled: !!vacation.enableAutoReply,
+    startTime: fromEpochMillis(vacation.startTime),
+    endTime: fromEpochMillis(vacation.endTime),
+    subject: vacation.responseSubject ?? undefined,
+    message: vacation.responseBodyHtml
+      ? htmlToText(vacation.responseBodyHtml)
+      : vacation.responseBodyPlainText ?? undefined,
+    restrictToContacts: !!vacation.restrictToContacts,
+    restrictToDomain: !!vacation.restrictToDomain,
+  };
+}
+
+/**
+ * Maps a send-as alias to the sendAsSchema output shape.
+ */
+function toSendAsOutput(
+  alias: gmail_v1.Schema$SendAs
+): z.infer<typeof sendAsSchema> {
+  return {
+    sendAsEmail: alias.sendAsEmail || "",
+    displayName: alias.displayName || undefined,
+    replyToAddress: alias.replyToAddress || undefined,
+    isPrimary: !!alias.isPrimary,
+    isDefault: !!alias.isDefault,
+    verificationStatus: alias.verificationStatus ?? undefined,
+    signature: alias.signature || undefined,
+  };
+}
+
+/**
+ * Describes a send-as alias in the form shown by gmail_listSendAs.
+ */
+function describeSendAs(alias: gmail_v1.Schema$SendAs): string {
+  const flags = [
+    alias.isPrimary ? "primary" : "",
+    alias.isDefault ? "default" : "",
+    alias.verificationStatus && alias.verificationStatus !== "accepted"
+      ? `verification ${alias.verificationStatus}`
+      : "",
+  ].filter(Boolean);
+  let text = `Address: ${alias.sendAsEmail}`;
+  if (alias.displayName) text += `\nName: ${alias.displayName}`;
+  if (alias.replyToAddress) text += `\nReply-To: ${alias.replyToAddress}`;
+  if (flags.length > 0) text += `\nStatus: ${flags.join(", ")}`;
+  text += `\nSignature: ${
+    alias.signature ? htmlToText(alias.signature) : "(none)"
+  }`;
+  return text;
+}
+
+/**
+ * Registers Gmail settings tools (filters, vacation responder, signatures
+ * and send-as aliases) with the MCP server
+ */
+export function registerGmailSettingsTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager
+) {
+  const getGmailClient = () => {
+    return google.gmail({
+      version: "v1",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  const listLabels = async () => {
+    const response = await getGmailClient().users.labels.list({
+      userId: "me",
+    });
+    return response.data.labels || [];
+  };
+
+  // Tool to list filters
+  server.registerTool(
+    "gmail_listFilters",
+    {
+      description:
+        "List the Gmail filters (inbox rules) with their criteria and actions.",
+      // No parameters
+      outputSchema: { filters: z.array(filterSchema) },
+      annotations: READ_ONLY_TOOL,
+    },
+    async () => {
+      const gmail = getGmailClient();
+      const [response, labels] = await Promise.all([
+        gmail.users.settings.filters.list({ userId: "me" }),
+        listLabels(),
+      ]);
+      const filters = (response.data.filter || []).map((filter) =>
+        toFilterOutput(filter, labels)
+      );
+      if (filters.length === 0) {
+        return structuredResult("No filters found.", { filters });
+      }
+      return structuredResult(
+        `Found ${filters.length} filters:\n\n${filters
+          .map(describeFilter)
+          .join("\n\n---\n\n")}`,
+        { filters }
+      );
+    }
+  );
+
+  // Tool to create a filter
+  server.registerTool(
+    "gmail_createFilter",
+    {
+      description:
+        "Create a Gmail filter that applies actions to incoming mail matching the criteria, e.g. label mail from @vendor.com as 'Vendors' and skip the inbox. Use dryRun to preview which existing messages the criteria match without creating the filter.",
+      inputSchema: {
+        criteria: filterCriteriaSchema,
+        action: filterActionSchema,
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Only preview the existing messages the criteria match; no filter is created"
+          ),
+      },
+      outputSchema: {
+        dryRun: z.boolean(),
+        query: z
+          .string()
+          .describe("Gmail search query equivalent to the criteria"),
+        filter: filterSchema.optional().describe("The created filter"),
+        matchEstimate: z
+          .number()
+          .optional()
+          .describe("Dry run: estimated number of matching messages"),
+        matches: z
+          .array(emailSummarySchema)
+          .optional()
+          .describe("Dry run: the most recent matching messages"),
+      },
+      annotations: ADDITIVE_TOOL,
+    },
+    async ({ criteria, action, dryRun }) => {
+      const gmail = getGmailClient();
+      const labels = await listLabels();
+
+      // Validate label references against the user's labels
+      const labelRef = z.string().refine(
+        (ref) => !!findLabel(labels, ref),
+        (ref) => ({
+          message: `No Gmail label named "${ref}".`,
+        })
+      );
+      const checked = z
+        .array(labelRef)
+        .safeParse([
+          ...(action.addLabels || []),
+          ...(action.removeLabels || []),
+        ]);
+      if (!checked.success) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          checked.error.issues.map((issue) => issue.message).join(" "),
+          "Use gmail_listLabels to see the available labels, or gmail_createLabel to create one first."
+        );
+      }
+      const labelId = (ref: string) => findLabel(labels, ref)!.id!;
+
+      const addLabelIds = (action.addLabels || []).map(labelId);
+      const removeLabelIds = (action.removeLabels || []).map(labelId);
+      if (action.star) addLabelIds.push("STARRED");
+      if (action.markImportant) addLabelIds.push("IMPORTANT");
+      if (action.trash) addLabelIds.push("TRASH");
+      if (action.skipInbox) removeLabelIds.push("INBOX");
+      if (action.markRead) removeLabelIds.push("UNREAD");
+      if (action.neverMarkImportant) removeLabelIds.push("IMPORTANT");
+      if (action.neverSpam) removeLabelIds.push("SPAM");
+
+      const query = criteriaToQuery(criteria);
+      if (dryRun) {
+        const preview = await searchEmails(tokenManager.getClient(), {
+          query,
+          maxResults: FILTER_PREVIEW_SIZE,
+        });
+        let text = `Dry run: the filter would match about ${preview.resultSizeEstimate} existing messages (query: ${query}).`;
+        if (preview.emails.length > 0) {
+          text += `\n\nMost recent matches:\n\n${formatEmailSummaries(
+            preview.emails
+          )}`;
+        }
+        return structuredResult(text, {
+          dryRun: true,
+          query,
+          matchEstimate: preview.resultSizeEstimate,
+          matches: preview.emails,
+        });
+      }
+
+      if (action.forward) {
+        const addresses = await gmail.users.settings.forwardingAddresses.list({
+          userId: "me",
+        });
+        const verified = (addresses.data.forwardingAddresses || []).some(
+          (a) =>
+            a.forwardingEmail?.toLowerCase() ===
+              action.forward!.toLowerCase() &&
+            a.verificationStatus === "accepted"
+        );
+        if (!verified) {
+          throw new ToolError(
+            "INVALID_ARGUMENT",
+            `${action.forward} is not a verified forwarding address.`,
+            "Add and verify the address under Forwarding in Gmail settings first."
+          );
+        }
+      }
+
+      const response = await gmail.users.settings.filters.create({
+        userId: "me",
+        requestBody: {
+          criteria: {
+            from: criteria.from,
+            to: criteria.to,
+            subject: criteria.subject,
+            query: criteria.query,
+            negatedQuery: criteria.negatedQuery,
+            hasAttachment: criteria.hasAttachment,
+            excludeChats: criteria.excludeChats,
+            size: criteria.size,
+            sizeComparison: criteria.size
+              ? criteria.sizeComparison || "larger"
+              : undefined,
+          },
+          action: {
+            addLabelIds,
+            removeLabelIds,
+            forward: action.forward,
+          },
+        },
+      });
+
+      const filter = toFilterOutput(response.data, labels);
+      return structuredResult(`Filter created.\n${describeFilter(filter)}`, {
+        dryRun: false,
+        query,
+        filter,
+      });
+    }
+  );
+
+  // Tool to delete a filter
+  server.registerTool(
+    "gmail_deleteFilter",
+    {
+      description:
+        "Delete a Gmail filter. Messages it already labeled keep their labels.",
+      inputSchema: {
+        filterId: z.string().describe("The ID of the filter to delete"),
+      },
+      outputSchema: { filterId: z.string() },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ filterId }) => {
+      const gmail = getGmailClient();
+      await gmail.users.settings.filters.delete({ userId: "me", id: filterId });
+      return structuredResult(`Filter ${filterId} deleted.`, { filterId });
+    }
+  );
+
+  // Tool to read the vacation responder
+  server.registerTool(
+    "gmail_getVacation",
+    {
+      description:
+        "Get the vacation responder (out-of-office auto-reply) settings.",
+      // No parameters
+      outputSchema: { vacation: vacationSchema },
+      annotations: READ_ONLY_TOOL,
+    },
+    async () => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.settings.getVacation({
+        userId: "me",
+      });
+      const vacation = toVacationOutput(response.data);
+      if (!vacation.enabled) {
+        return structuredResult("The vacation responder is off.", {
+          vacation,
+        });
+      }
+      const lines = [
+        "The vacation responder is on.",
+        `Start: ${vacation.startTime || "(immediately)"}`,
+        `End: ${vacation.endTime || "(until turned off)"}`,
+        `Subject: ${vacation.subject || ""}`,
+        `Only contacts: ${vacation.restrictToContacts ? "yes" : "no"}`,
+        `Only my domain: ${vacation.restrictToDomain ? "yes" : "no"}`,
+        `Message:\n${vacation.message || ""}`,
+      ];
+      return structuredResult(lines.join("\n"), { vacation });
+    }
+  );
+
+  // Tool to turn the vacation responder on or off
+  server.registerTool(
+    "gmail_setVacation",
+    {
+      description:
+        "Turn the vacation responder (out-of-office auto-reply) on or off, optionally limited to a date range. Settings that are not given keep their current value.",
+      inputSchema: {
+        enabled: z.boolean().describe("Whether to send automatic replies"),
+        subject: z.string().optional().describe("Subject of the auto-reply"),
+        body: z.string().optional().describe("Auto-reply message"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        startDate: z
+          .string()
+          .optional()
+          .describe(
+            "Start replying from this date or date-time (ISO 8601, e.g. '2024-08-01')"
+          ),
+        endDate: z
+          .string()
+          .optional()
+          .describe(
+            "Stop replying after this date or date-time (ISO 8601, e.g. '2024-08-15T23:59:59Z')"
+          ),
+        restrictToContacts: z
+          .boolean()
+          .optional()
+          .describe("Only reply to people in your contacts"),
+        restrictToDomain: z
+          .boolean()
+          .optional()
+          .describe("Only reply to people in your Google Workspace domain"),
+      },
+      outputSchema: { vacation: vacationSchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      enabled,
+      subject,
+      body,
+      isHtml,
+      startDate,
+      endDate,
+      restrictToContacts,
+      restrictToDomain,
+    }) => {
+      const gmail = getGmailClient();
+      const current = await gmail.users.settings.getVacation({ userId: "me" });
+      const vacation: gmail_v1.Schema$VacationSettings = {
+        ...current.data,
+        enableAutoReply: enabled,
+      };
+      if (subject !== undefined) vacation.responseSubject = subject;
+      if (body !== undefined) {
+        vacation.responseBodyHtml = isHtml
+          ? body
+          : escapeHtml(body).replace(/\r?\n/g, "<br>");
+        vacation.responseBodyPlainText = isHtml ? htmlToText(body) : body;
+      }
+      if (startDate) vacation.startTime = toEpochMillis(startDate, "startDate");
+      if (endDate) vacation.endTime = toEpochMillis(endDate, "endDate");
+      if (restrictToContacts !== undefined) {
+        vacation.restrictToContacts = restrictToContacts;
+      }
+      if (restrictToDomain !== undefined) {
+        vacation.restrictToDomain = restrictToDomain;
+      }
+      if (
+        vacation.startTime &&
+        vacation.endTime &&
+        Number(vacation.endTime) <= Number(vacation.startTime)
+      ) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "The end date must be after the start date."
+        );
+      }
+
+      const response = await gmail.users.settings.updateVacation({
+        userId: "me",
+        requestBody: vacation,
+      });
+      const updated = response.data;
+      let text = updated.enableAutoReply
+        ? "Vacation responder turned on."
+        : "Vacation responder turned off.";
+      if (updated.enableAutoReply && (updated.startTime || updated.endTime)) {
+        text += ` Active from ${
+          fromEpochMillis(updated.startTime) || "now"
+        } until ${fromEpochMillis(updated.endTime) || "turned off"}.`;
+      }
+      return structuredResult(text, { vacation: toVacationOutput(updated) });
+    }
+  );
+
+  // Tool to list send-as aliases
+  server.registerTool(
+    "gmail_listSendAs",
+    {
+      description:
+        "List the addresses you can send mail from (send-as aliases), with their signatures.",
+      // No parameters
+      outputSchema: { aliases: z.array(sendAsSchema) },
+      annotations: READ_ONLY_TOOL,
+    },
+    async () => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.settings.sendAs.list({
+        userId: "me",
+      });
+      const aliases = response.data.sendAs || [];
+      return structuredResult(
+        `Found ${aliases.length} send-as addresses:\n\n${aliases
+          .map(describeSendAs)
+          .join("\n\n---\n\n")}`,
+        { aliases: aliases.map(toSendAsOutput) }
+      );
+    }
+  );
+
+  // Tool to update the signature of a send-as alias
+  server.registerTool(
+    "gmail_updateSignature",
+    {
+      description:
+        "Set the signature of one of your send-as addresses. It is appended to mail sent with gmail_sendEmail from that address.",
+      inputSchema: {
+        sendAsEmail: z
+          .string()
+          .email()
+          .describe("The send-as address whose signature to set"),
+        signature: z
+          .string()
+          .describe("The new signature; an empty string removes it"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the signature is HTML content"),
+      },
+      outputSchema: { alias: sendAsSchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ sendAsEmail, signature, isHtml }) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.settings.sendAs.patch({
+        userId: "me",
+        sendAsEmail,
+        requestBody: {
+          signature: isHtml
+            ? signature
+            : escapeHtml(signature).replace(/\r?\n/g, "<br>"),
+        },
+      });
+      return structuredResult(
+        `Signature updated.\n${describeSendAs(response.data)}`,
+        { alias: toSendAsOutput(response.data) }
+      );
+    }
+  );
+}
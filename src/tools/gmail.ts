@@ -1,556 +1,2475 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Props } from "../utils/upstream-utils";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { hasAnyScope, SCOPES } from "../utils/scopes";
+import {
+  ADDITIVE_TOOL,
+  cursorParam,
+  DESTRUCTIVE_TOOL,
+  nextCursorOutput,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
 import { google, gmail_v1 } from "googleapis";
+import {
+  downloadAttachment,
+  encodeBase64Url,
+  escapeHtml,
+  extractEmailAddress,
+  findBody,
+  findHtmlBody,
+  getHeader,
+  htmlToText,
+  isHtmlBody,
+  isTextMimeType,
+  listAttachments,
+  parseAddressList,
+  prefixSubject,
+  quoteText,
+  stripQuotedReply,
+} from "../utils/gmail-message";
+import { describeGoogleError, ToolError } from "../utils/google-errors";
+import {
+  BatchItemError,
+  BatchRequest,
+  BatchResponse,
+  executeBatch,
+  GMAIL_BATCH_URL,
+  unwrapBatchResponse,
+} from "../utils/google-batch";
+import {
+  childLabels,
+  findLabel,
+  normalizeLabelName,
+  parentLabelNames,
+  requireLabel,
+  resolveLabelIds,
+} from "../utils/gmail-labels";
+import { formatEmailSummaries, searchEmails } from "../utils/gmail-search";
+import {
+  appendSignature,
+  formatSender,
+  resolveSendAs,
+} from "../utils/gmail-send-as";
+import { buildMimeMessage, MimeAttachment, MimeMessage } from "../utils/mime";
+import { downloadDriveFile, uploadDriveFile } from "../utils/drive-files";
+import { ConfirmationStore } from "../utils/confirmations";
+import { CursorStore, describeNextPage } from "../utils/cursors";
+
+const GMAIL_READ_SCOPES = [SCOPES.GMAIL_READONLY, SCOPES.GMAIL_MODIFY];
+const GMAIL_WRITE_SCOPES = [SCOPES.GMAIL_MODIFY];
+const GMAIL_DELETE_SCOPES = [SCOPES.GMAIL_FULL];
+const GMAIL_MESSAGES_PATH = "/gmail/v1/users/me/messages";
+const GMAIL_THREADS_PATH = "/gmail/v1/users/me/threads";
+const GMAIL_DRAFTS_PATH = "/gmail/v1/users/me/drafts";
+// Per-message body limit when a whole thread is returned
+const THREAD_BODY_LIMIT = 2000;
+// Messages.batchModify takes at most 1000 IDs
+const MAX_BULK_MESSAGES = 1000;
+// Upper limit for gmail_bulkModify, whatever cap the caller asks for
+const MAX_QUERY_MESSAGES = 10000;
+// Largest page messages.list returns
+const LIST_PAGE_SIZE = 500;
+// Gmail rejects messages whose attachments add up to more than 25 MB
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+// Larger attachments are not returned to the client, only saved to Drive
+const MAX_RETURNED_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_ATTACHMENT_TEXT_LENGTH = 50000;
+const DRIVE_WRITE_SCOPES = [SCOPES.DRIVE_FILE, SCOPES.DRIVE];
+
+/**
+ * Output shape of a message in search results, shared by the Gmail tools
+ */
+export const emailSummarySchema = z.object({
+  id: z.string(),
+  threadId: z.string().optional(),
+  subject: z.string(),
+  from: z.string(),
+  date: z.string(),
+  snippet: z.string(),
+});
+
+const labelColorSchema = z
+  .object({
+    textColor: z.string().describe("Text color, e.g. '#ffffff'"),
+    backgroundColor: z.string().describe("Background color, e.g. '#16a766'"),
+  })
+  .describe(
+    "Label color. Gmail only accepts colors from its fixed palette, e.g. '#16a766' (green), '#fb4c2f' (red) or '#4a86e8' (blue)"
+  );
+
+const attachmentSchema = z
+  .object({
+    filename: z
+      .string()
+      .optional()
+      .describe(
+        "File name shown to recipients (defaults to the Drive file name)"
+      ),
+    mimeType: z
+      .string()
+      .optional()
+      .describe(
+        "MIME type, e.g. 'application/pdf' (defaults to the Drive file type)"
+      ),
+    content: z.string().optional().describe("Base64-encoded file content"),
+    driveFileId: z
+      .string()
+      .optional()
+      .describe("ID of a Drive file to attach instead of inline content"),
+    contentId: z
+      .string()
+      .optional()
+      .describe(
+        'Makes the attachment an inline image, referenced from the HTML body as <img src="cid:<contentId>">'
+      ),
+  })
+  .describe("A file to attach: either base64 content or a Drive file ID");
+
+const attachmentsParam = z
+  .array(attachmentSchema)
+  .optional()
+  .describe("Files to attach or embed as inline images");
+
+const attachmentInfoSchema = z.object({
+  partId: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number().describe("Size in bytes"),
+  attachmentId: z
+    .string()
+    .optional()
+    .describe("Pass to gmail_getAttachment (or the partId if absent)"),
+  contentId: z
+    .string()
+    .optional()
+    .describe(
+      'Set on inline images, which the HTML body shows as <img src="cid:<contentId>">'
+    ),
+});
+
+const sentMessageSchema = z.object({
+  messageId: z.string(),
+  threadId: z.string().optional(),
+});
+
+const deliverySchema = z.object({
+  savedAsDraft: z.boolean(),
+  draftId: z.string().optional(),
+  messageId: z.string().optional(),
+  threadId: z.string().optional(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()).optional(),
+});
+
+const labelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string().optional().describe("'system' or 'user'"),
+  messageListVisibility: z.string().optional(),
+  labelListVisibility: z.string().optional(),
+  color: z
+    .object({
+      textColor: z.string().optional(),
+      backgroundColor: z.string().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Output fields of the tools that change several messages at once
+ */
+const bulkResultShape = {
+  succeeded: z.array(z.string()).describe("IDs of the changed messages"),
+  failed: z.array(
+    z.object({ id: z.string(), code: z.string(), message: z.string() })
+  ),
+};
+type BulkResult = {
+  succeeded: string[];
+  failed: { id: string; code: string; message: string }[];
+};
+
+/**
+ * Maps a Gmail label to the labelSchema output shape.
+ */
+function toLabelOutput(
+  label: gmail_v1.Schema$Label
+): z.infer<typeof labelSchema> {
+  return {
+    id: label.id || "",
+    name: label.name || "",
+    type: label.type ?? undefined,
+    messageListVisibility: label.messageListVisibility ?? undefined,
+    labelListVisibility: label.labelListVisibility ?? undefined,
+    color: label.color
+      ? {
+          textColor: label.color.textColor ?? undefined,
+          backgroundColor: label.color.backgroundColor ?? undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Collects the message IDs a tool was called with, from either the single
+ * `messageId` or the `messageIds` list.
+ */
+function collectMessageIds(messageId?: string, messageIds?: string[]) {
+  const ids = Array.from(
+    new Set([...(messageId ? [messageId] : []), ...(messageIds ?? [])])
+  );
+  if (ids.length === 0) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Provide a messageId or a non-empty messageIds list."
+    );
+  }
+  return ids;
+}
+
+/**
+ * Summarizes a bulk operation run through the batch endpoint. If every
+ * message failed, the first failure is thrown so the tool reports an error.
+ *
+ * @param ids - The message IDs, in the order they were sent.
+ * @param responses - The batch responses, one per ID.
+ * @param action - Past-tense description, e.g. "moved to trash".
+ * @returns The readable summary and the bulkResultShape output fields.
+ */
+function summarizeBulkResult(
+  ids: string[],
+  responses: BatchResponse[],
+  action: string
+): { text: string; result: BulkResult } {
+  const failures = responses
+    .map((response, index) => ({ id: ids[index], response }))
+    .filter(({ response }) => response.status >= 400);
+  if (failures.length === ids.length) {
+    throw new BatchItemError(failures[0].response);
+  }
+  const failed = failures.map(({ id, response }) => {
+    const info = describeGoogleError(new BatchItemError(response), "Gmail");
+    return { id, code: info.code, message: info.message };
+  });
+  const failedIds = new Set(failed.map((f) => f.id));
+  let text = `${ids.length - failures.length} of ${
+    ids.length
+  } messages ${action}.`;
+  if (failed.length > 0) {
+    text += `\nFailed:\n${failed
+      .map((f) => `- ${f.id} [${f.code}]: ${f.message}`)
+      .join("\n")}`;
+  }
+  return {
+    text,
+    result: { succeeded: ids.filter((id) => !failedIds.has(id)), failed },
+  };
+}
+
+/**
+ * Extracts the headers, body and attachments of a fetched message, including
+ * what is needed to keep a reply in the same conversation.
+ */
+function parseMessage(data: gmail_v1.Schema$Message) {
+  const headers = data.payload?.headers;
+  const messageIdHeader = getHeader(headers, "Message-ID");
+  const referencesHeader = getHeader(headers, "References");
+  return {
+    id: data.id || "",
+    threadId: data.threadId || undefined,
+    messageIdHeader,
+    inReplyTo: getHeader(headers, "In-Reply-To"),
+    referencesHeader,
+    /** References header for a reply to this message */
+    references: [referencesHeader, messageIdHeader].filter(Boolean).join(" "),
+    subject: getHeader(headers, "Subject") || "",
+    from: getHeader(headers, "From") || "",
+    replyTo: getHeader(headers, "Reply-To"),
+    to: getHeader(headers, "To"),
+    cc: getHeader(headers, "Cc"),
+    bcc: getHeader(headers, "Bcc"),
+    date: getHeader(headers, "Date") || "",
+    body: data.payload ? findBody(data.payload) : "",
+    attachments: data.payload ? listAttachments(data.payload) : [],
+  };
+}
+type ParsedMessage = ReturnType<typeof parseMessage>;
+
+/**
+ * Maps a tool's `body` and `isHtml` arguments to the MIME message body fields.
+ */
+function asBody(
+  body: string,
+  isHtml: boolean
+): Pick<MimeMessage, "text" | "html"> {
+  return isHtml ? { html: body } : { text: body };
+}
+
+/**
+ * Fingerprints a set of message IDs, whatever their order.
+ */
+async function digestMessageIds(ids: string[]): Promise<string> {
+  const data = new TextEncoder().encode([...ids].sort().join(","));
+  const hash = await crypto.subtle.digest("SHA-256", data);
+  return Buffer.from(hash).toString("hex");
+}
+
+/**
+ * Scopes that unlock each Gmail tool
+ */
+export const gmailToolScopes: ToolScopes = {
+  gmail_sendEmail: GMAIL_WRITE_SCOPES,
+  gmail_listEmails: GMAIL_READ_SCOPES,
+  gmail_getEmail: GMAIL_READ_SCOPES,
+  gmail_draftEmail: GMAIL_WRITE_SCOPES,
+  gmail_deleteEmail: GMAIL_WRITE_SCOPES,
+  gmail_modifyLabels: GMAIL_WRITE_SCOPES,
+  gmail_bulkModify: GMAIL_WRITE_SCOPES,
+  gmail_listLabels: GMAIL_READ_SCOPES,
+  gmail_createLabel: GMAIL_WRITE_SCOPES,
+  gmail_updateLabel: GMAIL_WRITE_SCOPES,
+  gmail_deleteLabel: GMAIL_WRITE_SCOPES,
+  gmail_listThreads: GMAIL_READ_SCOPES,
+  gmail_getThread: GMAIL_READ_SCOPES,
+  gmail_modifyThread: GMAIL_WRITE_SCOPES,
+  gmail_trashThread: GMAIL_WRITE_SCOPES,
+  gmail_reply: GMAIL_WRITE_SCOPES,
+  gmail_replyAll: GMAIL_WRITE_SCOPES,
+  gmail_forward: GMAIL_WRITE_SCOPES,
+  gmail_getAttachment: GMAIL_READ_SCOPES,
+  gmail_saveAttachmentToDrive: {
+    allOf: [GMAIL_READ_SCOPES, DRIVE_WRITE_SCOPES],
+  },
+  gmail_listDrafts: GMAIL_READ_SCOPES,
+  gmail_getDraft: GMAIL_READ_SCOPES,
+  gmail_updateDraft: GMAIL_WRITE_SCOPES,
+  gmail_sendDraft: GMAIL_WRITE_SCOPES,
+  gmail_deleteDraft: GMAIL_WRITE_SCOPES,
+};
 
 /**
  * Registers Gmail-related tools with the MCP server
  */
-export function registerGmailTools(server: McpServer, props: Props) {
+export function registerGmailTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore,
+  confirmations: ConfirmationStore
+) {
   const getGmailClient = () => {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: props.accessToken });
-    return google.gmail({ version: "v1", auth });
+    return google.gmail({
+      version: "v1",
+      auth: tokenManager.getClient(),
+    });
+  };
+
+  const gmailBatch = <T>(requests: BatchRequest[]) =>
+    executeBatch<T>(tokenManager.getClient(), GMAIL_BATCH_URL, requests);
+
+  /**
+   * Resolves the label names or IDs to add and remove with a single lookup.
+   */
+  const resolveLabelChanges = async (
+    addLabels: string[] = [],
+    removeLabels: string[] = []
+  ) => {
+    const ids =
+      (await resolveLabelIds(getGmailClient(), [
+        ...addLabels,
+        ...removeLabels,
+      ])) || [];
+    return {
+      addLabelIds: ids.slice(0, addLabels.length),
+      removeLabelIds: ids.slice(addLabels.length),
+    };
+  };
+
+  /**
+   * Turns attachment arguments into MIME attachments, downloading Drive files
+   * as needed.
+   */
+  const resolveAttachments = async (
+    inputs: z.infer<typeof attachmentSchema>[] = []
+  ): Promise<MimeAttachment[]> => {
+    const attachments: MimeAttachment[] = [];
+    for (const input of inputs) {
+      if (input.driveFileId) {
+        const drive = google.drive({
+          version: "v3",
+          auth: tokenManager.getClient(),
+        });
+        const file = await downloadDriveFile(drive, input.driveFileId);
+        attachments.push({
+          filename: input.filename || file.name,
+          mimeType: input.mimeType || file.mimeType,
+          content: file.content,
+          contentId: input.contentId,
+        });
+      } else if (input.content && input.filename) {
+        attachments.push({
+          filename: input.filename,
+          mimeType: input.mimeType || "application/octet-stream",
+          content: input.content,
+          contentId: input.contentId,
+        });
+      } else {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "Each attachment needs either a driveFileId, or content together with a filename."
+        );
+      }
+    }
+    // Four base64 characters encode three bytes
+    const totalBytes = attachments.reduce(
+      (sum, a) => sum + Math.floor((a.content.length * 3) / 4),
+      0
+    );
+    if (totalBytes > MAX_ATTACHMENT_BYTES) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Attachments add up to ${Math.round(
+          totalBytes / 1024 / 1024
+        )} MB, more than Gmail's 25 MB limit.`,
+        "Share large files as a Drive link instead of attaching them."
+      );
+    }
+    return attachments;
+  };
+
+  /**
+   * Builds a message and encodes it for the `raw` field of the Gmail API.
+   */
+  const composeRaw = (message: MimeMessage) =>
+    encodeBase64Url(buildMimeMessage(message));
+
+  /**
+   * Fetches a message being replied to or forwarded.
+   */
+  const getOriginalMessage = async (messageId: string) => {
+    const gmail = getGmailClient();
+    const { data } = await gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "full",
+    });
+    return parseMessage(data);
+  };
+
+  /**
+   * Appends the original message to a reply or forward body, as a quote
+   * (replies) or as a forwarded message block (forwards).
+   */
+  const appendOriginal = (
+    body: string,
+    isHtml: boolean,
+    original: ParsedMessage,
+    mode: "quote" | "forward"
+  ) => {
+    const originalHtml = isHtmlBody(original.body)
+      ? original.body
+      : escapeHtml(original.body).replace(/\r?\n/g, "<br>");
+    const originalText = isHtmlBody(original.body)
+      ? htmlToText(original.body)
+      : original.body;
+
+    if (mode === "forward") {
+      const details = [
+        "---------- Forwarded message ---------",
+        `From: ${original.from}`,
+        `Date: ${original.date}`,
+        `Subject: ${original.subject}`,
+        `To: ${original.to || ""}`,
+        ...(original.cc ? [`Cc: ${original.cc}`] : []),
+      ];
+      return isHtml
+        ? `${body}<br><br><div class="gmail_quote">${details
+            .map(escapeHtml)
+            .join("<br>")}<br><br>${originalHtml}</div>`
+        : `${body}\r\n\r\n${details.join("\r\n")}\r\n\r\n${originalText}`;
+    }
+
+    const intro = `On ${original.date}, ${original.from} wrote:`;
+    return isHtml
+      ? `${body}<br><br><div class="gmail_quote">${escapeHtml(
+          intro
+        )}<br><blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${originalHtml}</blockquote></div>`
+      : `${body}\r\n\r\n${intro}\r\n${quoteText(originalText)}`;
+  };
+
+  /**
+   * Downloads the attachments of a message so they can be sent again, e.g.
+   * when forwarding it or revising a draft.
+   */
+  const fetchAttachments = async (
+    original: ParsedMessage
+  ): Promise<MimeAttachment[]> => {
+    const gmail = getGmailClient();
+    return Promise.all(
+      original.attachments
+        .filter((a) => a.attachmentId)
+        .map(async (a) => {
+          const response = await gmail.users.messages.attachments.get({
+            userId: "me",
+            messageId: original.id,
+            id: a.attachmentId!,
+          });
+          return {
+            filename: a.filename,
+            mimeType: a.mimeType,
+            content: response.data.data || "",
+            contentId: a.contentId,
+          };
+        })
+    );
+  };
+
+  /**
+   * Sends a reply or forward in the original conversation, or saves it as a
+   * draft there.
+   *
+   * @returns The readable outcome and the deliverySchema output.
+   */
+  const deliverInThread = async (
+    message: MimeMessage,
+    original: ParsedMessage,
+    saveAsDraft: boolean
+  ): Promise<{ text: string; delivery: z.infer<typeof deliverySchema> }> => {
+    const recipients = {
+      to: message.to,
+      cc: message.cc && message.cc.length > 0 ? message.cc : undefined,
+    };
+    const raw = composeRaw({
+      ...message,
+      headers: original.messageIdHeader
+        ? {
+            "In-Reply-To": original.messageIdHeader,
+            References: original.references,
+          }
+        : undefined,
+    });
+    const gmail = getGmailClient();
+    if (saveAsDraft) {
+      const response = await gmail.users.drafts.create({
+        userId: "me",
+        requestBody: { message: { raw, threadId: original.threadId } },
+      });
+      return {
+        text: `Draft created in thread ${original.threadId}. Draft ID: ${response.data.id}`,
+        delivery: {
+          savedAsDraft: true,
+          draftId: response.data.id ?? undefined,
+          messageId: response.data.message?.id ?? undefined,
+          threadId: original.threadId,
+          ...recipients,
+        },
+      };
+    }
+    const response = await gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw, threadId: original.threadId },
+    });
+    return {
+      text: `Email sent successfully in thread ${response.data.threadId}. Message ID: ${response.data.id}`,
+      delivery: {
+        savedAsDraft: false,
+        messageId: response.data.id ?? undefined,
+        threadId: response.data.threadId ?? undefined,
+        ...recipients,
+      },
+    };
+  };
+
+  /**
+   * Works out who a reply goes to. Replies to a message the user sent go to
+   * its original recipients; reply-all adds every other recipient, always
+   * leaving out the user's own address.
+   */
+  const replyRecipients = (original: ParsedMessage, all: boolean) => {
+    const self = tokenManager.props.email?.toLowerCase();
+    const fromSelf = extractEmailAddress(original.from) === self;
+    const sender = parseAddressList(original.replyTo || original.from);
+    const recipients = parseAddressList(original.to);
+
+    let to = fromSelf ? recipients : sender;
+    if (all && !fromSelf) to = [...sender, ...recipients];
+    const cc = all ? parseAddressList(original.cc) : [];
+
+    const seen = new Set<string>();
+    const keep = (mailbox: string) => {
+      const address = extractEmailAddress(mailbox);
+      if (address === self || seen.has(address)) return false;
+      seen.add(address);
+      return true;
+    };
+    const filteredTo = to.filter(keep);
+    return {
+      // A note to self has no one else to reply to
+      to: filteredTo.length > 0 ? filteredTo : sender,
+      cc: cc.filter(keep),
+    };
   };
 
   // Tool to send an email (Updated)
-  server.tool(
+  server.registerTool(
     "gmail_sendEmail",
-    "Send an email to specified recipients",
     {
-      to: z
-        .array(z.string().email())
-        .min(1)
-        .describe("Primary recipient email addresses"),
-      subject: z.string().describe("Email subject"),
-      body: z.string().describe("Email body content"),
-      cc: z
-        .array(z.string().email())
-        .optional()
-        .describe("CC recipient email addresses"),
-      bcc: z
-        .array(z.string().email())
-        .optional()
-        .describe("BCC recipient email addresses"),
-      isHtml: z
-        .boolean()
-        .default(false)
-        .describe("Set to true if the body is HTML content"),
+      description:
+        "Send an email to specified recipients, optionally with attachments and inline images. The signature of the sending address is appended automatically.",
+      inputSchema: {
+        to: z
+          .array(z.string().email())
+          .min(1)
+          .describe("Primary recipient email addresses"),
+        subject: z.string().describe("Email subject"),
+        body: z.string().describe("Email body content"),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe("CC recipient email addresses"),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe("BCC recipient email addresses"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        attachments: attachmentsParam,
+        from: z
+          .string()
+          .email()
+          .optional()
+          .describe(
+            "Send-as alias to send from (see gmail_listSendAs); defaults to your default address"
+          ),
+        includeSignature: z
+          .boolean()
+          .default(true)
+          .describe("Append the signature of the address you send from"),
+      },
+      outputSchema: { message: sentMessageSchema },
+      annotations: DESTRUCTIVE_TOOL,
     },
-    async ({ to, subject, body, cc, bcc, isHtml }) => {
-      try {
-        const gmail = getGmailClient();
-        const emailLines = [];
-        emailLines.push(`To: ${to.join(", ")}`);
-        if (cc && cc.length) emailLines.push(`Cc: ${cc.join(", ")}`);
-        if (bcc && bcc.length) emailLines.push(`Bcc: ${bcc.join(", ")}`);
-        emailLines.push(`Subject: ${subject}`);
-        emailLines.push(
-          `Content-Type: ${isHtml ? "text/html" : "text/plain"}; charset=utf-8`
-        );
-        emailLines.push("");
-        emailLines.push(body);
-
-        const email = emailLines.join("\r\n");
-        const encodedEmail = Buffer.from(email)
-          .toString("base64")
-          .replace(/\+/g, "-")
-          .replace(/\//g, "_")
-          .replace(/=+$/, "");
+    async ({
+      to,
+      subject,
+      body,
+      cc,
+      bcc,
+      isHtml,
+      attachments,
+      from,
+      includeSignature,
+    }) => {
+      const gmail = getGmailClient();
+      const sendAs =
+        from || includeSignature ? await resolveSendAs(gmail, from) : undefined;
+      const encodedEmail = composeRaw({
+        to,
+        cc,
+        bcc,
+        from: from && sendAs ? formatSender(sendAs) : undefined,
+        subject,
+        ...asBody(
+          includeSignature
+            ? appendSignature(body, isHtml, sendAs?.signature)
+            : body,
+          isHtml
+        ),
+        attachments: await resolveAttachments(attachments),
+      });
 
-        const response = await gmail.users.messages.send({
-          userId: "me",
-          requestBody: { raw: encodedEmail },
-        });
+      const response = await gmail.users.messages.send({
+        userId: "me",
+        requestBody: { raw: encodedEmail },
+      });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Email sent successfully. Message ID: ${response.data.id}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error sending email:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error sending email: ${error.message || String(error)}`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `Email sent successfully. Message ID: ${response.data.id}`,
+        {
+          message: {
+            messageId: response.data.id || "",
+            threadId: response.data.threadId ?? undefined,
+          },
+        }
+      );
     }
   );
 
   // Tool to list emails (Updated)
-  server.tool(
+  server.registerTool(
     "gmail_listEmails",
-    "List emails with optional query, labels, and limits. Returns a summary including IDs.",
     {
-      query: z
-        .string()
-        .optional()
-        .describe(
-          "Search query (same format as Gmail search, e.g., 'from:user@example.com')"
-        ),
-      maxResults: z
-        .number()
-        .int()
-        .min(1)
-        .max(500)
-        .default(10)
-        .describe("Maximum number of results"),
-      labelIds: z
-        .array(z.string())
-        .optional()
-        .describe("List of label IDs to filter by (e.g., ['INBOX', 'UNREAD'])"),
+      description:
+        "List emails with optional query, labels, and limits. Returns a summary including IDs.",
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe(
+            "Search query (same format as Gmail search, e.g., 'from:user@example.com')"
+          ),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .default(10)
+          .describe("Maximum number of results"),
+        labelIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Labels to filter by, as names or IDs (e.g., ['INBOX', 'UNREAD', 'Clients/Acme'])"
+          ),
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        emails: z.array(emailSummarySchema),
+        resultSizeEstimate: z
+          .number()
+          .describe("Gmail's estimate of the total number of matches"),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
     },
-    async ({ query, maxResults, labelIds }) => {
-      try {
-        const gmail = getGmailClient();
-        const params: gmail_v1.Params$Resource$Users$Messages$List = {
-          userId: "me",
-          maxResults,
-        };
-        if (query) params.q = query;
-        if (labelIds) params.labelIds = labelIds;
+    async ({ query, maxResults, labelIds, cursor }) => {
+      const page = await cursors.resume("gmail_listEmails", cursor, {
+        query,
+        labelIds: cursor
+          ? undefined
+          : await resolveLabelIds(getGmailClient(), labelIds),
+      });
+      const { emails, resultSizeEstimate, nextPageToken } = await searchEmails(
+        tokenManager.getClient(),
+        { ...page.params, maxResults, pageToken: page.pageToken }
+      );
+      const nextCursor = await cursors.create(
+        "gmail_listEmails",
+        page.params,
+        nextPageToken
+      );
 
-        const messageList = await gmail.users.messages.list(params);
+      if (emails.length === 0) {
+        return structuredResult("No emails found matching the criteria.", {
+          emails,
+          resultSizeEstimate,
+        });
+      }
 
-        if (
-          !messageList.data.messages ||
-          messageList.data.messages.length === 0
-        ) {
-          return {
-            content: [
-              { type: "text", text: "No emails found matching the criteria." },
-            ],
-          };
-        }
+      return structuredResult(
+        `Found ${emails.length} emails:\n\n${formatEmailSummaries(
+          emails
+        )}${describeNextPage(nextCursor)}`,
+        { emails, resultSizeEstimate, nextCursor }
+      );
+    }
+  );
 
-        // Get minimal details (metadata) for each message
-        const emailDetailsPromises = messageList.data.messages.map(
-          async (msg) => {
-            if (!msg.id) return null;
-            try {
-              const msgDetails = await gmail.users.messages.get({
-                userId: "me",
-                id: msg.id,
-                format: "metadata",
-                metadataHeaders: ["Subject", "From", "Date"],
-              });
-              const headers = msgDetails.data.payload?.headers || [];
-              const subject =
-                headers.find((h) => h.name === "Subject")?.value ||
-                "(No subject)";
-              const from = headers.find((h) => h.name === "From")?.value || "";
-              const date = headers.find((h) => h.name === "Date")?.value || "";
-              return {
-                id: msg.id,
-                subject,
-                from,
-                date,
-                snippet: msgDetails.data.snippet || "",
-              };
-            } catch (detailError: any) {
-              console.error(
-                `Error fetching details for message ${msg.id}:`,
-                detailError
-              );
-              return {
-                id: msg.id,
-                subject: "(Error fetching details)",
-                from: "",
-                date: "",
-                snippet: "",
-              };
-            }
-          }
-        );
+  // Tool to get a specific email's content
+  server.registerTool(
+    "gmail_getEmail",
+    {
+      description: "Get the full content of a specific email by its ID.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message to retrieve"),
+        format: z
+          .enum(["full", "metadata", "minimal", "raw"])
+          .default("full")
+          .describe("Format of the message data returned"),
+      },
+      outputSchema: {
+        email: z.object({
+          id: z.string(),
+          threadId: z.string().optional(),
+          labelIds: z.array(z.string()),
+          snippet: z.string(),
+          subject: z.string().optional(),
+          from: z.string().optional(),
+          to: z.string().optional(),
+          date: z.string().optional(),
+          body: z
+            .string()
+            .optional()
+            .describe("Message body, truncated after 2000 characters"),
+          attachments: z.array(attachmentInfoSchema),
+        }),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ messageId, format }) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.messages.get({
+        userId: "me",
+        id: messageId,
+        format: format,
+      });
 
-        const emails = (await Promise.all(emailDetailsPromises)).filter(
-          (e) => e !== null
+      const { payload, snippet, labelIds, internalDate } = response.data;
+      const basics = {
+        id: response.data.id || messageId,
+        threadId: response.data.threadId ?? undefined,
+        labelIds: labelIds || [],
+        snippet: snippet || "",
+      };
+      if (!payload || !payload.headers) {
+        return structuredResult(
+          `Could not retrieve payload/headers for message ${messageId}.`,
+          { email: { ...basics, attachments: [] } }
         );
+      }
+      const headers = payload.headers;
 
-        // Format results
-        const formattedResults = emails
+      const subject =
+        headers.find((h) => h.name?.toLowerCase() === "subject")?.value ||
+        "(No subject)";
+      const from =
+        headers.find((h) => h.name?.toLowerCase() === "from")?.value || "";
+      const to =
+        headers.find((h) => h.name?.toLowerCase() === "to")?.value || "";
+      const dateHeader =
+        headers.find((h) => h.name?.toLowerCase() === "date")?.value || "";
+      const date =
+        dateHeader ||
+        (internalDate
+          ? new Date(parseInt(internalDate)).toISOString()
+          : "Unknown");
+
+      const body = findBody(payload);
+
+      let result = `Subject: ${subject}\n`;
+      result += `From: ${from}\n`;
+      result += `To: ${to}\n`;
+      result += `Date: ${date}\n`;
+      result += `Labels: ${(labelIds || []).join(", ")}\n\n`;
+      const attachments = listAttachments(payload);
+      if (attachments.length > 0) {
+        result += `Attachments:\n${attachments
           .map(
-            (msg, index) =>
-              `[${index + 1}] ID: ${msg!.id}\nFrom: ${msg!.from}\nDate: ${
-                msg!.date
-              }\nSubject: ${msg!.subject}\nSnippet: ${msg!.snippet}`
+            (a) =>
+              `- ${a.filename} (${a.mimeType}, ${
+                a.size
+              } bytes) Attachment ID: ${a.attachmentId || a.partId}`
           )
-          .join("\n\n---\n\n");
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Found ${emails.length} emails:\n\n${formattedResults}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing emails:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing emails: ${error.message || String(error)}`,
-            },
-          ],
-        };
+          .join("\n")}\n\n`;
       }
+      result += `Snippet: ${snippet || ""}\n\n`;
+      result += `Body:\n${body.substring(0, 2000)}${
+        body.length > 2000 ? "... (truncated)" : ""
+      }`; // Truncate long bodies
+
+      return structuredResult(result, {
+        email: {
+          ...basics,
+          subject,
+          from,
+          to,
+          date,
+          body: body.substring(0, 2000),
+          attachments,
+        },
+      });
     }
   );
 
-  // Tool to get a specific email's content
-  server.tool(
-    "gmail_getEmail",
-    "Get the full content of a specific email by its ID.",
+  // Tool to create a draft email
+  server.registerTool(
+    "gmail_draftEmail",
     {
-      messageId: z.string().describe("The ID of the email message to retrieve"),
-      format: z
-        .enum(["full", "metadata", "minimal", "raw"])
-        .default("full")
-        .describe("Format of the message data returned"),
+      description: "Create a draft email in Gmail.",
+      inputSchema: {
+        to: z
+          .array(z.string().email())
+          .min(1)
+          .describe("Primary recipient email addresses"),
+        subject: z.string().describe("Email subject"),
+        body: z.string().describe("Email body content"),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe("CC recipient email addresses"),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe("BCC recipient email addresses"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        attachments: attachmentsParam,
+      },
+      outputSchema: { draftId: z.string(), messageId: z.string().optional() },
+      annotations: ADDITIVE_TOOL,
     },
-    async ({ messageId, format }) => {
-      try {
-        const gmail = getGmailClient();
-        const response = await gmail.users.messages.get({
-          userId: "me",
-          id: messageId,
-          format: format,
-        });
+    async ({ to, subject, body, cc, bcc, isHtml, attachments }) => {
+      const gmail = getGmailClient();
+      const encodedEmail = composeRaw({
+        to,
+        cc,
+        bcc,
+        subject,
+        ...asBody(body, isHtml),
+        attachments: await resolveAttachments(attachments),
+      });
+
+      const response = await gmail.users.drafts.create({
+        userId: "me",
+        requestBody: { message: { raw: encodedEmail } },
+      });
 
-        const { payload, snippet, labelIds, internalDate } = response.data;
-        if (!payload || !payload.headers) {
+      return structuredResult(
+        `Draft created successfully. Draft ID: ${response.data.id}`,
+        {
+          draftId: response.data.id || "",
+          messageId: response.data.message?.id ?? undefined,
+        }
+      );
+    }
+  );
+
+  // Tool to list drafts
+  server.registerTool(
+    "gmail_listDrafts",
+    {
+      description: "List draft emails with their recipients and subject.",
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe("Search query (same format as Gmail search)"),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(20)
+          .describe("Maximum number of drafts"),
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        drafts: z.array(
+          z.object({
+            id: z.string(),
+            to: z.string(),
+            subject: z.string(),
+            threadId: z.string(),
+            snippet: z.string(),
+          })
+        ),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ query, maxResults, cursor }) => {
+      const gmail = getGmailClient();
+      const page = await cursors.resume("gmail_listDrafts", cursor, {
+        q: query,
+      });
+      const draftList = await gmail.users.drafts.list({
+        ...page.params,
+        userId: "me",
+        maxResults,
+        pageToken: page.pageToken,
+      });
+      const nextCursor = await cursors.create(
+        "gmail_listDrafts",
+        page.params,
+        draftList.data.nextPageToken
+      );
+      const ids = (draftList.data.drafts || [])
+        .map((draft) => draft.id)
+        .filter((id): id is string => !!id);
+      if (ids.length === 0) {
+        return structuredResult(
+          `No drafts found.${describeNextPage(nextCursor)}`,
+          { drafts: [], nextCursor }
+        );
+      }
+
+      const responses = await gmailBatch<gmail_v1.Schema$Draft>(
+        ids.map((id) => ({
+          method: "GET",
+          path: `${GMAIL_DRAFTS_PATH}/${encodeURIComponent(
+            id
+          )}?format=metadata`,
+        }))
+      );
+      const drafts = responses
+        .map((response, index) => {
+          // Skip drafts sent or deleted since they were listed
+          if (response.status === 404) return null;
+          const message = unwrapBatchResponse(response).message || {};
+          const headers = message.payload?.headers;
           return {
-            content: [
-              {
-                type: "text",
-                text: `Could not retrieve payload/headers for message ${messageId}.`,
-              },
-            ],
+            id: ids[index],
+            to: getHeader(headers, "To") || "",
+            subject: getHeader(headers, "Subject") || "(No subject)",
+            threadId: message.threadId || "",
+            snippet: message.snippet || "",
           };
-        }
-        const headers = payload.headers;
-
-        const subject =
-          headers.find((h) => h.name?.toLowerCase() === "subject")?.value ||
-          "(No subject)";
-        const from =
-          headers.find((h) => h.name?.toLowerCase() === "from")?.value || "";
-        const to =
-          headers.find((h) => h.name?.toLowerCase() === "to")?.value || "";
-        const dateHeader =
-          headers.find((h) => h.name?.toLowerCase() === "date")?.value || "";
-        const date =
-          dateHeader ||
-          (internalDate
-            ? new Date(parseInt(internalDate)).toISOString()
-            : "Unknown");
+        })
+        .filter((d) => d !== null);
 
-        // Function to find and decode the body part (handles multipart)
-        const findBody = (part: gmail_v1.Schema$MessagePart): string => {
-          if (
-            part.body?.data &&
-            (part.mimeType === "text/plain" || part.mimeType === "text/html")
-          ) {
-            return Buffer.from(part.body.data, "base64").toString("utf8");
-          }
-          if (part.parts) {
-            // Prefer text/plain, fallback to text/html
-            const plainPart = part.parts.find(
-              (p) => p.mimeType === "text/plain"
-            );
-            if (plainPart?.body?.data)
-              return Buffer.from(plainPart.body.data, "base64").toString(
-                "utf8"
-              );
-            const htmlPart = part.parts.find((p) => p.mimeType === "text/html");
-            if (htmlPart?.body?.data)
-              return Buffer.from(htmlPart.body.data, "base64").toString("utf8");
-            // Recurse if needed (though usually not necessary for plain/html)
-            for (const subPart of part.parts) {
-              const subBody = findBody(subPart);
-              if (subBody) return subBody;
-            }
-          }
-          return "";
-        };
+      const formattedResults = drafts
+        .map(
+          (draft, index) =>
+            `[${index + 1}] Draft ID: ${draft.id}\nTo: ${draft.to}\nSubject: ${
+              draft.subject
+            }\nThread ID: ${draft.threadId}\nSnippet: ${draft.snippet}`
+        )
+        .join("\n\n---\n\n");
 
-        const body = findBody(payload);
-
-        let result = `Subject: ${subject}\n`;
-        result += `From: ${from}\n`;
-        result += `To: ${to}\n`;
-        result += `Date: ${date}\n`;
-        result += `Labels: ${(labelIds || []).join(", ")}\n\n`;
-        result += `Snippet: ${snippet || ""}\n\n`;
-        result += `Body:\n${body.substring(0, 2000)}${
-          body.length > 2000 ? "... (truncated)" : ""
-        }`; // Truncate long bodies
-
-        return { content: [{ type: "text", text: result }] };
-      } catch (error: any) {
-        console.error(`Error getting email ${messageId}:`, error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting email ${messageId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+      return structuredResult(
+        `Found ${
+          drafts.length
+        } drafts:\n\n${formattedResults}${describeNextPage(nextCursor)}`,
+        { drafts, nextCursor }
+      );
+    }
+  );
+
+  // Tool to read a draft
+  server.registerTool(
+    "gmail_getDraft",
+    {
+      description: "Get the full content of a draft email by its draft ID.",
+      inputSchema: {
+        draftId: z.string().describe("The ID of the draft to retrieve"),
+      },
+      outputSchema: {
+        draft: z.object({
+          id: z.string(),
+          threadId: z.string().optional(),
+          isReply: z.boolean(),
+          subject: z.string(),
+          to: z.string().optional(),
+          cc: z.string().optional(),
+          bcc: z.string().optional(),
+          body: z.string(),
+          attachments: z.array(attachmentInfoSchema),
+        }),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ draftId }) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.drafts.get({
+        userId: "me",
+        id: draftId,
+        format: "full",
+      });
+      const draft = parseMessage(response.data.message || {});
+
+      let result = `Draft ID: ${draftId}\n`;
+      result += `Subject: ${draft.subject || "(No subject)"}\n`;
+      result += `To: ${draft.to || ""}\n`;
+      if (draft.cc) result += `Cc: ${draft.cc}\n`;
+      if (draft.bcc) result += `Bcc: ${draft.bcc}\n`;
+      if (draft.inReplyTo) result += `Reply in thread: ${draft.threadId}\n`;
+      if (draft.attachments.length > 0) {
+        result += `Attachments: ${draft.attachments
+          .map((a) => `${a.filename} (${a.mimeType}, ${a.size} bytes)`)
+          .join(", ")}\n`;
       }
+      result += `\nBody:\n${draft.body}`;
+
+      return structuredResult(result, {
+        draft: {
+          id: draftId,
+          threadId: draft.threadId,
+          isReply: !!draft.inReplyTo,
+          subject: draft.subject,
+          to: draft.to,
+          cc: draft.cc,
+          bcc: draft.bcc,
+          body: draft.body,
+          attachments: draft.attachments,
+        },
+      });
     }
   );
 
-  // Tool to create a draft email
-  server.tool(
-    "gmail_draftEmail",
-    "Create a draft email in Gmail.",
+  // Tool to revise a draft
+  server.registerTool(
+    "gmail_updateDraft",
     {
-      to: z
-        .array(z.string().email())
-        .min(1)
-        .describe("Primary recipient email addresses"),
-      subject: z.string().describe("Email subject"),
-      body: z.string().describe("Email body content"),
-      cc: z
-        .array(z.string().email())
-        .optional()
-        .describe("CC recipient email addresses"),
-      bcc: z
-        .array(z.string().email())
-        .optional()
-        .describe("BCC recipient email addresses"),
-      isHtml: z
-        .boolean()
-        .default(false)
-        .describe("Set to true if the body is HTML content"),
+      description:
+        "Update an existing draft. Only the fields given are changed; the rest, including the sender, attachments, inline images and reply threading, are kept.",
+      inputSchema: {
+        draftId: z.string().describe("The ID of the draft to update"),
+        to: z
+          .array(z.string().email())
+          .min(1)
+          .optional()
+          .describe("New primary recipient email addresses"),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe("New CC recipient email addresses"),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe("New BCC recipient email addresses"),
+        subject: z.string().optional().describe("New email subject"),
+        body: z.string().optional().describe("New email body content"),
+        isHtml: z
+          .boolean()
+          .optional()
+          .describe(
+            "Set to true if the new body is HTML content (defaults to the current body's format)"
+          ),
+        attachments: attachmentsParam,
+        keepAttachments: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Keep the attachments already on the draft; inline images are kept as long as the body shows them"
+          ),
+        from: z
+          .string()
+          .email()
+          .optional()
+          .describe(
+            "Send-as alias to send from (see gmail_listSendAs); defaults to the draft's current sender"
+          ),
+      },
+      outputSchema: { draftId: z.string(), messageId: z.string().optional() },
+      annotations: ADDITIVE_TOOL,
     },
-    async ({ to, subject, body, cc, bcc, isHtml }) => {
-      try {
-        const gmail = getGmailClient();
-        const emailLines = [];
-        emailLines.push(`To: ${to.join(", ")}`);
-        if (cc && cc.length) emailLines.push(`Cc: ${cc.join(", ")}`);
-        if (bcc && bcc.length) emailLines.push(`Bcc: ${bcc.join(", ")}`);
-        emailLines.push(`Subject: ${subject}`);
-        emailLines.push(
-          `Content-Type: ${isHtml ? "text/html" : "text/plain"}; charset=utf-8`
-        );
-        emailLines.push("");
-        emailLines.push(body);
+    async ({
+      draftId,
+      to,
+      cc,
+      bcc,
+      subject,
+      body,
+      isHtml,
+      attachments,
+      keepAttachments,
+      from,
+    }) => {
+      const gmail = getGmailClient();
+      const existing = await gmail.users.drafts.get({
+        userId: "me",
+        id: draftId,
+        format: "full",
+      });
+      const draft = parseMessage(existing.data.message || {});
 
-        const email = emailLines.join("\r\n");
-        const encodedEmail = Buffer.from(email)
-          .toString("base64")
-          .replace(/\+/g, "-")
-          .replace(/\//g, "_")
-          .replace(/=+$/, "");
+      const headers: Record<string, string> = {};
+      if (draft.inReplyTo) headers["In-Reply-To"] = draft.inReplyTo;
+      if (draft.referencesHeader) headers.References = draft.referencesHeader;
 
-        const response = await gmail.users.drafts.create({
-          userId: "me",
-          requestBody: { message: { raw: encodedEmail } },
-        });
+      const sender = from
+        ? formatSender((await resolveSendAs(gmail, from))!)
+        : draft.from || undefined;
+      // Keep an HTML body as HTML, so its inline images still show
+      const currentBody =
+        (existing.data.message?.payload &&
+          findHtmlBody(existing.data.message.payload)) ??
+        draft.body;
+      const newBody = body ?? currentBody;
+      const added = await resolveAttachments(attachments);
+      // Inline images stay while the body still shows them, unless replaced
+      const kept = draft.attachments.filter((a) =>
+        a.contentId
+          ? newBody.includes(`cid:${a.contentId}`) &&
+            !added.some((b) => b.contentId === a.contentId)
+          : keepAttachments
+      );
+      const raw = composeRaw({
+        to: to ?? parseAddressList(draft.to),
+        cc: cc ?? parseAddressList(draft.cc),
+        bcc: bcc ?? parseAddressList(draft.bcc),
+        from: sender,
+        subject: subject ?? draft.subject,
+        ...asBody(newBody, isHtml ?? isHtmlBody(newBody)),
+        attachments: [
+          ...(await fetchAttachments({ ...draft, attachments: kept })),
+          ...added,
+        ],
+        headers,
+      });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Draft created successfully. Draft ID: ${response.data.id}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error creating draft:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating draft: ${error.message || String(error)}`,
-            },
+      const response = await gmail.users.drafts.update({
+        userId: "me",
+        id: draftId,
+        requestBody: { message: { raw, threadId: draft.threadId } },
+      });
+
+      return structuredResult(
+        `Draft ${response.data.id} updated successfully.`,
+        {
+          draftId: response.data.id || draftId,
+          messageId: response.data.message?.id ?? undefined,
+        }
+      );
+    }
+  );
+
+  // Tool to send a draft
+  server.registerTool(
+    "gmail_sendDraft",
+    {
+      description: "Send an existing draft email.",
+      inputSchema: {
+        draftId: z.string().describe("The ID of the draft to send"),
+      },
+      outputSchema: { message: sentMessageSchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ draftId }) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.drafts.send({
+        userId: "me",
+        requestBody: { id: draftId },
+      });
+      return structuredResult(
+        `Draft sent successfully. Message ID: ${response.data.id}`,
+        {
+          message: {
+            messageId: response.data.id || "",
+            threadId: response.data.threadId ?? undefined,
+          },
+        }
+      );
+    }
+  );
+
+  // Tool to delete a draft
+  server.registerTool(
+    "gmail_deleteDraft",
+    {
+      description: "Permanently delete a draft email.",
+      inputSchema: {
+        draftId: z.string().describe("The ID of the draft to delete"),
+      },
+      outputSchema: { draftId: z.string() },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ draftId }) => {
+      const gmail = getGmailClient();
+      await gmail.users.drafts.delete({ userId: "me", id: draftId });
+      return structuredResult(`Draft ${draftId} deleted.`, { draftId });
+    }
+  );
+
+  // Tool to reply to the sender of an email
+  server.registerTool(
+    "gmail_reply",
+    {
+      description:
+        "Reply to the sender of an email, keeping the reply in the same conversation.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message to reply to"),
+        body: z.string().describe("Reply body content"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        attachments: attachmentsParam,
+        includeQuote: z
+          .boolean()
+          .default(true)
+          .describe("Quote the original message below the reply"),
+        saveAsDraft: z
+          .boolean()
+          .default(false)
+          .describe("Save the reply as a draft instead of sending it"),
+      },
+      outputSchema: { delivery: deliverySchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      messageId,
+      body,
+      isHtml,
+      includeQuote,
+      saveAsDraft,
+      attachments,
+    }) => {
+      const original = await getOriginalMessage(messageId);
+      const { to } = replyRecipients(original, false);
+      const { text, delivery } = await deliverInThread(
+        {
+          to,
+          subject: prefixSubject(original.subject, "Re"),
+          ...asBody(
+            includeQuote
+              ? appendOriginal(body, isHtml, original, "quote")
+              : body,
+            isHtml
+          ),
+          attachments: await resolveAttachments(attachments),
+        },
+        original,
+        saveAsDraft
+      );
+      return structuredResult(`${text}\nTo: ${to.join(", ")}`, { delivery });
+    }
+  );
+
+  // Tool to reply to everyone on an email
+  server.registerTool(
+    "gmail_replyAll",
+    {
+      description:
+        "Reply to the sender and all other recipients of an email, keeping the reply in the same conversation. The user's own address is left out.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message to reply to"),
+        body: z.string().describe("Reply body content"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        attachments: attachmentsParam,
+        includeQuote: z
+          .boolean()
+          .default(true)
+          .describe("Quote the original message below the reply"),
+        saveAsDraft: z
+          .boolean()
+          .default(false)
+          .describe("Save the reply as a draft instead of sending it"),
+      },
+      outputSchema: { delivery: deliverySchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      messageId,
+      body,
+      isHtml,
+      includeQuote,
+      saveAsDraft,
+      attachments,
+    }) => {
+      const original = await getOriginalMessage(messageId);
+      const { to, cc } = replyRecipients(original, true);
+      const delivered = await deliverInThread(
+        {
+          to,
+          cc,
+          subject: prefixSubject(original.subject, "Re"),
+          ...asBody(
+            includeQuote
+              ? appendOriginal(body, isHtml, original, "quote")
+              : body,
+            isHtml
+          ),
+          attachments: await resolveAttachments(attachments),
+        },
+        original,
+        saveAsDraft
+      );
+      let text = `${delivered.text}\nTo: ${to.join(", ")}`;
+      if (cc.length > 0) text += `\nCc: ${cc.join(", ")}`;
+      return structuredResult(text, { delivery: delivered.delivery });
+    }
+  );
+
+  // Tool to forward an email
+  server.registerTool(
+    "gmail_forward",
+    {
+      description:
+        "Forward an email to new recipients, including the original message below an optional note.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message to forward"),
+        to: z
+          .array(z.string().email())
+          .min(1)
+          .describe("Primary recipient email addresses"),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe("CC recipient email addresses"),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe("BCC recipient email addresses"),
+        body: z
+          .string()
+          .default("")
+          .describe("Note to add above the forwarded message"),
+        isHtml: z
+          .boolean()
+          .default(false)
+          .describe("Set to true if the body is HTML content"),
+        attachments: attachmentsParam,
+        includeAttachments: z
+          .boolean()
+          .default(true)
+          .describe("Forward the attachments of the original message as well"),
+        saveAsDraft: z
+          .boolean()
+          .default(false)
+          .describe("Save the forward as a draft instead of sending it"),
+      },
+      outputSchema: { delivery: deliverySchema },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      messageId,
+      to,
+      cc,
+      bcc,
+      body,
+      isHtml,
+      attachments,
+      includeAttachments,
+      saveAsDraft,
+    }) => {
+      const original = await getOriginalMessage(messageId);
+      const { text, delivery } = await deliverInThread(
+        {
+          to,
+          cc,
+          bcc,
+          subject: prefixSubject(original.subject, "Fwd"),
+          ...asBody(appendOriginal(body, isHtml, original, "forward"), isHtml),
+          attachments: [
+            ...(includeAttachments ? await fetchAttachments(original) : []),
+            ...(await resolveAttachments(attachments)),
           ],
-        };
-      }
+        },
+        original,
+        saveAsDraft
+      );
+      return structuredResult(text, { delivery });
     }
   );
 
   // Tool to delete an email
-  server.tool(
+  server.registerTool(
     "gmail_deleteEmail",
-    "Delete an email (moves to trash by default).",
     {
-      messageId: z.string().describe("The ID of the email message to delete"),
-      permanently: z
-        .boolean()
-        .default(false)
-        .describe(
-          "Set to true to delete permanently instead of moving to trash"
-        ),
+      description: "Delete one or more emails (moves to trash by default).",
+      inputSchema: {
+        messageId: z
+          .string()
+          .optional()
+          .describe("The ID of the email message to delete"),
+        messageIds: z
+          .array(z.string())
+          .max(MAX_BULK_MESSAGES)
+          .optional()
+          .describe("IDs of several email messages to delete in one call"),
+        permanently: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Set to true to delete permanently instead of moving to trash; needs full Gmail access"
+          ),
+      },
+      outputSchema: { ...bulkResultShape, permanentlyDeleted: z.boolean() },
+      annotations: DESTRUCTIVE_TOOL,
     },
-    async ({ messageId, permanently }) => {
-      try {
-        const gmail = getGmailClient();
-        if (permanently) {
-          await gmail.users.messages.delete({ userId: "me", id: messageId });
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Message ${messageId} permanently deleted.`,
-              },
-            ],
-          };
-        } else {
-          await gmail.users.messages.trash({ userId: "me", id: messageId });
-          return {
-            content: [
-              { type: "text", text: `Message ${messageId} moved to trash.` },
-            ],
-          };
-        }
-      } catch (error: any) {
-        if (error.code === 404) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Message ID ${messageId} not found.`,
-              },
-            ],
-          };
-        }
-        console.error(`Error deleting message ${messageId}:`, error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deleting message ${messageId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
+    async ({ messageId, messageIds, permanently }) => {
+      const ids = collectMessageIds(messageId, messageIds);
+      if (
+        permanently &&
+        !hasAnyScope(tokenManager.props.scopes, GMAIL_DELETE_SCOPES)
+      ) {
+        throw new ToolError(
+          "INSUFFICIENT_SCOPE",
+          "Deleting email permanently needs full Gmail access (https://mail.google.com/), which this server does not request.",
+          "Call again without permanently to move the messages to trash; Gmail deletes them for good after 30 days."
+        );
+      }
+      if (ids.length > 1) {
+        const responses = await gmailBatch(
+          ids.map((id) =>
+            permanently
+              ? {
+                  method: "DELETE",
+                  path: `${GMAIL_MESSAGES_PATH}/${encodeURIComponent(id)}`,
+                }
+              : {
+                  method: "POST",
+                  path: `${GMAIL_MESSAGES_PATH}/${encodeURIComponent(
+                    id
+                  )}/trash`,
+                }
+          )
+        );
+        const action = permanently ? "permanently deleted" : "moved to trash";
+        const { text, result } = summarizeBulkResult(ids, responses, action);
+        return structuredResult(text, {
+          ...result,
+          permanentlyDeleted: permanently,
+        });
+      }
+
+      const gmail = getGmailClient();
+      const result = {
+        succeeded: ids,
+        failed: [],
+        permanentlyDeleted: permanently,
+      };
+      if (permanently) {
+        await gmail.users.messages.delete({ userId: "me", id: ids[0] });
+        return structuredResult(
+          `Message ${ids[0]} permanently deleted.`,
+          result
+        );
+      } else {
+        await gmail.users.messages.trash({ userId: "me", id: ids[0] });
+        return structuredResult(`Message ${ids[0]} moved to trash.`, result);
       }
     }
   );
 
   // Tool to modify email labels
-  server.tool(
+  server.registerTool(
     "gmail_modifyLabels",
-    "Add or remove labels from an email.",
     {
-      messageId: z.string().describe("The ID of the email message to modify"),
-      addLabelIds: z
-        .array(z.string())
-        .optional()
-        .describe("List of label IDs to add (e.g., ['UNREAD', 'IMPORTANT'])"),
-      removeLabelIds: z
-        .array(z.string())
-        .optional()
-        .describe("List of label IDs to remove (e.g., ['INBOX'])"),
+      description: "Add or remove labels from one or more emails.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .optional()
+          .describe("The ID of the email message to modify"),
+        messageIds: z
+          .array(z.string())
+          .max(MAX_BULK_MESSAGES)
+          .optional()
+          .describe("IDs of several email messages to modify in one call"),
+        addLabelIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Labels to add, as names or IDs (e.g., ['UNREAD', 'Clients/Acme'])"
+          ),
+        removeLabelIds: z
+          .array(z.string())
+          .optional()
+          .describe("Labels to remove, as names or IDs (e.g., ['INBOX'])"),
+      },
+      outputSchema: bulkResultShape,
+      annotations: ADDITIVE_TOOL,
     },
-    async ({ messageId, addLabelIds, removeLabelIds }) => {
-      try {
-        if (!addLabelIds && !removeLabelIds) {
-          return {
-            content: [
-              { type: "text", text: "No labels specified to add or remove." },
-            ],
-          };
-        }
+    async ({ messageId, messageIds, addLabelIds, removeLabelIds }) => {
+      if (!addLabelIds && !removeLabelIds) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "No labels specified to add or remove."
+        );
+      }
+      const ids = collectMessageIds(messageId, messageIds);
+      const requestBody = await resolveLabelChanges(
+        addLabelIds,
+        removeLabelIds
+      );
+
+      let result: string;
+      let bulkResult: BulkResult;
+      if (ids.length > 1) {
+        const responses = await gmailBatch(
+          ids.map((id) => ({
+            method: "POST",
+            path: `${GMAIL_MESSAGES_PATH}/${encodeURIComponent(id)}/modify`,
+            body: requestBody,
+          }))
+        );
+        const summary = summarizeBulkResult(
+          ids,
+          responses,
+          "had their labels modified"
+        );
+        result = summary.text;
+        bulkResult = summary.result;
+      } else {
         const gmail = getGmailClient();
         await gmail.users.messages.modify({
           userId: "me",
-          id: messageId,
-          requestBody: {
-            addLabelIds: addLabelIds || [],
-            removeLabelIds: removeLabelIds || [],
-          },
+          id: ids[0],
+          requestBody,
         });
+        result = `Successfully modified labels for message ${ids[0]}.`;
+        bulkResult = { succeeded: ids, failed: [] };
+      }
 
-        let result = `Successfully modified labels for message ${messageId}.`;
-        if (addLabelIds && addLabelIds.length > 0)
-          result += `\nAdded: ${addLabelIds.join(", ")}`;
-        if (removeLabelIds && removeLabelIds.length > 0)
-          result += `\nRemoved: ${removeLabelIds.join(", ")}`;
+      if (addLabelIds && addLabelIds.length > 0)
+        result += `\nAdded: ${addLabelIds.join(", ")}`;
+      if (removeLabelIds && removeLabelIds.length > 0)
+        result += `\nRemoved: ${removeLabelIds.join(", ")}`;
 
-        return { content: [{ type: "text", text: result }] };
-      } catch (error: any) {
-        if (error.code === 404) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Message ID ${messageId} not found.`,
-              },
-            ],
-          };
+      return structuredResult(result, bulkResult);
+    }
+  );
+
+  // Tool to apply changes to every message matching a query
+  server.registerTool(
+    "gmail_bulkModify",
+    {
+      description:
+        "Archive, mark read, label or trash every email matching a Gmail search query. The first call only previews how many messages match; call again with the same arguments and the confirmationToken it returns to apply the changes.",
+      inputSchema: {
+        query: z
+          .string()
+          .min(1)
+          .describe(
+            "Search query (same format as Gmail search, e.g., 'from:newsletter@example.com older_than:30d')"
+          ),
+        archive: z
+          .boolean()
+          .optional()
+          .describe("Remove the messages from the inbox"),
+        markRead: z
+          .boolean()
+          .optional()
+          .describe("Mark as read (true) or unread (false)"),
+        addLabels: z
+          .array(z.string())
+          .optional()
+          .describe("Labels to add, as names or IDs"),
+        removeLabels: z
+          .array(z.string())
+          .optional()
+          .describe("Labels to remove, as names or IDs"),
+        trash: z.boolean().optional().describe("Move the messages to trash"),
+        maxMessages: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_QUERY_MESSAGES)
+          .default(500)
+          .describe(
+            "Cap on the number of messages changed; the newest matches are changed first"
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            "Token returned by the preview of the same query and changes. Required to apply them"
+          ),
+      },
+      outputSchema: {
+        query: z.string(),
+        matched: z
+          .number()
+          .describe("Messages matching the query, up to maxMessages"),
+        capped: z
+          .boolean()
+          .describe("More messages match than maxMessages allows"),
+        applied: z
+          .boolean()
+          .describe("False for a preview, where nothing was changed"),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            "Pass back with the same arguments to apply the previewed changes"
+          ),
+        changed: z.number().optional(),
+        failures: z.array(z.string()).optional(),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({
+      query,
+      archive,
+      markRead,
+      addLabels = [],
+      removeLabels = [],
+      trash,
+      maxMessages,
+      confirmationToken,
+    }) => {
+      const removeIds = [...removeLabels];
+      const addIds = [...addLabels];
+      if (archive) removeIds.push("INBOX");
+      if (markRead === true) removeIds.push("UNREAD");
+      if (markRead === false) addIds.push("UNREAD");
+      if (trash) addIds.push("TRASH");
+      if (addIds.length === 0 && removeIds.length === 0) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "No changes specified. Set archive, markRead, addLabels, removeLabels or trash."
+        );
+      }
+      const requestBody = await resolveLabelChanges(addIds, removeIds);
+
+      // Page through every match, up to the cap
+      const gmail = getGmailClient();
+      const ids: string[] = [];
+      let pageToken: string | undefined;
+      let moreMatches = false;
+      do {
+        const response = await gmail.users.messages.list({
+          userId: "me",
+          q: query,
+          maxResults: Math.min(LIST_PAGE_SIZE, maxMessages - ids.length),
+          pageToken,
+        });
+        for (const message of response.data.messages || []) {
+          if (message.id) ids.push(message.id);
         }
-        console.error(
-          `Error modifying labels for message ${messageId}:`,
-          error
+        pageToken = response.data.nextPageToken || undefined;
+        moreMatches = !!pageToken && ids.length >= maxMessages;
+      } while (pageToken && ids.length < maxMessages);
+
+      const cappedNote = moreMatches
+        ? ` More messages match, but only the newest ${maxMessages} are changed; raise maxMessages (up to ${MAX_QUERY_MESSAGES}) or run the tool again afterwards for the rest.`
+        : "";
+      const matches = { query, matched: ids.length, capped: moreMatches };
+      if (ids.length === 0) {
+        return structuredResult(
+          `No messages match "${query}"; nothing to do.`,
+          { ...matches, applied: false }
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error modifying labels for message ${messageId}: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
       }
+      // The token confirms exactly this query, change and set of messages
+      const binding = {
+        query,
+        changes: requestBody,
+        messages: await digestMessageIds(ids),
+      };
+      if (!confirmationToken) {
+        const token = await confirmations.create("gmail_bulkModify", binding);
+        return structuredResult(
+          `Preview: ${ids.length} messages match "${query}".${cappedNote} Nothing was changed; call gmail_bulkModify again with the same arguments and confirmationToken: "${token}" to apply the changes.`,
+          { ...matches, applied: false, confirmationToken: token }
+        );
+      }
+      await confirmations.consume(
+        "gmail_bulkModify",
+        confirmationToken,
+        binding
+      );
+
+      let changed = 0;
+      const errors: string[] = [];
+      for (let i = 0; i < ids.length; i += MAX_BULK_MESSAGES) {
+        const chunk = ids.slice(i, i + MAX_BULK_MESSAGES);
+        try {
+          await gmail.users.messages.batchModify({
+            userId: "me",
+            requestBody: { ids: chunk, ...requestBody },
+          });
+          changed += chunk.length;
+        } catch (error) {
+          // Report what was already changed instead of failing outright
+          if (changed === 0) throw error;
+          const info = describeGoogleError(error, "Gmail");
+          errors.push(
+            `- messages ${i + 1}-${i + chunk.length} [${info.code}]: ${
+              info.message
+            }`
+          );
+        }
+      }
+
+      const action = [
+        archive ? "archived" : "",
+        markRead === true ? "marked read" : "",
+        markRead === false ? "marked unread" : "",
+        addLabels.length > 0 ? `labeled ${addLabels.join(", ")}` : "",
+        removeLabels.length > 0 ? `unlabeled ${removeLabels.join(", ")}` : "",
+        trash ? "moved to trash" : "",
+      ]
+        .filter(Boolean)
+        .join(", ");
+      let text = `${changed} of ${ids.length} messages matching "${query}" ${action}.${cappedNote}`;
+      if (errors.length > 0) text += `\nFailed:\n${errors.join("\n")}`;
+      return structuredResult(text, {
+        ...matches,
+        applied: true,
+        changed,
+        failures: errors.length > 0 ? errors : undefined,
+      });
     }
   );
 
   // Tool to list labels
-  server.tool(
+  server.registerTool(
     "gmail_listLabels",
-    "List all available Gmail labels.",
-    {}, // No parameters
+    {
+      description: "List all available Gmail labels.",
+      // No parameters
+      outputSchema: { labels: z.array(labelSchema) },
+      annotations: READ_ONLY_TOOL,
+    },
     async () => {
-      try {
-        const gmail = getGmailClient();
-        const response = await gmail.users.labels.list({ userId: "me" });
-        const labels = (response.data.labels || []).map((label) => ({
-          id: label.id,
-          name: label.name,
-          type: label.type, // 'system' or 'user'
-          messageListVisibility: label.messageListVisibility, // e.g., 'show', 'hide'
-          labelListVisibility: label.labelListVisibility, // e.g., 'labelShow', 'labelHide'
-        }));
+      const gmail = getGmailClient();
+      const response = await gmail.users.labels.list({ userId: "me" });
+      const labels = (response.data.labels || []).map(toLabelOutput);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Available Labels:\n${JSON.stringify(labels, null, 2)}`,
+      return structuredResult(
+        `Available Labels:\n${JSON.stringify(labels, null, 2)}`,
+        { labels }
+      );
+    }
+  );
+
+  // Tool to create a label
+  server.registerTool(
+    "gmail_createLabel",
+    {
+      description:
+        "Create a Gmail label. Use 'Parent/Child' names for nested labels; missing parent labels are created too.",
+      inputSchema: {
+        name: z.string().min(1).describe("Label name, e.g. 'Clients/Acme'"),
+        color: labelColorSchema.optional(),
+        labelListVisibility: z
+          .enum(["labelShow", "labelShowIfUnread", "labelHide"])
+          .optional()
+          .describe("Visibility of the label in the label list"),
+        messageListVisibility: z
+          .enum(["show", "hide"])
+          .optional()
+          .describe(
+            "Visibility of messages with this label in the message list"
+          ),
+      },
+      outputSchema: {
+        label: labelSchema,
+        createdParents: z
+          .array(z.string())
+          .describe("Parent labels that did not exist yet and were created"),
+      },
+      annotations: ADDITIVE_TOOL,
+    },
+    async ({ name, color, labelListVisibility, messageListVisibility }) => {
+      const gmail = getGmailClient();
+      const fullName = normalizeLabelName(name);
+      const existing = await gmail.users.labels.list({ userId: "me" });
+      const labels = existing.data.labels || [];
+      if (findLabel(labels, fullName)) {
+        throw new ToolError(
+          "CONFLICT",
+          `A label named "${fullName}" already exists.`,
+          "Use gmail_updateLabel to change it."
+        );
+      }
+
+      const createdParents: string[] = [];
+      for (const parent of parentLabelNames(fullName)) {
+        if (findLabel(labels, parent)) continue;
+        await gmail.users.labels.create({
+          userId: "me",
+          requestBody: { name: parent },
+        });
+        createdParents.push(parent);
+      }
+      const response = await gmail.users.labels.create({
+        userId: "me",
+        requestBody: {
+          name: fullName,
+          color,
+          labelListVisibility,
+          messageListVisibility,
+        },
+      });
+
+      let result = `Label "${response.data.name}" created. Label ID: ${response.data.id}`;
+      if (createdParents.length > 0) {
+        result += `\nAlso created parent labels: ${createdParents.join(", ")}`;
+      }
+      return structuredResult(result, {
+        label: toLabelOutput(response.data),
+        createdParents,
+      });
+    }
+  );
+
+  // Tool to rename or restyle a label
+  server.registerTool(
+    "gmail_updateLabel",
+    {
+      description:
+        "Rename a Gmail label or change its color and visibility. Renaming a parent label also renames the labels nested under it.",
+      inputSchema: {
+        label: z.string().describe("Name or ID of the label to update"),
+        newName: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("New label name, e.g. 'Clients/Acme Corp'"),
+        color: labelColorSchema.optional(),
+        labelListVisibility: z
+          .enum(["labelShow", "labelShowIfUnread", "labelHide"])
+          .optional()
+          .describe("Visibility of the label in the label list"),
+        messageListVisibility: z
+          .enum(["show", "hide"])
+          .optional()
+          .describe(
+            "Visibility of messages with this label in the message list"
+          ),
+      },
+      outputSchema: {
+        label: labelSchema,
+        renamedNested: z
+          .number()
+          .describe("Number of nested labels renamed along with it"),
+      },
+      annotations: ADDITIVE_TOOL,
+    },
+    async ({
+      label,
+      newName,
+      color,
+      labelListVisibility,
+      messageListVisibility,
+    }) => {
+      const gmail = getGmailClient();
+      const existing = await gmail.users.labels.list({ userId: "me" });
+      const labels = existing.data.labels || [];
+      const target = requireLabel(labels, label);
+
+      const renamedTo = newName ? normalizeLabelName(newName) : undefined;
+      const response = await gmail.users.labels.patch({
+        userId: "me",
+        id: target.id,
+        requestBody: {
+          name: renamedTo,
+          color,
+          labelListVisibility,
+          messageListVisibility,
+        },
+      });
+
+      let result = `Label "${response.data.name}" updated.`;
+      let renamedNested = 0;
+      if (renamedTo && renamedTo !== target.name) {
+        const children = childLabels(labels, target.name);
+        for (const child of children) {
+          await gmail.users.labels.patch({
+            userId: "me",
+            id: child.id!,
+            requestBody: {
+              name: renamedTo + child.name!.slice(target.name.length),
             },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error listing labels:", error);
+          });
+        }
+        if (children.length > 0) {
+          result += `\nAlso renamed ${children.length} nested labels.`;
+        }
+        renamedNested = children.length;
+      }
+      return structuredResult(result, {
+        label: toLabelOutput(response.data),
+        renamedNested,
+      });
+    }
+  );
+
+  // Tool to delete a label
+  server.registerTool(
+    "gmail_deleteLabel",
+    {
+      description:
+        "Delete a Gmail label. Messages keep existing but lose the label.",
+      inputSchema: {
+        label: z.string().describe("Name or ID of the label to delete"),
+        deleteNested: z
+          .boolean()
+          .default(false)
+          .describe("Also delete the labels nested under this one"),
+      },
+      outputSchema: {
+        deleted: z
+          .array(z.string())
+          .describe("Names of the deleted labels, nested ones first"),
+      },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ label, deleteNested }) => {
+      const gmail = getGmailClient();
+      const existing = await gmail.users.labels.list({ userId: "me" });
+      const labels = existing.data.labels || [];
+      const target = requireLabel(labels, label);
+
+      const nested = deleteNested ? childLabels(labels, target.name) : [];
+      // Delete the deepest labels first
+      for (const child of nested.sort(
+        (a, b) => b.name!.length - a.name!.length
+      )) {
+        await gmail.users.labels.delete({ userId: "me", id: child.id! });
+      }
+      await gmail.users.labels.delete({ userId: "me", id: target.id });
+
+      let result = `Label "${target.name}" deleted.`;
+      if (nested.length > 0) {
+        result += `\nAlso deleted ${nested.length} nested labels.`;
+      }
+      return structuredResult(result, {
+        deleted: [...nested.map((child) => child.name || ""), target.name],
+      });
+    }
+  );
+
+  // Tool to list conversations
+  server.registerTool(
+    "gmail_listThreads",
+    {
+      description:
+        "List email conversations (threads) with optional query and labels. Returns the subject, participants and message count of each thread.",
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe(
+            "Search query (same format as Gmail search, e.g., 'from:acme.com')"
+          ),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(10)
+          .describe("Maximum number of threads"),
+        labelIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Labels to filter by, as names or IDs (e.g., ['INBOX', 'Clients/Acme'])"
+          ),
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        threads: z.array(
+          z.object({
+            id: z.string(),
+            subject: z.string(),
+            participants: z.array(z.string()),
+            messageCount: z.number(),
+            lastDate: z.string(),
+            snippet: z.string(),
+          })
+        ),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ query, maxResults, labelIds, cursor }) => {
+      const gmail = getGmailClient();
+      const page = await cursors.resume("gmail_listThreads", cursor, {
+        q: query,
+        labelIds: cursor ? undefined : await resolveLabelIds(gmail, labelIds),
+      });
+      const threadList = await gmail.users.threads.list({
+        ...page.params,
+        userId: "me",
+        maxResults,
+        pageToken: page.pageToken,
+      });
+      const nextCursor = await cursors.create(
+        "gmail_listThreads",
+        page.params,
+        threadList.data.nextPageToken
+      );
+      const ids = (threadList.data.threads || [])
+        .map((thread) => thread.id)
+        .filter((id): id is string => !!id);
+      if (ids.length === 0) {
+        return structuredResult(
+          `No threads found matching the criteria.${describeNextPage(
+            nextCursor
+          )}`,
+          { threads: [], nextCursor }
+        );
+      }
+
+      const responses = await gmailBatch<gmail_v1.Schema$Thread>(
+        ids.map((id) => ({
+          method: "GET",
+          path: `${GMAIL_THREADS_PATH}/${encodeURIComponent(
+            id
+          )}?format=metadata&metadataHeaders=Subject&metadataHeaders=From&metadataHeaders=Date`,
+        }))
+      );
+      const threads = responses
+        .map((response, index) => {
+          if (response.status === 404) return null;
+          const messages = unwrapBatchResponse(response).messages || [];
+          const first = messages[0];
+          const last = messages[messages.length - 1];
+          const participants = Array.from(
+            new Set(
+              messages
+                .map((m) => getHeader(m.payload?.headers, "From"))
+                .filter((from): from is string => !!from)
+            )
+          );
+          return {
+            id: ids[index],
+            subject:
+              getHeader(first?.payload?.headers, "Subject") || "(No subject)",
+            participants,
+            messageCount: messages.length,
+            lastDate: getHeader(last?.payload?.headers, "Date") || "",
+            snippet: last?.snippet || "",
+          };
+        })
+        .filter((t) => t !== null);
+
+      const formattedResults = threads
+        .map(
+          (thread, index) =>
+            `[${index + 1}] Thread ID: ${thread.id}\nSubject: ${
+              thread.subject
+            }\nParticipants: ${thread.participants.join(", ")}\nMessages: ${
+              thread.messageCount
+            }\nLast message: ${thread.lastDate}\nSnippet: ${thread.snippet}`
+        )
+        .join("\n\n---\n\n");
+
+      return structuredResult(
+        `Found ${
+          threads.length
+        } threads:\n\n${formattedResults}${describeNextPage(nextCursor)}`,
+        { threads, nextCursor }
+      );
+    }
+  );
+
+  // Tool to read a whole conversation
+  server.registerTool(
+    "gmail_getThread",
+    {
+      description:
+        "Get all messages of an email conversation in chronological order, with sender, date, attachments and body of each message.",
+      inputSchema: {
+        threadId: z.string().describe("The ID of the thread to retrieve"),
+        stripQuotes: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Remove quoted text of earlier messages from replies, so each message only shows what its sender wrote"
+          ),
+      },
+      outputSchema: {
+        threadId: z.string(),
+        subject: z.string(),
+        messages: z.array(
+          z.object({
+            id: z.string(),
+            from: z.string(),
+            to: z.string(),
+            cc: z.string().optional(),
+            date: z.string(),
+            body: z
+              .string()
+              .describe(
+                `Message body, truncated after ${THREAD_BODY_LIMIT} characters`
+              ),
+            truncated: z.boolean(),
+            attachments: z.array(attachmentInfoSchema),
+          })
+        ),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ threadId, stripQuotes }) => {
+      const gmail = getGmailClient();
+      const response = await gmail.users.threads.get({
+        userId: "me",
+        id: threadId,
+        format: "full",
+      });
+      const messages = [...(response.data.messages || [])].sort(
+        (a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0)
+      );
+      if (messages.length === 0) {
+        return structuredResult(`Thread ${threadId} has no messages.`, {
+          threadId,
+          subject: "",
+          messages: [],
+        });
+      }
+
+      const subject =
+        getHeader(messages[0].payload?.headers, "Subject") || "(No subject)";
+      const parsedMessages = messages.map((message) => {
+        const headers = message.payload?.headers;
+        const date =
+          getHeader(headers, "Date") ||
+          (message.internalDate
+            ? new Date(parseInt(message.internalDate)).toISOString()
+            : "Unknown");
+        let body = message.payload ? findBody(message.payload) : "";
+        if (stripQuotes) body = stripQuotedReply(body);
         return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing labels: ${error.message || String(error)}`,
-            },
-          ],
+          id: message.id || "",
+          from: getHeader(headers, "From") || "",
+          to: getHeader(headers, "To") || "",
+          cc: getHeader(headers, "Cc"),
+          date,
+          body: body.substring(0, THREAD_BODY_LIMIT),
+          truncated: body.length > THREAD_BODY_LIMIT,
+          attachments: message.payload ? listAttachments(message.payload) : [],
         };
+      });
+      const formattedMessages = parsedMessages.map((message, index) => {
+        const { attachments } = message;
+        let text = `[${index + 1}] Message ID: ${message.id}\n`;
+        text += `From: ${message.from}\n`;
+        text += `To: ${message.to}\n`;
+        if (message.cc) text += `Cc: ${message.cc}\n`;
+        text += `Date: ${message.date}\n`;
+        if (attachments.length > 0) {
+          text += `Attachments: ${attachments
+            .map(
+              (a) =>
+                `${a.filename} (${a.mimeType}, ${a.size} bytes, ID: ${
+                  a.attachmentId || a.partId
+                })`
+            )
+            .join(", ")}\n`;
+        }
+        text += `\n${message.body}${
+          message.truncated ? "... (truncated)" : ""
+        }`;
+        return text;
+      });
+
+      return structuredResult(
+        `Thread: ${subject}\nThread ID: ${threadId}\nMessages: ${
+          messages.length
+        }\n\n${formattedMessages.join("\n\n---\n\n")}`,
+        {
+          threadId,
+          subject,
+          messages: parsedMessages,
+        }
+      );
+    }
+  );
+
+  // Tool to modify the labels of a whole conversation
+  server.registerTool(
+    "gmail_modifyThread",
+    {
+      description:
+        "Add or remove labels from every message in an email conversation.",
+      inputSchema: {
+        threadId: z.string().describe("The ID of the thread to modify"),
+        addLabelIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Labels to add, as names or IDs (e.g., ['IMPORTANT', 'Clients/Acme'])"
+          ),
+        removeLabelIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Labels to remove, as names or IDs (e.g., ['INBOX', 'UNREAD'])"
+          ),
+      },
+      outputSchema: { threadId: z.string() },
+      annotations: ADDITIVE_TOOL,
+    },
+    async ({ threadId, addLabelIds, removeLabelIds }) => {
+      if (!addLabelIds && !removeLabelIds) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "No labels specified to add or remove."
+        );
       }
+      const gmail = getGmailClient();
+      await gmail.users.threads.modify({
+        userId: "me",
+        id: threadId,
+        requestBody: await resolveLabelChanges(addLabelIds, removeLabelIds),
+      });
+
+      let result = `Successfully modified labels for thread ${threadId}.`;
+      if (addLabelIds && addLabelIds.length > 0)
+        result += `\nAdded: ${addLabelIds.join(", ")}`;
+      if (removeLabelIds && removeLabelIds.length > 0)
+        result += `\nRemoved: ${removeLabelIds.join(", ")}`;
+
+      return structuredResult(result, { threadId });
+    }
+  );
+
+  // Tool to move a whole conversation to the trash
+  server.registerTool(
+    "gmail_trashThread",
+    {
+      description: "Move every message in an email conversation to the trash.",
+      inputSchema: {
+        threadId: z.string().describe("The ID of the thread to trash"),
+      },
+      outputSchema: { threadId: z.string() },
+      annotations: DESTRUCTIVE_TOOL,
+    },
+    async ({ threadId }) => {
+      const gmail = getGmailClient();
+      await gmail.users.threads.trash({ userId: "me", id: threadId });
+      return structuredResult(`Thread ${threadId} moved to trash.`, {
+        threadId,
+      });
+    }
+  );
+
+  // Tool to read an attachment
+  server.registerTool(
+    "gmail_getAttachment",
+    {
+      description:
+        "Get the content of an email attachment. Text-based files are returned as text, images as images and other files as embedded resources.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message with the attachment"),
+        attachmentId: z
+          .string()
+          .describe("The attachment ID listed by gmail_getEmail"),
+      },
+      outputSchema: {
+        attachment: z.object({
+          filename: z.string(),
+          mimeType: z.string(),
+          size: z.number().describe("Size in bytes"),
+          partId: z.string(),
+        }),
+        text: z
+          .string()
+          .optional()
+          .describe(
+            "Content of text-based files; other files are returned as image or resource content"
+          ),
+      },
+      annotations: READ_ONLY_TOOL,
+    },
+    async ({ messageId, attachmentId }) => {
+      const attachment = await downloadAttachment(
+        getGmailClient(),
+        messageId,
+        attachmentId
+      );
+      const summary = `Attachment: ${attachment.filename} (${attachment.mimeType}, ${attachment.data.length} bytes)`;
+      const info = {
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.data.length,
+        partId: attachment.partId,
+      };
+
+      if (isTextMimeType(attachment.mimeType)) {
+        const text = attachment.data.toString("utf8");
+        const returned = text.substring(0, MAX_ATTACHMENT_TEXT_LENGTH);
+        return structuredResult(
+          `${summary}\n\nContent:\n${returned}${
+            text.length > MAX_ATTACHMENT_TEXT_LENGTH ? "... (truncated)" : ""
+          }`,
+          { attachment: info, text: returned }
+        );
+      }
+      if (attachment.data.length > MAX_RETURNED_ATTACHMENT_BYTES) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `${attachment.filename} is ${attachment.data.length} bytes, too large to return directly.`,
+          "Use gmail_saveAttachmentToDrive to save it to Google Drive instead."
+        );
+      }
+
+      const blob = attachment.data.toString("base64");
+      return {
+        content: [
+          { type: "text", text: summary },
+          attachment.mimeType.startsWith("image/")
+            ? { type: "image", data: blob, mimeType: attachment.mimeType }
+            : {
+                type: "resource",
+                resource: {
+                  uri: `gmail://messages/${encodeURIComponent(
+                    messageId
+                  )}/attachments/${encodeURIComponent(
+                    attachment.partId || attachmentId
+                  )}`,
+                  mimeType: attachment.mimeType,
+                  blob,
+                },
+              },
+        ],
+        structuredContent: { attachment: info },
+      };
+    }
+  );
+
+  // Tool to save an attachment to Google Drive
+  server.registerTool(
+    "gmail_saveAttachmentToDrive",
+    {
+      description:
+        "Save an email attachment as a new file in Google Drive. Requires Drive access.",
+      inputSchema: {
+        messageId: z
+          .string()
+          .describe("The ID of the email message with the attachment"),
+        attachmentId: z
+          .string()
+          .describe("The attachment ID listed by gmail_getEmail"),
+        folderId: z
+          .string()
+          .optional()
+          .describe("ID of the Drive folder to save the file in"),
+        name: z
+          .string()
+          .optional()
+          .describe("File name in Drive (defaults to the attachment's name)"),
+      },
+      outputSchema: {
+        file: z.object({
+          id: z.string(),
+          name: z.string().optional(),
+          mimeType: z.string().optional(),
+          webViewLink: z.string().optional(),
+        }),
+      },
+      annotations: ADDITIVE_TOOL,
+    },
+    async ({ messageId, attachmentId, folderId, name }) => {
+      if (!hasAnyScope(tokenManager.props.scopes, DRIVE_WRITE_SCOPES)) {
+        throw new ToolError(
+          "INSUFFICIENT_SCOPE",
+          "Saving attachments needs write access to Google Drive, which was not granted.",
+          "Re-authorize the MCP client and grant Google Drive access."
+        );
+      }
+      const attachment = await downloadAttachment(
+        getGmailClient(),
+        messageId,
+        attachmentId
+      );
+      const drive = google.drive({
+        version: "v3",
+        auth: tokenManager.getClient(),
+      });
+      const file = await uploadDriveFile(drive, {
+        name: name || attachment.filename,
+        mimeType: attachment.mimeType,
+        data: attachment.data,
+        folderId,
+      });
+      return structuredResult(
+        `Saved ${attachment.filename} to Drive as '${file.name}'\nID: ${
+          file.id
+        }\nLink: ${file.webViewLink || "N/A"}`,
+        {
+          file: {
+            id: file.id || "",
+            name: file.name ?? undefined,
+            mimeType: file.mimeType ?? undefined,
+            webViewLink: file.webViewLink ?? undefined,
+          },
+        }
+      );
     }
   );
 }
@@ -1,21 +1,87 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { Props } from "../utils/upstream-utils";
-import { registerGmailTools } from "./gmail";
-import { registerCalendarTools } from "./calendar";
-import { registerDriveTools } from "./drive";
-import { registerTasksTools } from "./tasks";
-import { registerContactsTools } from "./contacts";
-import { registerYouTubeTools } from "./youtube";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { ConfirmationStore } from "../utils/confirmations";
+import { CursorStore } from "../utils/cursors";
+import { MeetingProposalStore } from "../utils/meeting-proposals";
+import {
+  createToolRegistrar,
+  meetsScopeRequirement,
+  ToolScopes,
+} from "./registry";
+import { gmailToolScopes, registerGmailTools } from "./gmail";
+import {
+  gmailSettingsToolScopes,
+  registerGmailSettingsTools,
+} from "./gmail-settings";
+import { calendarToolScopes, registerCalendarTools } from "./calendar";
+import {
+  calendarSchedulingToolScopes,
+  registerCalendarSchedulingTools,
+} from "./calendar-scheduling";
+import {
+  calendarInvitationToolScopes,
+  registerCalendarInvitationTools,
+} from "./calendar-invitations";
+import { driveToolScopes, registerDriveTools } from "./drive";
+import { registerTasksTools, tasksToolScopes } from "./tasks";
+import { contactsToolScopes, registerContactsTools } from "./contacts";
+import { registerYouTubeTools, youtubeToolScopes } from "./youtube";
+
+const TOOL_SCOPES: ToolScopes = {
+  ...gmailToolScopes,
+  ...gmailSettingsToolScopes,
+  ...calendarToolScopes,
+  ...calendarSchedulingToolScopes,
+  ...calendarInvitationToolScopes,
+  ...driveToolScopes,
+  ...tasksToolScopes,
+  ...contactsToolScopes,
+  ...youtubeToolScopes,
+};
+
+/**
+ * Options controlling which tools are exposed
+ */
+export interface RegisterToolsOptions {
+  /**
+   * Expose only tools annotated as read-only
+   */
+  readOnly?: boolean;
+}
 
 /**
- * Registers all Google MCP tools with the server
+ * Registers all Google MCP tools with the server. Only tools covered by the
+ * scopes the user granted during authorization are exposed, and in read-only
+ * mode every tool that can modify data is skipped.
  */
-export function registerAllTools(server: McpServer, props: Props) {
+export function registerAllTools(
+  server: McpServer,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore,
+  proposals: MeetingProposalStore,
+  confirmations: ConfirmationStore,
+  options: RegisterToolsOptions = {}
+) {
+  const grantedScopes = tokenManager.props.scopes;
+  const registrar = createToolRegistrar(server, (name, annotations) => {
+    if (options.readOnly && annotations?.readOnlyHint !== true) return false;
+    const required = TOOL_SCOPES[name];
+    if (!required) {
+      // Fail closed: a tool nobody assigned scopes to is never exposed
+      console.error(`Tool ${name} has no entry in TOOL_SCOPES; skipping it.`);
+      return false;
+    }
+    return meetsScopeRequirement(grantedScopes, required);
+  });
+
   // Register individual tool categories
-  registerGmailTools(server, props);
-  registerCalendarTools(server, props);
-  registerDriveTools(server, props);
-  registerTasksTools(server, props);
-  registerContactsTools(server, props);
-  registerYouTubeTools(server, props);
+  registerGmailTools(registrar, tokenManager, cursors, confirmations);
+  registerGmailSettingsTools(registrar, tokenManager);
+  registerCalendarTools(registrar, tokenManager, cursors);
+  registerCalendarSchedulingTools(registrar, tokenManager, proposals);
+  registerCalendarInvitationTools(registrar, tokenManager);
+  registerDriveTools(registrar, tokenManager, cursors);
+  registerTasksTools(registrar, tokenManager, cursors);
+  registerContactsTools(registrar, tokenManager, cursors);
+  registerYouTubeTools(registrar, tokenManager, cursors);
 }
@@ -0,0 +1,164 @@
+import {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  CallToolResult,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { describeGoogleError } from "../utils/google-errors";
+import { hasAnyScope, SERVICE_SCOPE_CHOICES } from "../utils/scopes";
+
+/**
+ * Annotations for tools that only read data
+ */
+export const READ_ONLY_TOOL: ToolAnnotations = { readOnlyHint: true };
+
+/**
+ * Annotations for tools that create or add data without overwriting anything
+ */
+export const ADDITIVE_TOOL: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+};
+
+/**
+ * Annotations for tools that delete, overwrite or send data
+ */
+export const DESTRUCTIVE_TOOL: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+};
+
+/**
+ * Parameter of every list tool for fetching the next page
+ */
+export const cursorParam = z
+  .string()
+  .optional()
+  .describe(
+    "Cursor returned by a previous call, to get the next page. The other parameters of that call are reused; only the page size can change"
+  );
+
+/**
+ * Output field of every list tool holding the cursor of the next page
+ */
+export const nextCursorOutput = z
+  .string()
+  .optional()
+  .describe("Pass as `cursor` to get the next page; absent on the last page");
+
+/**
+ * Scopes a tool needs: any one scope of a list, or with `allOf`, one scope
+ * from each of several lists (for tools that use more than one service)
+ */
+export type ScopeRequirement =
+  | readonly string[]
+  | { allOf: readonly (readonly string[])[] };
+
+/**
+ * Scopes that unlock each tool, keyed by tool name. Tools without an entry
+ * are never exposed.
+ */
+export type ToolScopes = Record<string, ScopeRequirement>;
+
+/**
+ * Checks whether the granted scopes meet a tool's scope requirement.
+ */
+export function meetsScopeRequirement(
+  granted: string[] | undefined,
+  required: ScopeRequirement
+): boolean {
+  return "allOf" in required
+    ? required.allOf.every((scopes) => hasAnyScope(granted, scopes))
+    : hasAnyScope(granted, required);
+}
+
+/**
+ * The part of McpServer the tool modules register against
+ */
+export type ToolRegistrar = Pick<McpServer, "registerTool">;
+
+type ToolHandler = (...args: unknown[]) => Promise<CallToolResult>;
+
+/**
+ * Builds the MCP error result for a failed tool call. The text is meant for
+ * the model; `_meta.error` carries the same details for programmatic clients.
+ *
+ * @param name - Name of the tool that failed, e.g. "gmail_listEmails".
+ * @param error - The thrown value.
+ */
+export function toolErrorResult(name: string, error: unknown): CallToolResult {
+  const service = SERVICE_SCOPE_CHOICES.find(
+    (choice) => choice.id === name.split("_")[0]
+  );
+  const info = describeGoogleError(error, service?.label);
+  let text = `Error in ${name} [${info.code}]: ${info.message}`;
+  if (info.reason) text += `\nReason: ${info.reason}`;
+  text += `\nHint: ${info.hint}`;
+  return {
+    isError: true,
+    content: [{ type: "text", text }],
+    _meta: { error: info },
+  };
+}
+
+/**
+ * Builds a successful tool result carrying both readable text for the model
+ * and `structuredContent` matching the tool's output schema.
+ */
+export function structuredResult<T extends Record<string, unknown>>(
+  text: string,
+  structuredContent: T
+) {
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent,
+  };
+}
+
+/**
+ * Wraps an McpServer so that tools rejected by `isAllowed` never show up in
+ * tools/list and cannot be called. The tool modules keep calling
+ * `registerTool()` exactly as they would on the server itself, declaring
+ * their annotations and output schema in the config.
+ *
+ * Handlers do not need their own error handling: anything they throw is
+ * logged and turned into an `isError` result by toolErrorResult, which the
+ * SDK does not check against the output schema.
+ *
+ * @param server - The server to register tools on.
+ * @param isAllowed - Decides whether a tool is exposed, given its name and annotations.
+ * @returns A registrar with the same `registerTool()` signature as McpServer.
+ */
+export function createToolRegistrar(
+  server: McpServer,
+  isAllowed: (name: string, annotations?: ToolAnnotations) => boolean
+): ToolRegistrar {
+  const registerTool = (
+    name: string,
+    config: { annotations?: ToolAnnotations },
+    handler: ToolHandler
+  ): RegisteredTool => {
+    const registered = (
+      server.registerTool as (
+        name: string,
+        config: object,
+        cb: ToolHandler
+      ) => RegisteredTool
+    ).call(server, name, config, async (...args: unknown[]) => {
+      try {
+        return await handler(...args);
+      } catch (error) {
+        console.error(`Error in ${name}:`, error);
+        return toolErrorResult(name, error);
+      }
+    });
+    // Registering first keeps argument parsing in the SDK; the tool is
+    // dropped again before the server is connected to any transport.
+    if (!isAllowed(name, config.annotations)) registered.remove();
+    return registered;
+  };
+  return { registerTool: registerTool as McpServer["registerTool"] };
+}
@@ -1,174 +1,196 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Props } from "../utils/upstream-utils";
+import { GoogleTokenManager } from "../utils/token-manager";
+import { SCOPES } from "../utils/scopes";
+import {
+  cursorParam,
+  nextCursorOutput,
+  READ_ONLY_TOOL,
+  structuredResult,
+  ToolRegistrar,
+  ToolScopes,
+} from "./registry";
 import { google, youtube_v3 } from "googleapis";
+import { CursorStore, describeNextPage } from "../utils/cursors";
+import { ToolError } from "../utils/google-errors";
+
+const YOUTUBE_SCOPES = [SCOPES.YOUTUBE_READONLY];
+
+/**
+ * Scopes that unlock each YouTube tool
+ */
+export const youtubeToolScopes: ToolScopes = {
+  youtube_searchVideos: YOUTUBE_SCOPES,
+  youtube_getVideoDetails: YOUTUBE_SCOPES,
+};
+
+const videoSummarySchema = z.object({
+  videoId: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  channelTitle: z.string().optional(),
+  publishedAt: z.string().optional(),
+  link: z.string(),
+});
+
+const videoDetailsSchema = videoSummarySchema.extend({
+  duration: z
+    .string()
+    .optional()
+    .describe("ISO 8601 duration, e.g. 'PT15M33S'"),
+  viewCount: z.string().optional(),
+  likeCount: z.string().optional(),
+  commentCount: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
 
 /**
  * Registers YouTube Data API v3 related tools with the MCP server
  */
-export function registerYouTubeTools(server: McpServer, props: Props) {
+export function registerYouTubeTools(
+  server: ToolRegistrar,
+  tokenManager: GoogleTokenManager,
+  cursors: CursorStore
+) {
   const getYouTubeClient = () => {
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: props.accessToken });
-    return google.youtube({ version: "v3", auth });
+    return google.youtube({
+      version: "v3",
+      auth: tokenManager.getClient(),
+    });
   };
 
   // Tool to search for videos
-  server.tool(
+  server.registerTool(
     "youtube_searchVideos",
-    "Search for YouTube videos based on a query.",
     {
-      query: z.string().min(1).describe("The search query term(s)"),
-      maxResults: z
-        .number()
-        .int()
-        .min(1)
-        .max(50)
-        .default(5)
-        .describe("Maximum number of results to return (1-50)"),
-      order: z
-        .enum([
-          "date",
-          "rating",
-          "relevance",
-          "title",
-          "videoCount",
-          "viewCount",
-        ])
-        .default("relevance")
-        .describe("Sort order for results"),
-      videoType: z
-        .enum(["any", "episode", "movie"])
-        .default("any")
-        .describe("Filter by video type"),
-      // Add more filters like regionCode, relevanceLanguage etc. if needed
+      description: "Search for YouTube videos based on a query.",
+      inputSchema: {
+        query: z.string().min(1).describe("The search query term(s)"),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(5)
+          .describe("Maximum number of results to return (1-50)"),
+        order: z
+          .enum([
+            "date",
+            "rating",
+            "relevance",
+            "title",
+            "videoCount",
+            "viewCount",
+          ])
+          .default("relevance")
+          .describe("Sort order for results"),
+        videoType: z
+          .enum(["any", "episode", "movie"])
+          .default("any")
+          .describe("Filter by video type"),
+        // Add more filters like regionCode, relevanceLanguage etc. if needed
+        cursor: cursorParam,
+      },
+      outputSchema: {
+        videos: z.array(videoSummarySchema),
+        nextCursor: nextCursorOutput,
+      },
+      annotations: READ_ONLY_TOOL,
     },
-    async ({ query, maxResults, order, videoType }) => {
-      try {
-        const youtube = getYouTubeClient();
-        const params: youtube_v3.Params$Resource$Search$List = {
-          part: ["snippet"], // Basic part including title, description, channelId, etc.
-          q: query,
-          maxResults,
-          order,
-          type: ["video"], // Search only for videos
-          videoType,
-        };
+    async ({ query, maxResults, order, videoType, cursor }) => {
+      const youtube = getYouTubeClient();
+      const params: youtube_v3.Params$Resource$Search$List = {
+        part: ["snippet"], // Basic part including title, description, channelId, etc.
+        q: query,
+        order,
+        type: ["video"], // Search only for videos
+        videoType,
+      };
 
-        const response = await youtube.search.list(params);
+      const page = await cursors.resume("youtube_searchVideos", cursor, params);
+      const response = await youtube.search.list({
+        ...page.params,
+        maxResults,
+        pageToken: page.pageToken,
+      });
+      const nextCursor = await cursors.create(
+        "youtube_searchVideos",
+        page.params,
+        response.data.nextPageToken
+      );
 
-        if (!response.data.items || response.data.items.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "No YouTube videos found matching the query.",
-              },
-            ],
-          };
-        }
+      if (!response.data.items || response.data.items.length === 0) {
+        return structuredResult("No YouTube videos found matching the query.", {
+          videos: [],
+        });
+      }
 
-        const results = response.data.items.map((item) => ({
-          videoId: item.id?.videoId,
-          title: item.snippet?.title,
-          description: item.snippet?.description,
-          channelTitle: item.snippet?.channelTitle,
-          publishedAt: item.snippet?.publishedAt,
-          link: item.id?.videoId
-            ? `https://www.youtube.com/watch?v=${item.id.videoId}`
-            : "N/A",
-        }));
+      const results = response.data.items.map((item) => ({
+        videoId: item.id?.videoId ?? undefined,
+        title: item.snippet?.title ?? undefined,
+        description: item.snippet?.description ?? undefined,
+        channelTitle: item.snippet?.channelTitle ?? undefined,
+        publishedAt: item.snippet?.publishedAt ?? undefined,
+        link: item.id?.videoId
+          ? `https://www.youtube.com/watch?v=${item.id.videoId}`
+          : "N/A",
+      }));
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `YouTube Search Results for "${query}":\n${JSON.stringify(
-                results,
-                null,
-                2
-              )}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error("Error searching YouTube videos:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error searching YouTube: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `YouTube Search Results for "${page.params.q}":\n${JSON.stringify(
+          results,
+          null,
+          2
+        )}${describeNextPage(nextCursor)}`,
+        { videos: results, nextCursor }
+      );
     }
   );
 
   // Tool to get video details
-  server.tool(
+  server.registerTool(
     "youtube_getVideoDetails",
-    "Get detailed information about a specific YouTube video.",
     {
-      videoId: z.string().min(1).describe("The ID of the YouTube video"),
+      description: "Get detailed information about a specific YouTube video.",
+      inputSchema: {
+        videoId: z.string().min(1).describe("The ID of the YouTube video"),
+      },
+      outputSchema: { video: videoDetailsSchema },
+      annotations: READ_ONLY_TOOL,
     },
     async ({ videoId }) => {
-      try {
-        const youtube = getYouTubeClient();
-        const response = await youtube.videos.list({
-          part: ["snippet", "contentDetails", "statistics"], // Request comprehensive details
-          id: [videoId],
-        });
+      const youtube = getYouTubeClient();
+      const response = await youtube.videos.list({
+        part: ["snippet", "contentDetails", "statistics"], // Request comprehensive details
+        id: [videoId],
+      });
 
-        if (!response.data.items || response.data.items.length === 0) {
-          return {
-            content: [
-              { type: "text", text: `Video with ID ${videoId} not found.` },
-            ],
-          };
-        }
+      if (!response.data.items || response.data.items.length === 0) {
+        throw new ToolError(
+          "NOT_FOUND",
+          `Video with ID ${videoId} not found.`,
+          "Check the video ID, e.g. with youtube_searchVideos."
+        );
+      }
 
-        const video = response.data.items[0];
-        const details = {
-          title: video.snippet?.title,
-          description: video.snippet?.description,
-          channelTitle: video.snippet?.channelTitle,
-          publishedAt: video.snippet?.publishedAt,
-          duration: video.contentDetails?.duration, // ISO 8601 duration format (e.g., PT15M33S)
-          viewCount: video.statistics?.viewCount,
-          likeCount: video.statistics?.likeCount,
-          commentCount: video.statistics?.commentCount,
-          tags: video.snippet?.tags,
-          link: `https://www.youtube.com/watch?v=${videoId}`,
-        };
+      const video = response.data.items[0];
+      const details = {
+        videoId,
+        title: video.snippet?.title ?? undefined,
+        description: video.snippet?.description ?? undefined,
+        channelTitle: video.snippet?.channelTitle ?? undefined,
+        publishedAt: video.snippet?.publishedAt ?? undefined,
+        duration: video.contentDetails?.duration ?? undefined, // ISO 8601 duration format (e.g., PT15M33S)
+        viewCount: video.statistics?.viewCount ?? undefined,
+        likeCount: video.statistics?.likeCount ?? undefined,
+        commentCount: video.statistics?.commentCount ?? undefined,
+        tags: video.snippet?.tags ?? undefined,
+        link: `https://www.youtube.com/watch?v=${videoId}`,
+      };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Video Details (ID: ${videoId}):\n${JSON.stringify(
-                details,
-                null,
-                2
-              )}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        console.error(`Error getting video details for ${videoId}:`, error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting video details: ${
-                error.message || String(error)
-              }`,
-            },
-          ],
-        };
-      }
+      return structuredResult(
+        `Video Details (ID: ${videoId}):\n${JSON.stringify(details, null, 2)}`,
+        { video: details }
+      );
     }
   );
 
@@ -0,0 +1,72 @@
+import { ToolError } from "./google-errors";
+import { TtlStorage, TtlStore } from "./ttl-store";
+
+const CONFIRMATION_STORAGE_PREFIX = "confirmation:";
+// A preview is only good for a short while before the data may have changed
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+
+interface StoredConfirmation {
+  tool: string;
+  /** JSON of what the preview showed, compared on confirmation */
+  binding: string;
+}
+
+/**
+ * Keeps the previews of destructive tools in Durable Object storage. A
+ * preview hands out a random token bound to exactly what it showed (e.g.
+ * the query, the change and the matched messages); the change is only
+ * applied when the token comes back with the same binding, once.
+ */
+export class ConfirmationStore {
+  private readonly confirmations: TtlStore<StoredConfirmation>;
+
+  constructor(storage: TtlStorage, ttlMs = CONFIRMATION_TTL_MS) {
+    this.confirmations = new TtlStore(
+      storage,
+      CONFIRMATION_STORAGE_PREFIX,
+      ttlMs
+    );
+  }
+
+  /**
+   * Stores a preview.
+   *
+   * @param tool - Name of the tool, e.g. "gmail_bulkModify".
+   * @param binding - What the preview showed; must be JSON-serializable.
+   * @returns The token to confirm the preview with.
+   */
+  async create(tool: string, binding: unknown): Promise<string> {
+    const token = crypto.randomUUID();
+    await this.confirmations.put(token, {
+      tool,
+      binding: JSON.stringify(binding),
+    });
+    return token;
+  }
+
+  /**
+   * Uses up a token, checking that it confirms the same thing its preview
+   * showed.
+   *
+   * @throws ToolError with INVALID_ARGUMENT if the token is unknown, expired,
+   * already used or from a different tool, and with CONFLICT if the binding
+   * differs from the preview's.
+   */
+  async consume(tool: string, token: string, binding: unknown): Promise<void> {
+    const stored = await this.confirmations.take(token);
+    if (!stored || stored.tool !== tool) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Unknown, expired or already used confirmation token "${token}".`,
+        `Call ${tool} without a confirmation token to preview the change again.`
+      );
+    }
+    if (stored.binding !== JSON.stringify(binding)) {
+      throw new ToolError(
+        "CONFLICT",
+        "The change differs from the preview the token was issued for. Nothing was changed.",
+        `Call ${tool} without a confirmation token to preview this change, then confirm it.`
+      );
+    }
+  }
+}
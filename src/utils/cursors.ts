@@ -0,0 +1,108 @@
+import { ToolError } from "./google-errors";
+import { TtlStorage, TtlStore } from "./ttl-store";
+
+const CURSOR_STORAGE_PREFIX = "cursor:";
+// Cursors outlive a typical session but are not kept forever
+const CURSOR_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface StoredCursor<P> {
+  tool: string;
+  params: P;
+  pageToken: string;
+}
+
+/**
+ * Where a list tool left off: the request parameters of the listing and the
+ * Google page token of the next page.
+ */
+export interface CursorState<P> {
+  params: P;
+  pageToken: string;
+}
+
+/**
+ * Keeps pagination state for list tools in Durable Object storage. Clients
+ * only ever see a random cursor ID; the Google page token and the query it
+ * belongs to stay on the server, so a cursor cannot be forged or edited to
+ * page through a different query, and only works in the session that
+ * created it.
+ */
+export class CursorStore {
+  private readonly cursors: TtlStore<StoredCursor<unknown>>;
+
+  constructor(storage: TtlStorage, ttlMs = CURSOR_TTL_MS) {
+    this.cursors = new TtlStore(storage, CURSOR_STORAGE_PREFIX, ttlMs);
+  }
+
+  /**
+   * Stores the state needed to fetch the next page of a listing.
+   *
+   * @param tool - Name of the list tool, e.g. "drive_listFiles".
+   * @param params - Request parameters to reuse for the next page.
+   * @param pageToken - Google's next page token, if there is a next page.
+   * @returns The cursor to hand to the client, or undefined on the last page.
+   */
+  async create<P>(
+    tool: string,
+    params: P,
+    pageToken: string | null | undefined
+  ): Promise<string | undefined> {
+    if (!pageToken) return undefined;
+    const cursor = crypto.randomUUID();
+    await this.cursors.put(cursor, { tool, params, pageToken });
+    return cursor;
+  }
+
+  /**
+   * Looks up a cursor created by the same tool.
+   *
+   * @throws ToolError with INVALID_ARGUMENT if the cursor is unknown, expired
+   * or was created by a different tool.
+   */
+  async resolve<P>(tool: string, cursor: string): Promise<CursorState<P>> {
+    const stored = (await this.cursors.get(cursor)) as
+      | StoredCursor<P>
+      | undefined;
+    if (!stored) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Unknown or expired cursor "${cursor}".`,
+        `Call ${tool} without a cursor to start again from the first page.`
+      );
+    }
+    if (stored.tool !== tool) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `The cursor was returned by ${stored.tool}, not ${tool}.`,
+        `Pass the cursor back to ${stored.tool}.`
+      );
+    }
+    return { params: stored.params, pageToken: stored.pageToken };
+  }
+
+  /**
+   * Picks up a listing where a cursor left off, or starts a new one.
+   *
+   * @param tool - Name of the list tool.
+   * @param cursor - Cursor passed by the client, if any.
+   * @param params - Request parameters for a new listing; ignored when a cursor is given.
+   * @returns The parameters to request with, and the page token unless this is the first page.
+   */
+  async resume<P>(
+    tool: string,
+    cursor: string | undefined,
+    params: P
+  ): Promise<{ params: P; pageToken?: string }> {
+    return cursor ? this.resolve<P>(tool, cursor) : { params };
+  }
+}
+
+/**
+ * Describes how to fetch the next page, to be appended to a list tool's
+ * output. Empty on the last page.
+ */
+export function describeNextPage(cursor: string | undefined): string {
+  return cursor
+    ? `\n\nMore results are available. Call again with cursor "${cursor}" to get the next page.`
+    : "";
+}
@@ -0,0 +1,160 @@
+import { calendar_v3, drive_v3 } from "googleapis";
+import { describeGoogleError } from "./google-errors";
+
+const GOOGLE_APPS_PREFIX = "application/vnd.google-apps.";
+
+/**
+ * A file downloaded from Drive
+ */
+export interface DriveFileContent {
+  name: string;
+  mimeType: string;
+  /** Base64 encoded content */
+  content: string;
+  size: number;
+}
+
+/**
+ * Downloads a Drive file. Google Docs, Sheets, Slides and Drawings have no
+ * binary content of their own and are exported as PDF instead.
+ *
+ * @param drive - Drive client of the current user.
+ * @param fileId - ID of the file to download.
+ */
+export async function downloadDriveFile(
+  drive: drive_v3.Drive,
+  fileId: string
+): Promise<DriveFileContent> {
+  const metadata = await drive.files.get({
+    fileId,
+    fields: "name, mimeType",
+  });
+  const name = metadata.data.name || fileId;
+  const mimeType = metadata.data.mimeType || "application/octet-stream";
+
+  if (mimeType.startsWith(GOOGLE_APPS_PREFIX)) {
+    const response = await drive.files.export(
+      { fileId, mimeType: "application/pdf" },
+      { responseType: "arraybuffer" }
+    );
+    const data = Buffer.from(response.data as ArrayBuffer);
+    return {
+      name: name.toLowerCase().endsWith(".pdf") ? name : `${name}.pdf`,
+      mimeType: "application/pdf",
+      content: data.toString("base64"),
+      size: data.length,
+    };
+  }
+
+  const response = await drive.files.get(
+    { fileId, alt: "media" },
+    { responseType: "arraybuffer" }
+  );
+  const data = Buffer.from(response.data as ArrayBuffer);
+  return {
+    name,
+    mimeType,
+    content: data.toString("base64"),
+    size: data.length,
+  };
+}
+
+/**
+ * Uploads binary content as a new Drive file.
+ *
+ * @param drive - Drive client of the current user.
+ * @param file - Name, type and content of the file, and optionally the folder to put it in.
+ */
+export async function uploadDriveFile(
+  drive: drive_v3.Drive,
+  file: { name: string; mimeType: string; data: Buffer; folderId?: string }
+): Promise<drive_v3.Schema$File> {
+  const response = await drive.files.create({
+    requestBody: {
+      name: file.name,
+      parents: file.folderId ? [file.folderId] : undefined,
+    },
+    media: { mimeType: file.mimeType, body: file.data },
+    fields: "id, name, mimeType, webViewLink",
+  });
+  return response.data;
+}
+
+/**
+ * A Drive file that could not be shared with someone
+ */
+export interface SharingFailure {
+  fileId: string;
+  emailAddress: string;
+  message: string;
+}
+
+/**
+ * Turns Drive files into Calendar event attachments and shares them with the
+ * event's attendees, so everyone invited can open them. Sharing is silent,
+ * as the invitation already announces the files. Files that cannot be shared
+ * with someone, e.g. because the domain forbids external sharing, are
+ * reported instead of failing the whole event.
+ *
+ * @param drive - Drive client of the current user.
+ * @param fileIds - IDs of the files to attach.
+ * @param shareWith - Attendee email addresses, and the role to grant them, or
+ *   "none" to leave permissions alone.
+ */
+export async function attachDriveFiles(
+  drive: drive_v3.Drive,
+  fileIds: string[],
+  shareWith: {
+    emails: string[];
+    role: "none" | "reader" | "commenter" | "writer";
+  }
+): Promise<{
+  attachments: calendar_v3.Schema$EventAttachment[];
+  sharingFailures: SharingFailure[];
+}> {
+  const files = await Promise.all(
+    fileIds.map(async (fileId) => {
+      const response = await drive.files.get({
+        fileId,
+        fields: "id, name, mimeType, webViewLink, iconLink",
+      });
+      return response.data;
+    })
+  );
+
+  const sharingFailures: SharingFailure[] = [];
+  const { role } = shareWith;
+  if (role !== "none") {
+    await Promise.all(
+      files.flatMap((file) =>
+        shareWith.emails.map(async (emailAddress) => {
+          try {
+            await drive.permissions.create({
+              fileId: file.id!,
+              requestBody: { type: "user", role, emailAddress },
+              sendNotificationEmail: false,
+              fields: "id",
+            });
+          } catch (error) {
+            sharingFailures.push({
+              fileId: file.id!,
+              emailAddress,
+              message: describeGoogleError(error, "Drive").message,
+            });
+          }
+        })
+      )
+    );
+  }
+
+  return {
+    attachments: files.map((file) => ({
+      fileId: file.id,
+      fileUrl: file.webViewLink,
+      title: file.name,
+      mimeType: file.mimeType,
+      iconLink: file.iconLink,
+    })),
+    sharingFailures,
+  };
+}
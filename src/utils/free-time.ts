@@ -0,0 +1,452 @@
+import { Auth, google } from "googleapis";
+import { addDays, isoWeekday, localDate, zonedInstant } from "./time-zones";
+
+const MINUTE_MS = 60 * 1000;
+// Candidate start times evaluated per search, to bound the work on long ranges
+const MAX_CANDIDATES = 5000;
+
+/**
+ * A span of time in milliseconds since the epoch, end exclusive
+ */
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * The hours someone works, in their own time zone
+ */
+export interface WorkingHours {
+  /** Local start time as HH:MM */
+  start: string;
+  /** Local end time as HH:MM, "24:00" for midnight */
+  end: string;
+  /** ISO weekdays, 1 (Monday) to 7 (Sunday) */
+  days: number[];
+}
+
+/**
+ * Working hours assumed when none are given: 9 to 5 on weekdays
+ */
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: "09:00",
+  end: "17:00",
+  days: [1, 2, 3, 4, 5],
+};
+
+/**
+ * Someone whose calendar is taken into account when looking for a slot
+ */
+export interface SlotParticipant {
+  /** Calendar ID or email address */
+  id: string;
+  /** Whether the meeting cannot happen without them */
+  required: boolean;
+  timeZone: string;
+  /** Working hours, or undefined to consider any time of day */
+  workingHours?: WorkingHours;
+  /** Busy times, or undefined when their free/busy could not be read */
+  busy?: Interval[];
+}
+
+/**
+ * A candidate meeting time and who can make it
+ */
+export interface RankedSlot {
+  start: number;
+  end: number;
+  available: string[];
+  unavailable: string[];
+  /** Participants whose free/busy could not be read */
+  unknown: string[];
+  /** Whether the slot lies within the preferred hours */
+  preferred: boolean;
+}
+
+/**
+ * Sorts intervals and merges those that overlap or touch.
+ */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Removes the busy intervals from the free ones.
+ */
+export function subtractIntervals(
+  free: Interval[],
+  busy: Interval[]
+): Interval[] {
+  const blocks = mergeIntervals(busy);
+  return mergeIntervals(free).flatMap((interval) => {
+    const remaining: Interval[] = [];
+    let cursor = interval.start;
+    for (const block of blocks) {
+      if (block.end <= cursor || block.start >= interval.end) continue;
+      if (block.start > cursor) {
+        remaining.push({ start: cursor, end: block.start });
+      }
+      cursor = Math.max(cursor, block.end);
+    }
+    if (cursor < interval.end)
+      remaining.push({ start: cursor, end: interval.end });
+    return remaining;
+  });
+}
+
+/**
+ * Returns the times covered by both lists of intervals.
+ */
+export function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const x of mergeIntervals(a)) {
+    for (const y of mergeIntervals(b)) {
+      const start = Math.max(x.start, y.start);
+      const end = Math.min(x.end, y.end);
+      if (start < end) result.push({ start, end });
+    }
+  }
+  return mergeIntervals(result);
+}
+
+/**
+ * Lists the working hours falling within a range, as instants. Each day is
+ * resolved in the given time zone, so DST changes are accounted for.
+ *
+ * @param range - The range to cover.
+ * @param hours - Local working hours.
+ * @param timeZone - IANA time zone the hours are in.
+ */
+export function workingIntervals(
+  range: Interval,
+  hours: WorkingHours,
+  timeZone: string
+): Interval[] {
+  const intervals: Interval[] = [];
+  const last = localDate(new Date(range.end), timeZone);
+  for (
+    let day = localDate(new Date(range.start), timeZone);
+    day <= last;
+    day = addDays(day, 1)
+  ) {
+    if (!hours.days.includes(isoWeekday(day))) continue;
+    const start = zonedInstant(`${day}T${hours.start}`, timeZone).getTime();
+    const end =
+      hours.end === "24:00"
+        ? zonedInstant(addDays(day, 1), timeZone).getTime()
+        : zonedInstant(`${day}T${hours.end}`, timeZone).getTime();
+    intervals.push({ start, end });
+  }
+  return intersectIntervals(intervals, [range]);
+}
+
+/**
+ * Returns the times a participant could meet: within their working hours
+ * and outside their busy times widened by the buffer.
+ */
+function availableIntervals(
+  participant: SlotParticipant,
+  range: Interval,
+  bufferMs: number
+): Interval[] {
+  const hours = participant.workingHours
+    ? workingIntervals(range, participant.workingHours, participant.timeZone)
+    : [range];
+  return subtractIntervals(
+    hours,
+    (participant.busy || []).map((block) => ({
+      start: block.start - bufferMs,
+      end: block.end + bufferMs,
+    }))
+  );
+}
+
+const contains = (intervals: Interval[], slot: Interval) =>
+  intervals.some(
+    (interval) => interval.start <= slot.start && slot.end <= interval.end
+  );
+
+/**
+ * Finds the free windows every calendar of the organizer shares, and ranks
+ * meeting times within them by how many other participants can attend.
+ *
+ * Candidates start on multiples of `stepMinutes` in the organizer's time
+ * zone. They are ranked by the number of required, then optional,
+ * participants who are busy or outside their working hours, then by the
+ * number whose free/busy is unknown, preferring slots within the preferred
+ * hours and earlier slots. Overlapping candidates are dropped in favour of
+ * better-ranked ones, so suggestions offer distinct times.
+ *
+ * @param params.organizer - The organizer's calendars; all must be free.
+ * @param params.attendees - Other participants, used for ranking.
+ * @returns The free windows and the best `maxSuggestions` slots, best first.
+ */
+export function rankMeetingSlots(params: {
+  range: Interval;
+  durationMinutes: number;
+  stepMinutes: number;
+  bufferMinutes: number;
+  maxSuggestions: number;
+  timeZone: string;
+  organizer: SlotParticipant[];
+  attendees: SlotParticipant[];
+  preferredHours?: WorkingHours;
+}): { freeWindows: Interval[]; suggestions: RankedSlot[] } {
+  const { range, timeZone } = params;
+  const durationMs = params.durationMinutes * MINUTE_MS;
+  const stepMs = params.stepMinutes * MINUTE_MS;
+  const bufferMs = params.bufferMinutes * MINUTE_MS;
+
+  const freeWindows = params.organizer
+    .map((participant) => availableIntervals(participant, range, bufferMs))
+    .reduce(
+      (shared, intervals) => intersectIntervals(shared, intervals),
+      [range]
+    )
+    .filter((window) => window.end - window.start >= durationMs);
+
+  const attendeeAvailability = params.attendees.map((participant) => ({
+    participant,
+    intervals: availableIntervals(participant, range, bufferMs),
+  }));
+  const preferred = params.preferredHours
+    ? workingIntervals(range, params.preferredHours, timeZone)
+    : undefined;
+
+  const candidates: (RankedSlot & { penalty: number[] })[] = [];
+  for (const window of freeWindows) {
+    // Align to the step in local time, e.g. on the hour and half hour
+    const offset =
+      zonedInstant(
+        localDate(new Date(window.start), timeZone),
+        timeZone
+      ).getTime() % stepMs;
+    let start = Math.ceil((window.start - offset) / stepMs) * stepMs + offset;
+    for (
+      ;
+      start + durationMs <= window.end && candidates.length < MAX_CANDIDATES;
+      start += stepMs
+    ) {
+      const slot = { start, end: start + durationMs };
+      const available: string[] = [];
+      const unavailable: string[] = [];
+      const unknown: string[] = [];
+      let requiredMissing = 0;
+      let optionalMissing = 0;
+      for (const { participant, intervals } of attendeeAvailability) {
+        if (!contains(intervals, slot)) {
+          unavailable.push(participant.id);
+          if (participant.required) requiredMissing++;
+          else optionalMissing++;
+        } else if (!participant.busy) {
+          unknown.push(participant.id);
+        } else {
+          available.push(participant.id);
+        }
+      }
+      const inPreferred = preferred ? contains(preferred, slot) : false;
+      candidates.push({
+        ...slot,
+        available,
+        unavailable,
+        unknown,
+        preferred: inPreferred,
+        penalty: [
+          requiredMissing,
+          optionalMissing,
+          unknown.length,
+          inPreferred ? 0 : 1,
+          start,
+        ],
+      });
+    }
+  }
+
+  candidates.sort((a, b) => {
+    for (let i = 0; i < a.penalty.length; i++) {
+      if (a.penalty[i] !== b.penalty[i]) return a.penalty[i] - b.penalty[i];
+    }
+    return 0;
+  });
+  const suggestions: RankedSlot[] = [];
+  for (const { penalty, ...candidate } of candidates) {
+    if (suggestions.length >= params.maxSuggestions) break;
+    if (
+      suggestions.some(
+        (s) => s.start < candidate.end && candidate.start < s.end
+      )
+    ) {
+      continue;
+    }
+    suggestions.push(candidate);
+  }
+  return { freeWindows, suggestions };
+}
+
+/**
+ * Reads the busy times of several calendars in one free/busy query.
+ *
+ * @param client - Authorized client of the current user.
+ * @param range - The range to read.
+ * @param ids - Calendar IDs or email addresses.
+ * @returns Busy times by ID; undefined for calendars Google could not read,
+ *   such as those of people outside the organization.
+ */
+export async function queryBusyTimes(
+  client: Auth.OAuth2Client,
+  range: Interval,
+  ids: string[]
+): Promise<Map<string, Interval[] | undefined>> {
+  const calendar = google.calendar({ version: "v3", auth: client });
+  const response = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: new Date(range.start).toISOString(),
+      timeMax: new Date(range.end).toISOString(),
+      items: ids.map((id) => ({ id })),
+    },
+  });
+  const calendars = response.data.calendars || {};
+  return new Map(
+    ids.map((id) => {
+      const info = calendars[id];
+      if (!info || (info.errors && info.errors.length > 0)) {
+        return [id, undefined];
+      }
+      return [
+        id,
+        (info.busy || []).map((block) => ({
+          start: new Date(block.start!).getTime(),
+          end: new Date(block.end!).getTime(),
+        })),
+      ];
+    })
+  );
+}
+
+/**
+ * Gets the time zone of someone else's calendar, when it is shared with the
+ * user.
+ *
+ * @returns The IANA time zone, or undefined when the calendar cannot be read.
+ */
+export async function lookupCalendarTimeZone(
+  client: Auth.OAuth2Client,
+  calendarId: string
+): Promise<string | undefined> {
+  const calendar = google.calendar({ version: "v3", auth: client });
+  try {
+    const response = await calendar.calendars.get({
+      calendarId,
+      fields: "timeZone",
+    });
+    return response.data.timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Someone to meet with, as given to findMeetingSlots
+ */
+export interface MeetingAttendee {
+  email: string;
+  /** Whether the meeting can happen without them */
+  optional?: boolean;
+  /** Defaults to their calendar's time zone if shared, else the organizer's */
+  timeZone?: string;
+  /** Defaults to DEFAULT_WORKING_HOURS */
+  workingHours?: WorkingHours;
+}
+
+/**
+ * An attendee as resolved by findMeetingSlots
+ */
+export interface ResolvedAttendee {
+  email: string;
+  timeZone: string;
+  freeBusyKnown: boolean;
+}
+
+/**
+ * Looks up the time zones and free/busy of the organizer's calendars and the
+ * attendees, and ranks meeting times with rankMeetingSlots.
+ *
+ * @param client - Authorized client of the organizer.
+ * @param search.calendarIds - The organizer's calendars; all must be free.
+ * @param search.workingHours - The organizer's working hours.
+ * @param search.ignoreWorkingHours - Consider any time of day, for everyone.
+ */
+export async function findMeetingSlots(
+  client: Auth.OAuth2Client,
+  search: {
+    range: Interval;
+    durationMinutes: number;
+    stepMinutes: number;
+    bufferMinutes: number;
+    maxSuggestions: number;
+    timeZone: string;
+    calendarIds: string[];
+    attendees: MeetingAttendee[];
+    workingHours?: WorkingHours;
+    ignoreWorkingHours?: boolean;
+    preferredHours?: WorkingHours;
+  }
+): Promise<{
+  freeWindows: Interval[];
+  suggestions: RankedSlot[];
+  attendees: ResolvedAttendee[];
+}> {
+  const { attendees, calendarIds } = search;
+  const [attendeeZones, busy] = await Promise.all([
+    Promise.all(
+      attendees.map(
+        async (a) =>
+          a.timeZone ??
+          (await lookupCalendarTimeZone(client, a.email)) ??
+          search.timeZone
+      )
+    ),
+    queryBusyTimes(client, search.range, [
+      ...new Set([...calendarIds, ...attendees.map((a) => a.email)]),
+    ]),
+  ]);
+  const hoursOf = (hours?: WorkingHours) =>
+    search.ignoreWorkingHours ? undefined : hours ?? DEFAULT_WORKING_HOURS;
+
+  const { freeWindows, suggestions } = rankMeetingSlots({
+    ...search,
+    organizer: calendarIds.map((id) => ({
+      id,
+      required: true,
+      timeZone: search.timeZone,
+      workingHours: hoursOf(search.workingHours),
+      busy: busy.get(id),
+    })),
+    attendees: attendees.map((a, i) => ({
+      id: a.email,
+      required: !a.optional,
+      timeZone: attendeeZones[i],
+      workingHours: hoursOf(a.workingHours),
+      busy: busy.get(a.email),
+    })),
+  });
+  return {
+    freeWindows,
+    suggestions,
+    attendees: attendees.map((a, i) => ({
+      email: a.email,
+      timeZone: attendeeZones[i],
+      freeBusyKnown: busy.get(a.email) !== undefined,
+    })),
+  };
+}
@@ -0,0 +1,126 @@
+import { gmail_v1 } from "googleapis";
+import { ToolError } from "./google-errors";
+
+/**
+ * IDs of Gmail's built-in labels. They can be used without looking them up.
+ */
+export const SYSTEM_LABEL_IDS = [
+  "INBOX",
+  "SPAM",
+  "TRASH",
+  "UNREAD",
+  "STARRED",
+  "IMPORTANT",
+  "SENT",
+  "DRAFT",
+  "CHAT",
+  "CATEGORY_PERSONAL",
+  "CATEGORY_SOCIAL",
+  "CATEGORY_PROMOTIONS",
+  "CATEGORY_UPDATES",
+  "CATEGORY_FORUMS",
+];
+
+const USER_LABEL_ID_PATTERN = /^Label_\d+$/;
+// Gmail nests labels by their name, e.g. "Clients/Acme" sits under "Clients"
+const NESTING_SEPARATOR = "/";
+
+/**
+ * Finds a label by ID, or by name ignoring case and surrounding slashes.
+ */
+export function findLabel(
+  labels: gmail_v1.Schema$Label[],
+  ref: string
+): gmail_v1.Schema$Label | undefined {
+  const byId = labels.find((label) => label.id === ref);
+  if (byId) return byId;
+  const name = normalizeLabelName(ref).toLowerCase();
+  return labels.find((label) => label.name?.toLowerCase() === name);
+}
+
+/**
+ * Like findLabel, but throws a NOT_FOUND ToolError if there is no match.
+ */
+export function requireLabel(
+  labels: gmail_v1.Schema$Label[],
+  ref: string
+): gmail_v1.Schema$Label & { id: string; name: string } {
+  const label = findLabel(labels, ref);
+  if (!label?.id || !label.name) {
+    throw new ToolError(
+      "NOT_FOUND",
+      `No Gmail label named "${ref}".`,
+      "Use gmail_listLabels to see the available labels."
+    );
+  }
+  return label as gmail_v1.Schema$Label & { id: string; name: string };
+}
+
+/**
+ * Trims whitespace around a label name and each of its nesting levels.
+ */
+export function normalizeLabelName(name: string): string {
+  return name
+    .split(NESTING_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(NESTING_SEPARATOR);
+}
+
+/**
+ * Returns the names of all ancestors of a nested label, outermost first.
+ * For "Clients/Acme/Invoices" that is ["Clients", "Clients/Acme"].
+ */
+export function parentLabelNames(name: string): string[] {
+  const segments = normalizeLabelName(name).split(NESTING_SEPARATOR);
+  return segments
+    .slice(0, -1)
+    .map((_, index) => segments.slice(0, index + 1).join(NESTING_SEPARATOR));
+}
+
+/**
+ * Returns the labels nested anywhere below the label with the given name.
+ */
+export function childLabels(
+  labels: gmail_v1.Schema$Label[],
+  name: string
+): gmail_v1.Schema$Label[] {
+  const prefix = `${name}${NESTING_SEPARATOR}`.toLowerCase();
+  return labels.filter((label) => label.name?.toLowerCase().startsWith(prefix));
+}
+
+/**
+ * Resolves label names such as "Clients/Acme" or IDs such as "Label_12" and
+ * "INBOX" to label IDs. The label list is only fetched when a reference is
+ * not already an ID.
+ *
+ * @param gmail - Gmail client of the current user.
+ * @param refs - Label names or IDs, in any mix.
+ * @throws ToolError with NOT_FOUND if any reference matches no label.
+ */
+export async function resolveLabelIds(
+  gmail: gmail_v1.Gmail,
+  refs: string[] | undefined
+): Promise<string[] | undefined> {
+  if (!refs || refs.length === 0) return refs;
+  const isId = (ref: string) =>
+    SYSTEM_LABEL_IDS.includes(ref) || USER_LABEL_ID_PATTERN.test(ref);
+  if (refs.every(isId)) return refs;
+
+  const response = await gmail.users.labels.list({ userId: "me" });
+  const labels = response.data.labels || [];
+  const missing: string[] = [];
+  const ids = refs.map((ref) => {
+    const label = findLabel(labels, ref);
+    if (!label?.id) missing.push(ref);
+    return label?.id || ref;
+  });
+  if (missing.length > 0) {
+    throw new ToolError(
+      "NOT_FOUND",
+      `No Gmail label named ${missing.map((m) => `"${m}"`).join(", ")}.`,
+      "Use gmail_listLabels to see the available labels, or gmail_createLabel to create one."
+    );
+  }
+  return ids;
+}
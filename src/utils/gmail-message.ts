@@ -0,0 +1,341 @@
+import { gmail_v1 } from "googleapis";
+import { ToolError } from "./google-errors";
+
+/**
+ * An attachment found in a message payload
+ */
+export interface AttachmentInfo {
+  /** Position of the part in the message, e.g. "1.2"; stable across fetches */
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  /** Pass to users.messages.attachments.get to download the content */
+  attachmentId?: string;
+  /** Content-ID of an inline image, without the angle brackets */
+  contentId?: string;
+}
+
+// Lines that introduce the quoted original in common mail clients
+const QUOTE_INTRO_PATTERNS = [
+  /^On .+wrote:\s*$/, // Gmail, Apple Mail, Thunderbird
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i, // Outlook
+  /^_{10,}\s*$/, // Outlook on the web, followed by From:/Sent:
+];
+const HTML_QUOTE_MARKERS = [
+  '<div class="gmail_quote',
+  '<div id="appendonsend"',
+  '<div id="divRplyFwdMsg"',
+  "<blockquote",
+];
+
+/**
+ * Returns the value of a header, matching the name case-insensitively.
+ */
+export function getHeader(
+  headers: gmail_v1.Schema$MessagePartHeader[] | undefined,
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  return (
+    headers?.find((h) => h.name?.toLowerCase() === lower)?.value ?? undefined
+  );
+}
+
+/**
+ * Decodes the base64url data of a message part body to UTF-8 text.
+ */
+export function decodeBase64Url(data: string): string {
+  return Buffer.from(data, "base64").toString("utf8");
+}
+
+/**
+ * Finds and decodes the body of a message, preferring text/plain over
+ * text/html in multipart messages.
+ */
+export function findBody(part: gmail_v1.Schema$MessagePart): string {
+  if (
+    part.body?.data &&
+    (part.mimeType === "text/plain" || part.mimeType === "text/html")
+  ) {
+    return decodeBase64Url(part.body.data);
+  }
+  if (part.parts) {
+    // Prefer text/plain, fallback to text/html
+    const plainPart = part.parts.find((p) => p.mimeType === "text/plain");
+    if (plainPart?.body?.data) return decodeBase64Url(plainPart.body.data);
+    const htmlPart = part.parts.find((p) => p.mimeType === "text/html");
+    if (htmlPart?.body?.data) return decodeBase64Url(htmlPart.body.data);
+    // Recurse if needed (though usually not necessary for plain/html)
+    for (const subPart of part.parts) {
+      const subBody = findBody(subPart);
+      if (subBody) return subBody;
+    }
+  }
+  return "";
+}
+
+/**
+ * Finds and decodes the HTML body of a message, if it has one.
+ */
+export function findHtmlBody(
+  part: gmail_v1.Schema$MessagePart
+): string | undefined {
+  if (part.mimeType === "text/html" && part.body?.data && !part.filename) {
+    return decodeBase64Url(part.body.data);
+  }
+  for (const subPart of part.parts || []) {
+    const html = findHtmlBody(subPart);
+    if (html !== undefined) return html;
+  }
+  return undefined;
+}
+
+/**
+ * Lists every part of a message that has a filename, i.e. its attachments,
+ * including inline images.
+ */
+export function listAttachments(
+  part: gmail_v1.Schema$MessagePart
+): AttachmentInfo[] {
+  const attachments: AttachmentInfo[] = [];
+  if (part.filename) {
+    const contentId = getHeader(part.headers, "Content-ID");
+    attachments.push({
+      partId: part.partId || "",
+      filename: part.filename,
+      mimeType: part.mimeType || "application/octet-stream",
+      size: part.body?.size || 0,
+      attachmentId: part.body?.attachmentId || undefined,
+      contentId: contentId?.replace(/^<|>$/g, "") || undefined,
+    });
+  }
+  for (const subPart of part.parts || []) {
+    attachments.push(...listAttachments(subPart));
+  }
+  return attachments;
+}
+
+/**
+ * Finds the attachment part of a message by its attachment ID or part ID.
+ * Attachment IDs change every time a message is fetched, so the part ID is
+ * tried as well.
+ */
+export function findAttachmentPart(
+  part: gmail_v1.Schema$MessagePart,
+  id: string
+): gmail_v1.Schema$MessagePart | undefined {
+  if (part.filename && (part.body?.attachmentId === id || part.partId === id)) {
+    return part;
+  }
+  for (const subPart of part.parts || []) {
+    const found = findAttachmentPart(subPart, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Downloads an attachment together with its file name and type.
+ *
+ * @param messageId - ID of the message the attachment belongs to.
+ * @param id - Attachment ID or part ID, as listed by gmail_getEmail.
+ * @throws ToolError with NOT_FOUND if the message has no such attachment.
+ */
+export async function downloadAttachment(
+  gmail: gmail_v1.Gmail,
+  messageId: string,
+  id: string
+): Promise<{
+  filename: string;
+  mimeType: string;
+  partId: string;
+  data: Buffer;
+}> {
+  const message = await gmail.users.messages.get({
+    userId: "me",
+    id: messageId,
+    format: "full",
+  });
+  const part = message.data.payload
+    ? findAttachmentPart(message.data.payload, id)
+    : undefined;
+  if (!part) {
+    throw new ToolError(
+      "NOT_FOUND",
+      `Message ${messageId} has no attachment with ID ${id}.`,
+      "Use gmail_getEmail to list the attachments of the message."
+    );
+  }
+  // Small attachments are returned inline with the message
+  let data = part.body?.data;
+  if (!data) {
+    const response = await gmail.users.messages.attachments.get({
+      userId: "me",
+      messageId,
+      id: part.body?.attachmentId || id,
+    });
+    data = response.data.data || "";
+  }
+  return {
+    filename: part.filename || "attachment",
+    mimeType: part.mimeType || "application/octet-stream",
+    partId: part.partId || "",
+    data: Buffer.from(data, "base64"),
+  };
+}
+
+/**
+ * Whether content of this MIME type can be shown to the model as text.
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith("text/") ||
+    /^application\/(json|xml|csv|javascript|x-yaml|yaml)\b/.test(mimeType) ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml")
+  );
+}
+
+/**
+ * Removes the quoted original from a reply so that each message of a thread
+ * only shows what its sender wrote. Bodies that consist only of quoted text
+ * are returned unchanged.
+ */
+export function stripQuotedReply(body: string): string {
+  let stripped: string;
+  if (isHtmlBody(body)) {
+    const cut = Math.min(
+      ...HTML_QUOTE_MARKERS.map((marker) => body.indexOf(marker)).filter(
+        (index) => index >= 0
+      ),
+      body.length
+    );
+    stripped = body.slice(0, cut);
+  } else {
+    const lines = body.split(/\r?\n/);
+    const kept: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      // "On ... wrote:" is often wrapped onto a second line
+      const joined = `${line} ${lines[i + 1] ?? ""}`.trim();
+      if (
+        QUOTE_INTRO_PATTERNS.some((p) => p.test(line.trim())) ||
+        (line.startsWith("On ") && QUOTE_INTRO_PATTERNS[0].test(joined))
+      ) {
+        break;
+      }
+      if (!line.startsWith(">")) kept.push(line);
+    }
+    stripped = kept.join("\n");
+  }
+  stripped = stripped.trim();
+  return stripped || body.trim();
+}
+
+/**
+ * Encodes text as base64url, the format of the `raw` field of a message.
+ */
+export function encodeBase64Url(text: string): string {
+  return Buffer.from(text)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Splits an address list header such as `"Doe, Jane" <jane@example.com>, bob@example.com`
+ * into its mailboxes, keeping commas inside quotes and angle brackets intact.
+ */
+export function parseAddressList(header: string | undefined): string[] {
+  if (!header) return [];
+  const mailboxes: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inAngle = true;
+    else if (char === ">" && !inQuotes) inAngle = false;
+    if (char === "," && !inQuotes && !inAngle) {
+      if (current.trim()) mailboxes.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) mailboxes.push(current.trim());
+  return mailboxes;
+}
+
+/**
+ * Returns the bare, lower-cased email address of a mailbox like `Jane <jane@example.com>`.
+ */
+export function extractEmailAddress(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim().toLowerCase();
+}
+
+/**
+ * Adds a reply or forward prefix to a subject unless it already has one.
+ *
+ * @param subject - The original subject.
+ * @param prefix - "Re" or "Fwd".
+ */
+export function prefixSubject(subject: string, prefix: "Re" | "Fwd"): string {
+  const existing = prefix === "Re" ? /^re:/i : /^fwd?:/i;
+  return existing.test(subject.trim())
+    ? subject.trim()
+    : `${prefix}: ${subject.trim()}`;
+}
+
+/**
+ * Quotes text the way mail clients do in plain-text replies.
+ */
+export function quoteText(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(">") ? `>${line}` : `> ${line}`))
+    .join("\n");
+}
+
+/**
+ * Escapes text for inclusion in an HTML body.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Whether a body extracted by findBody is HTML rather than plain text.
+ */
+export function isHtmlBody(body: string): boolean {
+  // Match real tags only, not addresses like <jane@example.com>
+  return /<\/?(html|head|body|div|p|br|span|table|a|img|b|i|strong|em|ul|ol|li|blockquote|font|h[1-6])\b[^>]*>/i.test(
+    body
+  );
+}
+
+/**
+ * Roughly converts an HTML body to plain text for quoting in plain-text mail.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,107 @@
+import { Auth, google, gmail_v1 } from "googleapis";
+import {
+  executeBatch,
+  GMAIL_BATCH_URL,
+  unwrapBatchResponse,
+} from "./google-batch";
+import { getHeader } from "./gmail-message";
+
+const GMAIL_MESSAGES_PATH = "/gmail/v1/users/me/messages";
+
+/**
+ * The summary of a message shown in search results
+ */
+export interface EmailSummary {
+  id: string;
+  threadId?: string;
+  subject: string;
+  from: string;
+  date: string;
+  snippet: string;
+}
+
+/**
+ * A page of search results
+ */
+export interface EmailSearchResult {
+  emails: EmailSummary[];
+  /** Google's estimate of the total number of matches */
+  resultSizeEstimate: number;
+  nextPageToken?: string;
+}
+
+/**
+ * Searches messages and fetches the subject, sender and date of each match
+ * through the batch endpoint, a single round trip per 100 messages.
+ *
+ * @param client - Authorized client of the current user.
+ * @param params - Query, label IDs, page size and page token.
+ */
+export async function searchEmails(
+  client: Auth.OAuth2Client,
+  params: {
+    query?: string;
+    labelIds?: string[];
+    maxResults: number;
+    pageToken?: string;
+  }
+): Promise<EmailSearchResult> {
+  const gmail = google.gmail({ version: "v1", auth: client });
+  const messageList = await gmail.users.messages.list({
+    userId: "me",
+    q: params.query || undefined,
+    labelIds: params.labelIds,
+    maxResults: params.maxResults,
+    pageToken: params.pageToken,
+  });
+  const resultSizeEstimate = messageList.data.resultSizeEstimate || 0;
+  const nextPageToken = messageList.data.nextPageToken || undefined;
+  const ids = (messageList.data.messages || [])
+    .map((msg) => msg.id)
+    .filter((id): id is string => !!id);
+  if (ids.length === 0) {
+    return { emails: [], resultSizeEstimate, nextPageToken };
+  }
+
+  const responses = await executeBatch<gmail_v1.Schema$Message>(
+    client,
+    GMAIL_BATCH_URL,
+    ids.map((id) => ({
+      method: "GET",
+      path: `${GMAIL_MESSAGES_PATH}/${encodeURIComponent(
+        id
+      )}?format=metadata&metadataHeaders=Subject&metadataHeaders=From&metadataHeaders=Date`,
+    }))
+  );
+  const emails = responses
+    .map((response, index): EmailSummary | null => {
+      // Skip messages deleted since they were listed
+      if (response.status === 404) return null;
+      const message = unwrapBatchResponse(response);
+      const headers = message.payload?.headers;
+      return {
+        id: ids[index],
+        threadId: message.threadId || undefined,
+        subject: getHeader(headers, "Subject") || "(No subject)",
+        from: getHeader(headers, "From") || "",
+        date: getHeader(headers, "Date") || "",
+        snippet: message.snippet || "",
+      };
+    })
+    .filter((e): e is EmailSummary => e !== null);
+  return { emails, resultSizeEstimate, nextPageToken };
+}
+
+/**
+ * Formats search results the way gmail_listEmails presents them.
+ */
+export function formatEmailSummaries(emails: EmailSummary[]): string {
+  return emails
+    .map(
+      (msg, index) =>
+        `[${index + 1}] ID: ${msg.id}\nFrom: ${msg.from}\nDate: ${
+          msg.date
+        }\nSubject: ${msg.subject}\nSnippet: ${msg.snippet}`
+    )
+    .join("\n\n---\n\n");
+}
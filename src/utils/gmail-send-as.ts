@@ -0,0 +1,56 @@
+import { gmail_v1 } from "googleapis";
+import { ToolError } from "./google-errors";
+import { htmlToText } from "./gmail-message";
+
+/**
+ * Finds the send-as alias to send from: the one matching `from`, or the
+ * user's default alias when `from` is omitted.
+ *
+ * @param gmail - Gmail client of the current user.
+ * @param from - Alias email address, matched ignoring case.
+ * @throws ToolError with INVALID_ARGUMENT if `from` is not one of the user's aliases.
+ */
+export async function resolveSendAs(
+  gmail: gmail_v1.Gmail,
+  from?: string
+): Promise<gmail_v1.Schema$SendAs | undefined> {
+  const response = await gmail.users.settings.sendAs.list({ userId: "me" });
+  const aliases = response.data.sendAs || [];
+  if (!from) return aliases.find((alias) => alias.isDefault);
+
+  const alias = aliases.find(
+    (a) => a.sendAsEmail?.toLowerCase() === from.toLowerCase()
+  );
+  if (!alias) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `${from} is not one of your send-as addresses.`,
+      "Use gmail_listSendAs to see the addresses you can send from."
+    );
+  }
+  return alias;
+}
+
+/**
+ * Formats the From header for an alias, including its display name.
+ */
+export function formatSender(alias: gmail_v1.Schema$SendAs): string {
+  return alias.displayName
+    ? `${alias.displayName} <${alias.sendAsEmail}>`
+    : alias.sendAsEmail || "";
+}
+
+/**
+ * Appends a Gmail signature (always stored as HTML) to a message body. Plain
+ * text bodies get the signature as text after the usual "-- " delimiter.
+ */
+export function appendSignature(
+  body: string,
+  isHtml: boolean,
+  signature: string | null | undefined
+): string {
+  if (!signature) return body;
+  return isHtml
+    ? `${body}<br><br><div class="gmail_signature">${signature}</div>`
+    : `${body}\r\n\r\n-- \r\n${htmlToText(signature)}`;
+}
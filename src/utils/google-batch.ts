@@ -0,0 +1,236 @@
+import { Auth } from "googleapis";
+import {
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  isRetryable,
+  sleep,
+} from "./google-request";
+
+/**
+ * Batch endpoint for the Gmail API
+ */
+export const GMAIL_BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+
+// Google rejects batches with more than 100 sub-requests
+const MAX_BATCH_SIZE = 100;
+const CRLF = "\r\n";
+
+/**
+ * A single API call inside a batch
+ */
+export interface BatchRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  /** Path and query string, e.g. "/gmail/v1/users/me/messages/abc?format=metadata" */
+  path: string;
+  /** JSON request body */
+  body?: unknown;
+}
+
+/**
+ * The response to one sub-request of a batch
+ */
+export interface BatchResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON body, if the response had one */
+  body?: T;
+}
+
+/**
+ * Whether a sub-response body has the shape of a Google API error.
+ */
+function isErrorBody(body: unknown): body is { error?: { message?: string } } {
+  return typeof body === "object" && body !== null && "error" in body;
+}
+
+/**
+ * Error for a failed sub-request. It has the same `response` shape as a
+ * GaxiosError so that describeGoogleError and the retry logic understand it.
+ */
+export class BatchItemError extends Error {
+  readonly response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+
+  constructor(response: BatchResponse) {
+    super(
+      (isErrorBody(response.body) && response.body.error?.message) ||
+        `Batch sub-request failed with status ${response.status}`
+    );
+    this.name = "BatchItemError";
+    this.response = {
+      status: response.status,
+      headers: response.headers,
+      data: response.body,
+    };
+  }
+}
+
+/**
+ * Returns the body of a successful sub-response, or throws a BatchItemError.
+ */
+export function unwrapBatchResponse<T>(response: BatchResponse<T>): T {
+  if (response.status >= 400) throw new BatchItemError(response);
+  return response.body as T;
+}
+
+/**
+ * Encodes sub-requests as a multipart/mixed batch body. Each part carries a
+ * Content-ID of the form `<item-N>` so responses can be matched by index.
+ *
+ * @param requests - The sub-requests, keyed by their index.
+ * @param boundary - Multipart boundary, also sent in the Content-Type header.
+ */
+export function encodeBatchBody(
+  requests: Map<number, BatchRequest>,
+  boundary: string
+): string {
+  let body = "";
+  for (const [index, request] of requests) {
+    body += `--${boundary}${CRLF}`;
+    body += `Content-Type: application/http${CRLF}`;
+    body += `Content-ID: <item-${index}>${CRLF}${CRLF}`;
+    body += `${request.method} ${request.path} HTTP/1.1${CRLF}`;
+    if (request.body !== undefined) {
+      body += `Content-Type: application/json; charset=UTF-8${CRLF}${CRLF}`;
+      body += JSON.stringify(request.body);
+    }
+    body += CRLF + CRLF;
+  }
+  return body + `--${boundary}--`;
+}
+
+function splitHeaders(text: string): {
+  headers: Record<string, string>;
+  firstLine?: string;
+  rest: string;
+} {
+  const match = /\r?\n\r?\n/.exec(text);
+  const head = match ? text.slice(0, match.index) : text;
+  const rest = match ? text.slice(match.index + match[0].length) : "";
+  const headers: Record<string, string> = {};
+  let firstLine: string | undefined;
+  for (const line of head.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (line.startsWith("HTTP/")) {
+      firstLine = line;
+    } else if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line
+        .slice(colon + 1)
+        .trim();
+    }
+  }
+  return { headers, firstLine, rest };
+}
+
+/**
+ * Decodes a multipart/mixed batch response into sub-responses keyed by the
+ * index from their Content-ID.
+ *
+ * @param body - The raw response body.
+ * @param contentType - The Content-Type header of the response, which names the boundary.
+ */
+export function decodeBatchBody(
+  body: string,
+  contentType: string
+): Map<number, BatchResponse> {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) {
+    throw new Error(`Batch response has no multipart boundary: ${contentType}`);
+  }
+  const responses = new Map<number, BatchResponse>();
+  // The first chunk is the preamble and the one after the closing
+  // delimiter starts with "--"
+  for (const part of body.split(`--${boundary}`).slice(1)) {
+    if (part.startsWith("--")) break;
+    const outer = splitHeaders(part.replace(/^\r?\n/, ""));
+    const index = Number(
+      /(\d+)>?$/.exec(outer.headers["content-id"] ?? "")?.[1]
+    );
+    if (Number.isNaN(index)) continue;
+    const inner = splitHeaders(outer.rest);
+    const status = Number(inner.firstLine?.split(" ")[1]);
+    const text = inner.rest.trim();
+    let parsed: unknown;
+    if (text) {
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        parsed = text;
+      }
+    }
+    responses.set(index, { status, headers: inner.headers, body: parsed });
+  }
+  return responses;
+}
+
+async function sendBatch(
+  client: Auth.OAuth2Client,
+  batchUrl: string,
+  requests: Map<number, BatchRequest>
+): Promise<Map<number, BatchResponse>> {
+  const boundary = `batch_${crypto.randomUUID()}`;
+  const response = await client.request<string>({
+    url: batchUrl,
+    method: "POST",
+    headers: { "Content-Type": `multipart/mixed; boundary=${boundary}` },
+    data: encodeBatchBody(requests, boundary),
+    responseType: "text",
+  });
+  return decodeBatchBody(
+    response.data,
+    String(response.headers["content-type"] ?? "")
+  );
+}
+
+/**
+ * Sends API calls through Google's batch endpoint, up to 100 per HTTP
+ * request. Sub-requests that fail with a rate limit or a transient server
+ * error are sent again in a later batch with backoff; every other failure is
+ * returned as is for the caller to inspect.
+ *
+ * @param client - Authorized client; the batch request goes through its request layer.
+ * @param batchUrl - Batch endpoint of the API, e.g. GMAIL_BATCH_URL.
+ * @param requests - The sub-requests.
+ * @returns One response per sub-request, in the same order.
+ */
+export async function executeBatch<T = unknown>(
+  client: Auth.OAuth2Client,
+  batchUrl: string,
+  requests: BatchRequest[]
+): Promise<BatchResponse<T>[]> {
+  const results: BatchResponse<T>[] = new Array(requests.length);
+  let pending = requests.map((_, index) => index);
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    if (attempt > 0) await sleep(backoffDelay(attempt - 1));
+    const retry: number[] = [];
+    for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+      const chunk = new Map(
+        pending
+          .slice(start, start + MAX_BATCH_SIZE)
+          .map((index) => [index, requests[index]])
+      );
+      const responses = await sendBatch(client, batchUrl, chunk);
+      for (const [index, request] of chunk) {
+        const response: BatchResponse = responses.get(index) ?? {
+          status: 500,
+          headers: {},
+          body: { error: { message: "Missing from the batch response" } },
+        };
+        const failed =
+          response.status >= 400 &&
+          isRetryable(new BatchItemError(response), request.method);
+        if (failed && attempt + 1 < DEFAULT_RETRY_OPTIONS.maxAttempts) {
+          retry.push(index);
+        } else {
+          results[index] = response as BatchResponse<T>;
+        }
+      }
+    }
+    pending = retry;
+  }
+  return results;
+}
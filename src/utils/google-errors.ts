@@ -0,0 +1,215 @@
+/**
+ * Stable error codes returned to MCP clients when a tool fails
+ */
+export type ToolErrorCode =
+  | "INVALID_ARGUMENT"
+  | "UNAUTHENTICATED"
+  | "INSUFFICIENT_SCOPE"
+  | "PERMISSION_DENIED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "UPSTREAM_UNAVAILABLE"
+  | "INTERNAL";
+
+/**
+ * Normalized description of a failed Google API call
+ */
+export interface GoogleErrorInfo {
+  code: ToolErrorCode;
+  /** HTTP status returned by Google, if any */
+  status?: number;
+  /** Google's machine-readable reason (e.g. "rateLimitExceeded") */
+  reason?: string;
+  message: string;
+  /** What the user or model can do about it */
+  hint: string;
+}
+
+/**
+ * Error thrown by tool handlers for failures that are not Google API errors,
+ * such as invalid combinations of arguments.
+ */
+export class ToolError extends Error {
+  constructor(
+    public readonly code: ToolErrorCode,
+    message: string,
+    public readonly hint?: string
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+const SCOPE_REASONS = [
+  "insufficientPermissions",
+  "ACCESS_TOKEN_SCOPE_INSUFFICIENT",
+];
+const RATE_LIMIT_REASONS = [
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "RATE_LIMIT_EXCEEDED",
+];
+const QUOTA_REASONS = ["dailyLimitExceeded", "quotaExceeded"];
+
+/**
+ * Extracts the HTTP status of a googleapis (Gaxios) error, if it has one.
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status =
+    error?.response?.status ??
+    error?.status ??
+    (typeof error?.code === "number" ? error.code : undefined);
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Extracts Google's reason from either the legacy `errors[].reason` or the
+ * newer `details[].reason` error body format.
+ */
+export function getErrorReason(error: any): string | undefined {
+  const body = error?.response?.data?.error;
+  return (
+    body?.errors?.[0]?.reason ??
+    error?.errors?.[0]?.reason ??
+    body?.details?.find((d: any) => d?.reason)?.reason
+  );
+}
+
+/**
+ * Whether Google rejected the request because of a per-user or per-project
+ * rate limit. Such requests are safe to send again after a short wait.
+ */
+export function isRateLimitError(error: any): boolean {
+  const status = getErrorStatus(error);
+  const reason = getErrorReason(error);
+  return (
+    status === 429 ||
+    (status === 403 && !!reason && RATE_LIMIT_REASONS.includes(reason))
+  );
+}
+
+/**
+ * Whether Google reported the daily quota for the API as exhausted
+ */
+export function isQuotaExceededError(error: any): boolean {
+  const reason = getErrorReason(error);
+  return (
+    getErrorStatus(error) === 403 && !!reason && QUOTA_REASONS.includes(reason)
+  );
+}
+
+/**
+ * Maps any error thrown while calling a Google API to a stable error code,
+ * the Google reason and a remediation hint.
+ *
+ * @param error - The thrown value, usually a GaxiosError.
+ * @param serviceLabel - Human-readable service name used in hints (e.g. "Gmail").
+ */
+export function describeGoogleError(
+  error: any,
+  serviceLabel = "this Google service"
+): GoogleErrorInfo {
+  const message: string =
+    error?.response?.data?.error?.message || error?.message || String(error);
+
+  if (error instanceof ToolError) {
+    return {
+      code: error.code,
+      message,
+      hint: error.hint ?? "Check the tool arguments and try again.",
+    };
+  }
+
+  const status = getErrorStatus(error);
+  const reason = getErrorReason(error);
+
+  if (isRateLimitError(error)) {
+    return {
+      code: "RATE_LIMITED",
+      status,
+      reason,
+      message,
+      hint: "Google is rate limiting requests. Wait a moment and retry, or request fewer results.",
+    };
+  }
+  if (isQuotaExceededError(error)) {
+    return {
+      code: "QUOTA_EXCEEDED",
+      status,
+      reason,
+      message,
+      hint: `The ${serviceLabel} API quota is exhausted. Try again after the quota resets.`,
+    };
+  }
+  if (status === 403 && reason && SCOPE_REASONS.includes(reason)) {
+    return {
+      code: "INSUFFICIENT_SCOPE",
+      status,
+      reason,
+      message,
+      hint: `Re-authorize the MCP client and grant ${serviceLabel} access with the level this tool needs.`,
+    };
+  }
+
+  switch (status) {
+    case 400:
+      return {
+        code: "INVALID_ARGUMENT",
+        status,
+        reason,
+        message,
+        hint: "Check the tool arguments and try again.",
+      };
+    case 401:
+      return {
+        code: "UNAUTHENTICATED",
+        status,
+        reason,
+        message,
+        hint: "The Google session is no longer valid. Re-authorize the MCP client.",
+      };
+    case 403:
+      return {
+        code: "PERMISSION_DENIED",
+        status,
+        reason,
+        message,
+        hint: `The account does not have permission for this ${serviceLabel} resource, or the API is not enabled for the Google Cloud project.`,
+      };
+    case 404:
+    case 410:
+      return {
+        code: "NOT_FOUND",
+        status,
+        reason,
+        message,
+        hint: "Check that the ID is correct and that the item has not been deleted.",
+      };
+    case 409:
+      return {
+        code: "CONFLICT",
+        status,
+        reason,
+        message,
+        hint: "The item already exists or was changed concurrently. Fetch it again and retry.",
+      };
+  }
+  if (status !== undefined && status >= 500) {
+    return {
+      code: "UPSTREAM_UNAVAILABLE",
+      status,
+      reason,
+      message,
+      hint: `${serviceLabel} is temporarily unavailable. Retry in a few seconds.`,
+    };
+  }
+  return {
+    code: "INTERNAL",
+    status,
+    reason,
+    message,
+    hint: "An unexpected error occurred. Retry, and report it if it persists.",
+  };
+}
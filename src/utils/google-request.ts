@@ -0,0 +1,363 @@
+import { Auth, Common } from "googleapis";
+import {
+  getErrorStatus,
+  isQuotaExceededError,
+  isRateLimitError,
+  ToolError,
+} from "./google-errors";
+import { SERVICE_SCOPE_CHOICES } from "./scopes";
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"];
+// Google's daily quotas roll over at midnight Pacific Time
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+const QUOTA_STORAGE_PREFIX = "quota:";
+
+/**
+ * Retry and concurrency settings for Google API requests
+ */
+export interface RetryOptions {
+  /**
+   * Total attempts per request, including the first one
+   */
+  maxAttempts: number;
+  /**
+   * Backoff before the first retry; doubles on every further attempt
+   */
+  baseDelayMs: number;
+  /**
+   * Upper bound for a single backoff. A Retry-After longer than this is not
+   * waited for; the error is returned to the caller instead.
+   */
+  maxDelayMs: number;
+  /**
+   * Maximum number of Google requests in flight for one user session
+   */
+  maxConcurrency: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 16_000,
+  maxConcurrency: 10,
+};
+
+/**
+ * Daily quota budgets in units, keyed by service ID. Services without an
+ * entry are still tracked, and are only stopped once Google itself reports
+ * the daily quota as exhausted.
+ */
+export const DAILY_QUOTA_UNITS: Record<string, number> = {
+  youtube: 10_000,
+};
+
+/**
+ * Quota cost of individual methods, matched against "<METHOD> <path>".
+ * Anything not listed costs one unit.
+ */
+const QUOTA_COSTS: { service: string; pattern: RegExp; cost: number }[] = [
+  { service: "youtube", pattern: /^GET \/youtube\/v3\/search$/, cost: 100 },
+  { service: "youtube", pattern: /^(POST|PUT|DELETE) /, cost: 50 },
+];
+
+/**
+ * Maps a request URL to the service ID used in the approval dialog
+ */
+const SERVICE_URLS: { service: string; pattern: RegExp }[] = [
+  { service: "gmail", pattern: /^\/(upload\/|batch\/)?gmail\// },
+  { service: "calendar", pattern: /^\/calendar\// },
+  { service: "drive", pattern: /^\/(upload\/)?drive\// },
+  { service: "tasks", pattern: /^\/tasks\// },
+  { service: "youtube", pattern: /^\/(upload\/)?youtube\// },
+];
+
+/**
+ * Usage of one service for one quota day, as stored in the Durable Object
+ */
+export interface QuotaUsage {
+  /** Quota day in Pacific Time, formatted as YYYY-MM-DD */
+  day: string;
+  units: number;
+  /** Set once Google reports the daily quota as exhausted */
+  exhausted: boolean;
+}
+
+/**
+ * Storage the quota tracker persists to; satisfied by DurableObjectStorage
+ */
+export type QuotaStorage = Pick<DurableObjectStorage, "get" | "put">;
+
+/**
+ * Works out which service a request URL belongs to.
+ *
+ * @returns The service ID, e.g. "gmail", or undefined for unknown hosts.
+ */
+export function serviceForUrl(url: string): string | undefined {
+  const { hostname, pathname } = new URL(url);
+  if (hostname === "people.googleapis.com") return "contacts";
+  return SERVICE_URLS.find(({ pattern }) => pattern.test(pathname))?.service;
+}
+
+function serviceLabel(service: string): string {
+  return (
+    SERVICE_SCOPE_CHOICES.find((choice) => choice.id === service)?.label ??
+    service
+  );
+}
+
+function quotaDay(now = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return now.toLocaleDateString("en-CA", { timeZone: QUOTA_TIME_ZONE });
+}
+
+/**
+ * Counts quota units per service and day in Durable Object storage, so that
+ * tools fail fast instead of hammering a service whose daily quota is gone.
+ */
+export class QuotaTracker {
+  private usage = new Map<string, QuotaUsage>();
+
+  constructor(
+    private readonly storage: QuotaStorage,
+    private readonly budgets: Record<string, number> = DAILY_QUOTA_UNITS
+  ) {}
+
+  /**
+   * Returns today's usage for a service
+   */
+  async get(service: string): Promise<QuotaUsage> {
+    const day = quotaDay();
+    let usage = this.usage.get(service);
+    if (!usage) {
+      usage = await this.storage.get<QuotaUsage>(
+        QUOTA_STORAGE_PREFIX + service
+      );
+    }
+    if (!usage || usage.day !== day) {
+      usage = { day, units: 0, exhausted: false };
+    }
+    this.usage.set(service, usage);
+    return usage;
+  }
+
+  /**
+   * Throws a QUOTA_EXCEEDED ToolError if the request would go over today's
+   * quota for the service.
+   *
+   * @param service - Service ID, e.g. "youtube".
+   * @param cost - Units the request is about to use.
+   */
+  async check(service: string, cost: number): Promise<void> {
+    const usage = await this.get(service);
+    const budget = this.budgets[service];
+    if (
+      usage.exhausted ||
+      (budget !== undefined && usage.units + cost > budget)
+    ) {
+      const label = serviceLabel(service);
+      throw new ToolError(
+        "QUOTA_EXCEEDED",
+        `The daily ${label} API quota is exhausted (${usage.units} units used today).`,
+        `The ${label} quota resets at midnight Pacific Time. Other services are not affected.`
+      );
+    }
+  }
+
+  /**
+   * Records units used by a request that reached Google
+   */
+  async record(service: string, cost: number): Promise<void> {
+    const usage = await this.get(service);
+    usage.units += cost;
+    await this.storage.put(QUOTA_STORAGE_PREFIX + service, usage);
+  }
+
+  /**
+   * Marks the service as exhausted for the rest of the quota day
+   */
+  async markExhausted(service: string): Promise<void> {
+    const usage = await this.get(service);
+    usage.exhausted = true;
+    await this.storage.put(QUOTA_STORAGE_PREFIX + service, usage);
+  }
+}
+
+/**
+ * Caps how many promises run at once; callers beyond the cap wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly max: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.max) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      // Hand the slot straight to the next caller instead of releasing it
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ *
+ * @returns The delay in milliseconds, or undefined if the header is absent or invalid.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decides whether a failed request may be sent again. Rate limit responses
+ * are always safe to retry since Google rejected the request outright; server
+ * errors and network failures only for idempotent methods, so that e.g. an
+ * email is never sent twice.
+ */
+export function isRetryable(error: any, method: string): boolean {
+  if (isRateLimitError(error)) return true;
+  if (!IDEMPOTENT_METHODS.includes(method)) return false;
+  const status = getErrorStatus(error);
+  // No status and no response means the request never got an answer
+  if (status === undefined) {
+    return error instanceof Common.GaxiosError && !error.response;
+  }
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay between zero and the
+ * doubled base, so that parallel requests do not retry in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.random() * ceiling;
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * The shared request layer every Google API call of a user session goes
+ * through. It limits concurrency, retries transient failures with backoff and
+ * keeps track of daily quota usage.
+ */
+export class GoogleRequestLayer {
+  private readonly options: RetryOptions;
+  private readonly limiter: ConcurrencyLimiter;
+
+  constructor(
+    private readonly quota: QuotaTracker,
+    options: Partial<RetryOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    this.limiter = new ConcurrencyLimiter(this.options.maxConcurrency);
+  }
+
+  /**
+   * Runs a request, retrying it while the failure is transient.
+   *
+   * @param opts - The outgoing request, used to identify the service and method.
+   * @param send - Performs a single attempt.
+   */
+  async execute<T>(
+    opts: Common.GaxiosOptions,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const method = (opts.method || "GET").toUpperCase();
+    const url = opts.url ? new URL(String(opts.url)) : undefined;
+    const service = url ? serviceForUrl(url.href) : undefined;
+    const cost = service ? this.costOf(service, method, url!.pathname) : 0;
+
+    if (service) await this.quota.check(service, cost);
+
+    return this.limiter.run(async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await send();
+          if (service) await this.quota.record(service, cost);
+          return result;
+        } catch (error: any) {
+          if (service && error?.response) {
+            // Rejected requests still count against Google's quota
+            await this.quota.record(service, cost);
+            if (isQuotaExceededError(error)) {
+              await this.quota.markExhausted(service);
+            }
+          }
+          if (
+            attempt + 1 >= this.options.maxAttempts ||
+            !isRetryable(error, method)
+          ) {
+            throw error;
+          }
+          const retryAfter = parseRetryAfter(
+            error?.response?.headers?.["retry-after"]
+          );
+          if (
+            retryAfter !== undefined &&
+            retryAfter > this.options.maxDelayMs
+          ) {
+            throw error;
+          }
+          await sleep(retryAfter ?? backoffDelay(attempt, this.options));
+        }
+      }
+    });
+  }
+
+  private costOf(service: string, method: string, path: string): number {
+    const key = `${method} ${path}`;
+    return (
+      QUOTA_COSTS.find(
+        (entry) => entry.service === service && entry.pattern.test(key)
+      )?.cost ?? 1
+    );
+  }
+}
+
+/**
+ * OAuth2 client that sends every request through a GoogleRequestLayer.
+ * Pass it as `auth` to googleapis and all API calls made with it are retried
+ * and counted against the user's quota.
+ */
+export class GoogleApiClient extends Auth.OAuth2Client {
+  constructor(
+    private readonly layer: GoogleRequestLayer,
+    options?: Auth.OAuth2ClientOptions
+  ) {
+    super(options);
+  }
+
+  protected async requestAsync<T>(
+    opts: Common.GaxiosOptions,
+    reAuthRetried = false
+  ): Promise<Common.GaxiosResponse<T>> {
+    // The retry after a token refresh is part of an attempt already
+    // running inside the layer
+    if (reAuthRetried) return super.requestAsync<T>(opts, true);
+    // Retries are handled by the layer rather than by gaxios
+    opts.retry = false;
+    return this.layer.execute(opts, () => super.requestAsync<T>(opts));
+  }
+}
@@ -0,0 +1,102 @@
+import { ToolError } from "./google-errors";
+import { TtlStorage, TtlStore } from "./ttl-store";
+
+const PROPOSAL_STORAGE_PREFIX = "meeting-proposal:";
+// Proposals are kept this long after their last option has passed
+const PROPOSAL_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A time offered in a meeting proposal
+ */
+export interface ProposalOption {
+  /** ISO 8601 date-time with the organizer's UTC offset */
+  start: string;
+  end: string;
+  /** ID of the tentative event holding the time on the organizer's calendar */
+  holdEventId?: string;
+}
+
+/**
+ * A meeting being scheduled: what to book, and the times offered
+ */
+export interface MeetingProposal {
+  id: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  calendarId: string;
+  timeZone: string;
+  attendees: { email: string; optional: boolean }[];
+  /** Whether the booked meeting gets a Google Meet conference */
+  addMeetLink: boolean;
+  /** Drive files attached to the booked meeting */
+  attachDriveFileIds: string[];
+  /** Access the attendees get to the attached files */
+  shareAttachments: "none" | "reader" | "commenter" | "writer";
+  options: ProposalOption[];
+  /** ID of the email that offered the options to the attendees */
+  emailMessageId?: string;
+  createdAt: string;
+}
+
+/**
+ * Keeps meetings that are being scheduled in Durable Object storage, between
+ * proposing times and booking one of them. A proposal is dropped once booked
+ * or discarded, or a day after its last option has passed.
+ */
+export class MeetingProposalStore {
+  private readonly proposals: TtlStore<MeetingProposal>;
+
+  constructor(storage: TtlStorage) {
+    this.proposals = new TtlStore(
+      storage,
+      PROPOSAL_STORAGE_PREFIX,
+      PROPOSAL_GRACE_MS
+    );
+  }
+
+  /**
+   * Stores a new proposal.
+   *
+   * @returns The proposal with its generated ID.
+   */
+  async create(
+    proposal: Omit<MeetingProposal, "id" | "createdAt">
+  ): Promise<MeetingProposal> {
+    const stored: MeetingProposal = {
+      ...proposal,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    const lastEnd = Math.max(
+      ...proposal.options.map((o) => new Date(o.end).getTime())
+    );
+    await this.proposals.put(stored.id, stored, lastEnd + PROPOSAL_GRACE_MS);
+    return stored;
+  }
+
+  /**
+   * Looks up a proposal.
+   *
+   * @throws ToolError with NOT_FOUND if the proposal is unknown, expired,
+   * already booked or discarded.
+   */
+  async get(id: string): Promise<MeetingProposal> {
+    const proposal = await this.proposals.get(id);
+    if (!proposal) {
+      throw new ToolError(
+        "NOT_FOUND",
+        `Unknown meeting proposal "${id}". It may have been booked, discarded or expired.`,
+        "Call calendar_scheduleMeeting to propose new times."
+      );
+    }
+    return proposal;
+  }
+
+  /**
+   * Removes a proposal once it has been booked or discarded.
+   */
+  async delete(id: string): Promise<void> {
+    await this.proposals.delete(id);
+  }
+}
@@ -0,0 +1,212 @@
+import { htmlToText } from "./gmail-message";
+
+const CRLF = "\r\n";
+// RFC 2047 limits an encoded word to 75 characters; 45 bytes of UTF-8 fit
+// in one once base64 encoded together with the =?UTF-8?B?...?= wrapper
+const MAX_ENCODED_WORD_BYTES = 45;
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * A file to include in a message. Attachments with a `contentId` are sent
+ * inline and can be referenced from the HTML body as `cid:<contentId>`.
+ */
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  /** Base64 (or base64url) encoded content */
+  content: string;
+  contentId?: string;
+}
+
+/**
+ * Everything needed to compose an email
+ */
+export interface MimeMessage {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  from?: string;
+  subject: string;
+  /** Plain-text body; generated from `html` when omitted */
+  text?: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  /** Extra headers such as In-Reply-To and References */
+  headers?: Record<string, string>;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Printable ASCII, plus tab; anything else needs RFC 2047 encoding
+const isPlainAscii = (value: string) => /^[\x20-\x7e\t]*$/.test(value);
+
+/**
+ * Encodes a header value as RFC 2047 encoded words if it contains non-ASCII
+ * characters, so subjects and names arrive intact in every mail client.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isPlainAscii(value)) return value;
+  const words: string[] = [];
+  let chunk = "";
+  // Iterate by code point so no character is split across two words
+  for (const char of value) {
+    if (
+      Buffer.byteLength(chunk + char, "utf8") > MAX_ENCODED_WORD_BYTES &&
+      chunk
+    ) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words
+    .map(
+      (word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`
+    )
+    .join(`${CRLF} `);
+}
+
+/**
+ * Encodes the display name of a mailbox such as `José <jose@example.com>`,
+ * leaving the address itself untouched.
+ */
+export function encodeMailbox(mailbox: string): string {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/.exec(mailbox);
+  if (!match || !match[1]) return mailbox.trim();
+  const [, name, address] = match;
+  const encodedName = isPlainAscii(name)
+    ? `"${name.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeaderValue(name);
+  return `${encodedName} <${address}>`;
+}
+
+/**
+ * Normalizes base64 or base64url content and wraps it at 76 characters, as
+ * required for base64 transfer encoding.
+ */
+export function wrapBase64(content: string): string {
+  const normalized = content
+    .replace(/\s+/g, "")
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const lines: string[] = [];
+  for (let i = 0; i < normalized.length; i += BASE64_LINE_LENGTH) {
+    lines.push(normalized.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+/**
+ * Formats a filename parameter, using RFC 2231 encoding for non-ASCII names.
+ */
+function filenameParam(name: string, filename: string): string {
+  if (isPlainAscii(filename)) {
+    return `${name}="${filename.replace(/(["\\])/g, "\\$1")}"`;
+  }
+  return `${name}*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function textPart(mimeType: string, content: string): MimePart {
+  return {
+    headers: {
+      "Content-Type": `${mimeType}; charset=UTF-8`,
+      "Content-Transfer-Encoding": "base64",
+    },
+    body: wrapBase64(Buffer.from(content, "utf8").toString("base64")),
+  };
+}
+
+function attachmentPart(attachment: MimeAttachment, inline: boolean): MimePart {
+  const headers: Record<string, string> = {
+    "Content-Type": `${attachment.mimeType}; ${filenameParam(
+      "name",
+      attachment.filename
+    )}`,
+    "Content-Disposition": `${
+      inline ? "inline" : "attachment"
+    }; ${filenameParam("filename", attachment.filename)}`,
+    "Content-Transfer-Encoding": "base64",
+  };
+  if (attachment.contentId) headers["Content-ID"] = `<${attachment.contentId}>`;
+  return { headers, body: wrapBase64(attachment.content) };
+}
+
+function multipart(subtype: string, parts: MimePart[]): MimePart {
+  const boundary = `=_${subtype}_${crypto.randomUUID().replace(/-/g, "")}`;
+  const body =
+    parts
+      .map((part) => `--${boundary}${CRLF}${serializePart(part)}`)
+      .join(CRLF) + `${CRLF}--${boundary}--`;
+  return {
+    headers: {
+      "Content-Type": `multipart/${subtype}; boundary="${boundary}"`,
+    },
+    body,
+  };
+}
+
+function serializePart(part: MimePart): string {
+  const headers = Object.entries(part.headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(CRLF);
+  return `${headers}${CRLF}${CRLF}${part.body}`;
+}
+
+/**
+ * Builds an RFC 5322 message. The structure is only as deep as needed:
+ *
+ * - multipart/mixed when there are regular attachments, containing
+ * - multipart/related when there are inline images, containing
+ * - multipart/alternative when there is an HTML body (with a generated plain-text alternative)
+ *
+ * @returns The message as CRLF-delimited ASCII text, ready to be base64url encoded.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const attachments = message.attachments ?? [];
+  // Inline images only make sense next to an HTML body
+  const isInline = (a: MimeAttachment) =>
+    !!a.contentId && message.html !== undefined;
+  const inline = attachments.filter(isInline);
+  const regular = attachments.filter((a) => !isInline(a));
+
+  let body: MimePart;
+  if (message.html !== undefined) {
+    body = multipart("alternative", [
+      textPart("text/plain", message.text ?? htmlToText(message.html)),
+      textPart("text/html", message.html),
+    ]);
+    if (inline.length > 0) {
+      body = multipart("related", [
+        body,
+        ...inline.map((a) => attachmentPart(a, true)),
+      ]);
+    }
+  } else {
+    body = textPart("text/plain", message.text ?? "");
+  }
+  if (regular.length > 0) {
+    body = multipart("mixed", [
+      body,
+      ...regular.map((a) => attachmentPart(a, false)),
+    ]);
+  }
+
+  const headers: Record<string, string> = { "MIME-Version": "1.0" };
+  if (message.from) headers.From = encodeMailbox(message.from);
+  headers.To = message.to.map(encodeMailbox).join(", ");
+  if (message.cc?.length) headers.Cc = message.cc.map(encodeMailbox).join(", ");
+  if (message.bcc?.length) {
+    headers.Bcc = message.bcc.map(encodeMailbox).join(", ");
+  }
+  headers.Subject = encodeHeaderValue(message.subject);
+  Object.assign(headers, message.headers);
+
+  return serializePart({
+    headers: { ...headers, ...body.headers },
+    body: body.body,
+  });
+}
@@ -0,0 +1,262 @@
+const SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+
+/**
+ * Google OAuth scopes used by the server
+ */
+export const SCOPES = {
+  GMAIL_READONLY: `${SCOPE_PREFIX}gmail.readonly`,
+  GMAIL_MODIFY: `${SCOPE_PREFIX}gmail.modify`,
+  GMAIL_SETTINGS_BASIC: `${SCOPE_PREFIX}gmail.settings.basic`,
+  // Needed to delete messages for good; never requested by this server
+  GMAIL_FULL: "https://mail.google.com/",
+  DRIVE_READONLY: `${SCOPE_PREFIX}drive.readonly`,
+  DRIVE_FILE: `${SCOPE_PREFIX}drive.file`,
+  DRIVE: `${SCOPE_PREFIX}drive`,
+  CALENDAR_READONLY: `${SCOPE_PREFIX}calendar.readonly`,
+  CALENDAR: `${SCOPE_PREFIX}calendar`,
+  TASKS_READONLY: `${SCOPE_PREFIX}tasks.readonly`,
+  TASKS: `${SCOPE_PREFIX}tasks`,
+  CONTACTS_READONLY: `${SCOPE_PREFIX}contacts.readonly`,
+  YOUTUBE_READONLY: `${SCOPE_PREFIX}youtube.readonly`,
+} as const;
+
+/**
+ * Scopes requested on every authorization, regardless of the services picked
+ */
+export const BASE_SCOPES = ["profile", "email"];
+
+/**
+ * Scopes that cannot modify any user data
+ */
+const READ_ONLY_SCOPES: readonly string[] = [
+  ...BASE_SCOPES,
+  SCOPES.GMAIL_READONLY,
+  SCOPES.DRIVE_READONLY,
+  SCOPES.CALENDAR_READONLY,
+  SCOPES.TASKS_READONLY,
+  SCOPES.CONTACTS_READONLY,
+  SCOPES.YOUTUBE_READONLY,
+];
+
+/**
+ * Read-only counterparts of the write scopes. drive.file has none: it only
+ * covers files the app created itself, which a read-only deployment cannot do.
+ */
+const READ_ONLY_EQUIVALENTS: Record<string, string> = {
+  [SCOPES.GMAIL_MODIFY]: SCOPES.GMAIL_READONLY,
+  [SCOPES.DRIVE]: SCOPES.DRIVE_READONLY,
+  [SCOPES.CALENDAR]: SCOPES.CALENDAR_READONLY,
+  [SCOPES.TASKS]: SCOPES.TASKS_READONLY,
+};
+
+/**
+ * A single access level the user can pick for a service
+ */
+export interface ServiceScopeOption {
+  value: string;
+  label: string;
+  scopes: string[];
+}
+
+/**
+ * A Google service shown in the approval dialog with its access levels
+ */
+export interface ServiceScopeChoice {
+  id: string;
+  label: string;
+  options: ServiceScopeOption[];
+  /** Value of the option selected when the dialog is first shown */
+  defaultValue: string;
+}
+
+const NONE_OPTION: ServiceScopeOption = {
+  value: "none",
+  label: "No access",
+  scopes: [],
+};
+
+/**
+ * Services and access levels the user can choose between in the approval dialog
+ */
+export const SERVICE_SCOPE_CHOICES: ServiceScopeChoice[] = [
+  {
+    id: "gmail",
+    label: "Gmail",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only",
+        scopes: [SCOPES.GMAIL_READONLY],
+      },
+      {
+        value: "modify",
+        label: "Read, send and organize",
+        scopes: [SCOPES.GMAIL_MODIFY],
+      },
+      {
+        value: "settings",
+        label: "Read, send, organize and manage filters and settings",
+        scopes: [SCOPES.GMAIL_MODIFY, SCOPES.GMAIL_SETTINGS_BASIC],
+      },
+    ],
+    defaultValue: "readonly",
+  },
+  {
+    id: "drive",
+    label: "Google Drive",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only, all files",
+        scopes: [SCOPES.DRIVE_READONLY],
+      },
+      {
+        value: "file",
+        label: "Only files created or opened by this app",
+        scopes: [SCOPES.DRIVE_FILE],
+      },
+      { value: "full", label: "All files", scopes: [SCOPES.DRIVE] },
+    ],
+    defaultValue: "file",
+  },
+  {
+    id: "calendar",
+    label: "Google Calendar",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only",
+        scopes: [SCOPES.CALENDAR_READONLY],
+      },
+      { value: "write", label: "Read and edit", scopes: [SCOPES.CALENDAR] },
+    ],
+    defaultValue: "readonly",
+  },
+  {
+    id: "tasks",
+    label: "Google Tasks",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only",
+        scopes: [SCOPES.TASKS_READONLY],
+      },
+      { value: "write", label: "Read and edit", scopes: [SCOPES.TASKS] },
+    ],
+    defaultValue: "write",
+  },
+  {
+    id: "contacts",
+    label: "Google Contacts",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only",
+        scopes: [SCOPES.CONTACTS_READONLY],
+      },
+    ],
+    defaultValue: "readonly",
+  },
+  {
+    id: "youtube",
+    label: "YouTube",
+    options: [
+      NONE_OPTION,
+      {
+        value: "readonly",
+        label: "Read-only",
+        scopes: [SCOPES.YOUTUBE_READONLY],
+      },
+    ],
+    defaultValue: "readonly",
+  },
+];
+
+/**
+ * Whether the deployment is configured to expose only read-only tools.
+ */
+export function isReadOnlyMode(env: Env): boolean {
+  return env.READ_ONLY_MODE === "true";
+}
+
+/**
+ * Returns the service choices to show in the approval dialog. In read-only
+ * mode only access levels made up of read-only scopes are offered.
+ */
+export function getServiceScopeChoices(
+  readOnly: boolean
+): ServiceScopeChoice[] {
+  if (!readOnly) return SERVICE_SCOPE_CHOICES;
+  return SERVICE_SCOPE_CHOICES.map((choice) => {
+    const options = choice.options.filter((option) =>
+      option.scopes.every((scope) => READ_ONLY_SCOPES.includes(scope))
+    );
+    const defaultValue = options.some((o) => o.value === choice.defaultValue)
+      ? choice.defaultValue
+      : options[options.length - 1].value;
+    return { ...choice, options, defaultValue };
+  });
+}
+
+/**
+ * Narrows scopes to their read-only counterparts, dropping any scope that has
+ * no read-only equivalent.
+ */
+export function toReadOnlyScopes(scopes: string[]): string[] {
+  const narrowed = scopes
+    .map((scope) =>
+      READ_ONLY_SCOPES.includes(scope) ? scope : READ_ONLY_EQUIVALENTS[scope]
+    )
+    .filter((scope): scope is string => !!scope);
+  return Array.from(new Set(narrowed));
+}
+
+/**
+ * Resolves the per-service selections from the approval dialog into the list
+ * of scopes to request from Google. Unknown services or values are ignored.
+ *
+ * @param selections - Map of service ID to the selected option value.
+ * @param readOnly - Whether to narrow the result to read-only scopes.
+ * @returns The scopes to request, always including the base scopes.
+ */
+export function scopesForSelections(
+  selections: Record<string, string>,
+  readOnly = false
+): string[] {
+  const scopes = new Set(BASE_SCOPES);
+  for (const choice of SERVICE_SCOPE_CHOICES) {
+    const option = choice.options.find(
+      (o) => o.value === selections[choice.id]
+    );
+    option?.scopes.forEach((scope) => scopes.add(scope));
+  }
+  const requested = Array.from(scopes);
+  return readOnly ? toReadOnlyScopes(requested) : requested;
+}
+
+/**
+ * Checks whether any of the required scopes has been granted.
+ *
+ * @param granted - Scopes granted by Google, or undefined for sessions
+ *   authorized before scopes were recorded (treated as granting everything).
+ * @param required - Scopes of which at least one must be granted.
+ */
+export function hasAnyScope(
+  granted: string[] | undefined,
+  required: readonly string[]
+): boolean {
+  if (!granted) return true;
+  return required.some((scope) => granted.includes(scope));
+}
+
+/**
+ * Splits the space-delimited `scope` field of a Google token response.
+ */
+export function parseScopeString(scope?: string): string[] | undefined {
+  return scope ? scope.split(" ").filter(Boolean) : undefined;
+}
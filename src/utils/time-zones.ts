@@ -0,0 +1,182 @@
+/**
+ * Calendar dates (YYYY-MM-DD), local times and the user's time zone.
+ * Workers run in UTC, so local times are worked out with Intl instead of the
+ * local-time methods of Date.
+ */
+import { Auth, google } from "googleapis";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UTC_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value is a calendar date (YYYY-MM-DD) without a time.
+ */
+export function isDateOnly(value: string): boolean {
+  return DATE_PATTERN.test(value);
+}
+
+/**
+ * Checks whether an ISO 8601 date-time ends in a UTC offset or "Z".
+ */
+export function hasUtcOffset(dateTime: string): boolean {
+  return UTC_OFFSET_PATTERN.test(dateTime);
+}
+
+/**
+ * Gets the time zone set in the user's Calendar settings, which Google uses
+ * for the primary calendar and for showing events.
+ *
+ * @param client - Authorized client of the current user.
+ */
+export async function getCalendarTimeZone(
+  client: Auth.OAuth2Client
+): Promise<string> {
+  const calendar = google.calendar({ version: "v3", auth: client });
+  const response = await calendar.settings.get({ setting: "timezone" });
+  return response.data.value || "UTC";
+}
+
+/**
+ * Returns how far a time zone is ahead of UTC at an instant, in milliseconds.
+ */
+export function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Returns the calendar date of an instant in a time zone, as YYYY-MM-DD.
+ */
+export function localDate(instant: Date, timeZone: string): string {
+  return instant.toLocaleDateString("en-CA", { timeZone });
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Returns the instant a local wall-clock time occurs in a time zone. Times
+ * skipped by a DST change resolve to the instant after the gap.
+ */
+function fromWallClock(wallClockUtc: number, timeZone: string): Date {
+  const offset = timeZoneOffsetMs(new Date(wallClockUtc), timeZone);
+  // The offset may differ at the local time itself around DST changes
+  const corrected = timeZoneOffsetMs(new Date(wallClockUtc - offset), timeZone);
+  return new Date(wallClockUtc - corrected);
+}
+
+/**
+ * Returns the instant a calendar date starts in a time zone.
+ */
+export function startOfDay(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return fromWallClock(Date.UTC(year, month - 1, day), timeZone);
+}
+
+/**
+ * Resolves a date or date-time to an instant. Date-times with a UTC offset
+ * (or "Z") are taken as is; local date-times are read in `timeZone`, and
+ * dates resolve to the start of that day.
+ *
+ * @param value - YYYY-MM-DD, or an ISO 8601 date-time with or without offset.
+ * @param timeZone - IANA time zone for values without an offset.
+ */
+export function zonedInstant(value: string, timeZone: string): Date {
+  if (isDateOnly(value)) return startOfDay(value, timeZone);
+  if (hasUtcOffset(value)) return new Date(value);
+  const [date, time] = value.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute, second = "0"] = time.split(":");
+  return fromWallClock(
+    Date.UTC(
+      year,
+      month - 1,
+      day,
+      Number(hour),
+      Number(minute),
+      Math.floor(Number(second))
+    ),
+    timeZone
+  );
+}
+
+/**
+ * Formats an instant as an ISO 8601 date-time with the UTC offset of a time
+ * zone, e.g. "2025-03-14T09:30:00+01:00".
+ */
+export function toZonedIsoString(instant: Date, timeZone: string): string {
+  const offsetMinutes = Math.round(timeZoneOffsetMs(instant, timeZone) / 60000);
+  const local = new Date(instant.getTime() + offsetMinutes * 60000)
+    .toISOString()
+    .slice(0, 19);
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(
+    2,
+    "0"
+  );
+  const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, "0");
+  return `${local}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Formats an instant for people to read, in a time zone.
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  return instant.toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
+
+/**
+ * Returns the ISO weekday of a YYYY-MM-DD date, 1 (Monday) to 7 (Sunday).
+ */
+export function isoWeekday(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+}
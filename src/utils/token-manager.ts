@@ -0,0 +1,170 @@
+import { google, Auth } from "googleapis";
+import { Props, refreshUpstreamAuthToken } from "./upstream-utils";
+import { parseScopeString } from "./scopes";
+import { GoogleApiClient, GoogleRequestLayer } from "./google-request";
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+// Refresh this long before Google's reported expiry to avoid racing it
+const EXPIRY_SKEW_MS = 5 * 60 * 1000;
+// Google access tokens live for an hour unless the response says otherwise
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * Options for creating a token manager
+ */
+export interface TokenManagerOptions {
+  /**
+   * Google OAuth client ID used for the refresh grant
+   */
+  clientId: string;
+  /**
+   * Google OAuth client secret used for the refresh grant
+   */
+  clientSecret: string;
+  /**
+   * Called with the updated props after every successful refresh so the
+   * caller can persist the new access token
+   */
+  onRefresh?: (props: Props) => Promise<void> | void;
+  /**
+   * Request layer that every API call made with the shared client goes
+   * through, adding retries, a concurrency cap and quota tracking
+   */
+  requestLayer?: GoogleRequestLayer;
+}
+
+/**
+ * Computes the absolute expiry (ms since epoch) for a token lifetime in seconds.
+ */
+export function expiresAtFromNow(expiresIn?: number): number | undefined {
+  return expiresIn ? Date.now() + expiresIn * 1000 : undefined;
+}
+
+/**
+ * Exchanges the refresh token in `props` for a new Google access token and
+ * returns the props updated with it.
+ */
+export async function refreshGoogleProps(
+  props: Props,
+  clientId: string,
+  clientSecret: string
+): Promise<Props> {
+  if (!props.refreshToken) {
+    throw new Error(
+      "No refresh token available. Re-authorize the MCP client to continue."
+    );
+  }
+  const tokens = await refreshUpstreamAuthToken({
+    upstream_url: GOOGLE_TOKEN_URL,
+    client_id: clientId,
+    client_secret: clientSecret,
+    refresh_token: props.refreshToken,
+  });
+  return {
+    ...props,
+    accessToken: tokens.access_token,
+    // Google only rotates the refresh token occasionally
+    refreshToken: tokens.refresh_token || props.refreshToken,
+    expiresIn: tokens.expires_in,
+    expiresAt: expiresAtFromNow(tokens.expires_in),
+    scopes: parseScopeString(tokens.scope) ?? props.scopes,
+  };
+}
+
+/**
+ * Owns the Google credentials for a single user session. Every tool module
+ * shares the same OAuth2 client, which asks the manager for a fresh access
+ * token shortly before expiry or when Google answers with a 401.
+ */
+export class GoogleTokenManager {
+  private currentProps: Props;
+  private client: Auth.OAuth2Client | null = null;
+  private pendingRefresh: Promise<Props> | null = null;
+
+  constructor(props: Props, private readonly options: TokenManagerOptions) {
+    this.currentProps = props;
+  }
+
+  /**
+   * The latest props, including any refreshed access token
+   */
+  get props(): Props {
+    return this.currentProps;
+  }
+
+  /**
+   * Returns the shared OAuth2 client to pass as `auth` to googleapis
+   */
+  getClient(): Auth.OAuth2Client {
+    if (!this.client) {
+      const clientOptions = {
+        eagerRefreshThresholdMillis: EXPIRY_SKEW_MS,
+        forceRefreshOnFailure: true,
+      };
+      const auth = this.options.requestLayer
+        ? new GoogleApiClient(this.options.requestLayer, clientOptions)
+        : new google.auth.OAuth2(clientOptions);
+      // Only the access token is handed to the client; refreshing goes
+      // through refreshHandler so that the manager stays the single owner
+      // of the refresh token and of persistence.
+      auth.setCredentials({
+        access_token: this.currentProps.accessToken,
+        expiry_date: this.currentProps.expiresAt,
+      });
+      if (this.currentProps.refreshToken) {
+        auth.refreshHandler = async () => {
+          const props = await this.refresh();
+          return {
+            access_token: props.accessToken,
+            expiry_date:
+              props.expiresAt ?? Date.now() + DEFAULT_TOKEN_LIFETIME_MS,
+          };
+        };
+      }
+      this.client = auth;
+    }
+    return this.client;
+  }
+
+  /**
+   * Returns a valid access token, refreshing it first if it is about to expire
+   */
+  async getAccessToken(): Promise<string> {
+    const { accessToken, expiresAt, refreshToken } = this.currentProps;
+    if (
+      refreshToken &&
+      expiresAt !== undefined &&
+      expiresAt - EXPIRY_SKEW_MS <= Date.now()
+    ) {
+      return (await this.refresh()).accessToken;
+    }
+    return accessToken;
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new access token. Concurrent
+   * callers share a single request to Google's token endpoint.
+   */
+  refresh(): Promise<Props> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.doRefresh().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async doRefresh(): Promise<Props> {
+    this.currentProps = await refreshGoogleProps(
+      this.currentProps,
+      this.options.clientId,
+      this.options.clientSecret
+    );
+    this.client?.setCredentials({
+      access_token: this.currentProps.accessToken,
+      expiry_date: this.currentProps.expiresAt,
+    });
+    await this.options.onRefresh?.(this.currentProps);
+    return this.currentProps;
+  }
+}
@@ -0,0 +1,101 @@
+// How often expired entries are swept from storage
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Durable Object storage deletes at most 128 keys per call
+const MAX_KEYS_PER_DELETE = 128;
+
+/**
+ * The part of Durable Object storage the entries are kept in
+ */
+export type TtlStorage = Pick<
+  DurableObjectStorage,
+  "get" | "put" | "delete" | "list"
+>;
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Keeps short-lived values under a key prefix in Durable Object storage.
+ * Expired values read as missing, and are swept from storage every so often
+ * as new ones are stored.
+ */
+export class TtlStore<T> {
+  private lastPrunedAt = 0;
+
+  /**
+   * @param storage - Durable Object storage to keep the values in.
+   * @param prefix - Prefix of the storage keys, e.g. "cursor:".
+   * @param ttlMs - How long a value is kept unless `put()` says otherwise.
+   */
+  constructor(
+    private readonly storage: TtlStorage,
+    private readonly prefix: string,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Stores a value.
+   *
+   * @param expiresAt - When the value expires, in ms since the epoch
+   * (default: ttlMs from now).
+   */
+  async put(
+    key: string,
+    value: T,
+    expiresAt = Date.now() + this.ttlMs
+  ): Promise<void> {
+    await this.prune();
+    const stored: StoredEntry<T> = { value, expiresAt };
+    await this.storage.put(`${this.prefix}${key}`, stored);
+  }
+
+  /**
+   * Looks up a value.
+   *
+   * @returns The value, or undefined if it is unknown or expired.
+   */
+  async get(key: string): Promise<T | undefined> {
+    const stored = await this.storage.get<StoredEntry<T>>(
+      `${this.prefix}${key}`
+    );
+    return stored && stored.expiresAt > Date.now() ? stored.value : undefined;
+  }
+
+  /**
+   * Looks up a value and removes it, so it can only be taken once.
+   *
+   * @returns The value, or undefined if it is unknown or expired.
+   */
+  async take(key: string): Promise<T | undefined> {
+    const value = await this.get(key);
+    await this.delete(key);
+    return value;
+  }
+
+  /**
+   * Removes a value.
+   */
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(`${this.prefix}${key}`);
+  }
+
+  /**
+   * Deletes expired values, at most once per PRUNE_INTERVAL_MS.
+   */
+  async prune(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    const entries = await this.storage.list<StoredEntry<T>>({
+      prefix: this.prefix,
+    });
+    const expired = [...entries]
+      .filter(([, stored]) => stored.expiresAt <= now)
+      .map(([key]) => key);
+    for (let i = 0; i < expired.length; i += MAX_KEYS_PER_DELETE) {
+      await this.storage.delete(expired.slice(i, i + MAX_KEYS_PER_DELETE));
+    }
+  }
+}
@@ -15,6 +15,9 @@ interface GoogleOAuthTokenResponse {
  * @param {string} options.client_id - The client ID of the application.
  * @param {string} options.redirect_uri - The redirect URI of the application.
  * @param {string} [options.state] - The state parameter.
+ * @param {string} [options.access_type] - Set to "offline" to receive a refresh token.
+ * @param {string} [options.prompt] - The prompt parameter (e.g. "consent").
+ * @param {boolean} [options.include_granted_scopes] - Whether previously granted scopes are added to the new grant.
  *
  * @returns {string} The authorization URL.
  */
@@ -24,18 +27,28 @@ export function getUpstreamAuthorizeUrl({
   scope,
   redirect_uri,
   state,
+  access_type,
+  prompt,
+  include_granted_scopes,
 }: {
   upstream_url: string;
   client_id: string;
   scope: string;
   redirect_uri: string;
   state?: string;
+  access_type?: "online" | "offline";
+  prompt?: string;
+  include_granted_scopes?: boolean;
 }) {
   const upstream = new URL(upstream_url);
   upstream.searchParams.set("client_id", client_id);
   upstream.searchParams.set("redirect_uri", redirect_uri);
   upstream.searchParams.set("scope", scope);
   if (state) upstream.searchParams.set("state", state);
+  if (access_type) upstream.searchParams.set("access_type", access_type);
+  if (prompt) upstream.searchParams.set("prompt", prompt);
+  if (include_granted_scopes)
+    upstream.searchParams.set("include_granted_scopes", "true");
   upstream.searchParams.set("response_type", "code");
   return upstream.href;
 }
@@ -96,6 +109,53 @@ export async function fetchUpstreamAuthToken({
   return [body, null];
 }
 
+/**
+ * Exchanges a refresh token for a new access token at an upstream service.
+ *
+ * @param {Object} options
+ * @param {string} options.client_id - The client ID of the application.
+ * @param {string} options.client_secret - The client secret of the application.
+ * @param {string} options.refresh_token - The refresh token issued with the original grant.
+ * @param {string} options.upstream_url - The token endpoint URL of the upstream service.
+ *
+ * @returns {Promise<GoogleOAuthTokenResponse>} The refreshed token response.
+ * @throws If the upstream service rejects the refresh token.
+ */
+export async function refreshUpstreamAuthToken({
+  client_id,
+  client_secret,
+  refresh_token,
+  upstream_url,
+}: {
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+  upstream_url: string;
+}): Promise<GoogleOAuthTokenResponse> {
+  const resp = await fetch(upstream_url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id,
+      client_secret,
+      refresh_token,
+      grant_type: "refresh_token",
+    }).toString(),
+  });
+  if (!resp.ok) {
+    throw new Error(
+      `Failed to refresh access token: ${resp.status} ${await resp.text()}`
+    );
+  }
+  const body = (await resp.json()) as GoogleOAuthTokenResponse;
+  if (!body.access_token) {
+    throw new Error("Missing access token in refresh response");
+  }
+  return body;
+}
+
 export type Props = {
   sub: string; // Google's unique user ID
   name: string; // Full name
@@ -103,4 +163,6 @@ export type Props = {
   accessToken: string; // Access token for API calls
   refreshToken?: string; // Optional refresh token
   expiresIn?: number; // Optional expiration time in seconds
+  expiresAt?: number; // Absolute expiry of the access token (ms since epoch)
+  scopes?: string[]; // Scopes actually granted by Google
 };
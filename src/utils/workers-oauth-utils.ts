@@ -2,9 +2,11 @@ import type {
   ClientInfo,
   AuthRequest,
 } from "@cloudflare/workers-oauth-provider"; // Adjust path if necessary
+import type { ServiceScopeChoice } from "./scopes";
 
 const COOKIE_NAME = "mcp-approved-clients";
 const ONE_YEAR_IN_SECONDS = 31536000;
+const SCOPE_FIELD_PREFIX = "scope_";
 
 // --- Helper Functions ---
 
@@ -212,6 +214,11 @@ export interface ApprovalDialogOptions {
    * Will be encoded in the form and returned when approval is complete
    */
   state: Record<string, any>;
+  /**
+   * Services the user can grant access to, each rendered as a select with
+   * its access levels. The selections are returned by parseRedirectApproval.
+   */
+  scopeChoices?: ServiceScopeChoice[];
   /**
    * Name of the cookie to use for storing approvals
    * @default "mcp_approved_clients"
@@ -253,7 +260,7 @@ export function renderApprovalDialog(
   request: Request,
   options: ApprovalDialogOptions
 ): Response {
-  const { client, server, state } = options;
+  const { client, server, state, scopeChoices = [] } = options;
 
   // Encode state for form submission
   const encodedState = btoa(JSON.stringify(state));
@@ -285,6 +292,28 @@ export function renderApprovalDialog(
       ? client.redirectUris.map((uri) => sanitizeHtml(uri))
       : [];
 
+  // One select per service, preselecting its default access level
+  const scopeFields = scopeChoices
+    .map((choice) => {
+      const id = sanitizeHtml(choice.id);
+      const options = choice.options
+        .map(
+          (option) =>
+            `<option value="${sanitizeHtml(option.value)}"${
+              option.value === choice.defaultValue ? " selected" : ""
+            }>${sanitizeHtml(option.label)}</option>`
+        )
+        .join("");
+      return `
+                <div class="client-detail">
+                  <label class="detail-label" for="${SCOPE_FIELD_PREFIX}${id}">${sanitizeHtml(
+        choice.label
+      )}:</label>
+                  <select class="scope-select" id="${SCOPE_FIELD_PREFIX}${id}" name="${SCOPE_FIELD_PREFIX}${id}">${options}</select>
+                </div>`;
+    })
+    .join("");
+
   // Generate HTML for the approval dialog
   const htmlContent = `
     <!DOCTYPE html>
@@ -410,6 +439,12 @@ export function renderApprovalDialog(
             vertical-align: super;
           }
           
+          .scope-select {
+            flex: 1;
+            padding: 0.25rem;
+            font-size: 0.95rem;
+          }
+          
           .actions {
             display: flex;
             justify-content: flex-end;
@@ -575,6 +610,17 @@ export function renderApprovalDialog(
             <form method="post" action="${new URL(request.url).pathname}">
               <input type="hidden" name="state" value="${encodedState}">
               
+              ${
+                scopeFields
+                  ? `
+              <div class="client-info">
+                <p class="client-name">Google access</p>
+                ${scopeFields}
+              </div>
+              `
+                  : ""
+              }
+              
               <div class="actions">
                 <button type="button" class="button button-secondary" onclick="window.history.back()">Cancel</button>
                 <button type="submit" class="button button-primary">Approve</button>
@@ -601,15 +647,18 @@ export interface ParsedApprovalResult {
   state: any;
   /** Headers to set on the redirect response, including the Set-Cookie header. */
   headers: Record<string, string>;
+  /** Access level picked for each service in the dialog, keyed by service ID. */
+  scopeSelections: Record<string, string>;
 }
 
 /**
- * Parses the form submission from the approval dialog, extracts the state,
- * and generates Set-Cookie headers to mark the client as approved.
+ * Parses the form submission from the approval dialog, extracts the state and
+ * the selected service access levels, and generates Set-Cookie headers to mark
+ * the client as approved.
  *
  * @param request - The incoming POST Request object containing the form data.
  * @param cookieSecret - The secret key used to sign the approval cookie.
- * @returns A promise resolving to an object containing the parsed state and necessary headers.
+ * @returns A promise resolving to an object containing the parsed state, scope selections and necessary headers.
  * @throws If the request method is not POST, form data is invalid, or state is missing.
  */
 export async function parseRedirectApproval(
@@ -622,6 +671,7 @@ export async function parseRedirectApproval(
 
   let state: any;
   let clientId: string | undefined;
+  const scopeSelections: Record<string, string> = {};
 
   try {
     const formData = await request.formData();
@@ -637,6 +687,12 @@ export async function parseRedirectApproval(
     if (!clientId) {
       throw new Error("Could not extract clientId from state object.");
     }
+
+    for (const [name, value] of formData.entries()) {
+      if (name.startsWith(SCOPE_FIELD_PREFIX) && typeof value === "string") {
+        scopeSelections[name.substring(SCOPE_FIELD_PREFIX.length)] = value;
+      }
+    }
   } catch (e) {
     console.error("Error processing form submission:", e);
     // Rethrow or handle as appropriate, maybe return a specific error response
@@ -668,7 +724,7 @@ export async function parseRedirectApproval(
     "Set-Cookie": `${COOKIE_NAME}=${newCookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${ONE_YEAR_IN_SECONDS}`,
   };
 
-  return { state, headers };
+  return { state, headers, scopeSelections };
 }
 
 /**
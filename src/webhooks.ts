@@ -0,0 +1,118 @@
+import { gmailPushKeyPrefix } from "./resources/subscriptions";
+
+/**
+ * Data of a Gmail push message, published to Pub/Sub by users.watch
+ */
+interface GmailPushData {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Extracts the mailbox from the body of a Pub/Sub push request.
+ *
+ * @returns The push data, or undefined if the body is not a Gmail push message.
+ */
+export function parseGmailPush(body: unknown): GmailPushData | undefined {
+  const data = (body as { message?: { data?: unknown } })?.message?.data;
+  if (typeof data !== "string") return undefined;
+  try {
+    const parsed = JSON.parse(Buffer.from(data, "base64").toString("utf8"));
+    return typeof parsed?.emailAddress === "string" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Passes a Gmail push message on to every session watching the mailbox, and
+ * forgets sessions that no longer do.
+ */
+async function handleGmailPush(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  // Without a verification token anyone could fake pushes, so they are only
+  // accepted when simulating them is explicitly enabled for development
+  const verified = env.PUBSUB_VERIFICATION_TOKEN
+    ? url.searchParams.get("token") === env.PUBSUB_VERIFICATION_TOKEN
+    : env.SIMULATE_GMAIL_PUSH === "true";
+  if (!verified) {
+    return new Response("Invalid token", { status: 403 });
+  }
+  const push = parseGmailPush(await request.json().catch(() => undefined));
+  if (!push) {
+    return new Response("Not a Gmail push message", { status: 400 });
+  }
+
+  const prefix = gmailPushKeyPrefix(push.emailAddress);
+  const { keys } = await env.OAUTH_KV.list({ prefix });
+  const sessions = env.MCP_OBJECT;
+  const results = await Promise.allSettled(
+    keys.map(async (key) => {
+      const id = sessions.idFromString(key.name.slice(prefix.length));
+      const watching = await sessions.get(id).onGmailPush();
+      if (!watching) await env.OAUTH_KV.delete(key.name);
+    })
+  );
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error("Error delivering Gmail push:", result.reason);
+    }
+  }
+  // Acknowledge even if a session failed, so Pub/Sub does not redeliver
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Passes a Drive changes notification on to the session that opened the
+ * channel, identified by the channel token.
+ */
+async function handleDriveChange(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const channelId = request.headers.get("X-Goog-Channel-ID");
+  const token = request.headers.get("X-Goog-Channel-Token");
+  if (!channelId || !token) {
+    return new Response("Not a Drive notification", { status: 400 });
+  }
+  // Sent once when the channel is created
+  if (request.headers.get("X-Goog-Resource-State") === "sync") {
+    return new Response(null, { status: 204 });
+  }
+
+  const sessions = env.MCP_OBJECT;
+  let id: DurableObjectId;
+  try {
+    id = sessions.idFromString(token);
+  } catch {
+    return new Response("Unknown channel", { status: 400 });
+  }
+  try {
+    // Notifications on a stale channel, e.g. one replaced on renewal, are
+    // dropped by the session
+    await sessions.get(id).onDriveChange(channelId);
+  } catch (error) {
+    console.error("Error delivering Drive change:", error);
+  }
+  // Acknowledge even if the session failed, so Drive does not redeliver
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Receives Google push notifications and turns them into MCP resource
+ * update notifications for the subscribed sessions:
+ *
+ * - `POST /webhooks/gmail`: Pub/Sub push subscription of the Gmail users.watch topic
+ * - `POST /webhooks/drive`: Drive changes.watch channel notifications
+ */
+export const webhookHandler = {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+    const { pathname } = new URL(request.url);
+    if (pathname === "/webhooks/gmail") return handleGmailPush(request, env);
+    if (pathname === "/webhooks/drive") return handleDriveChange(request, env);
+    return new Response("Not found", { status: 404 });
+  },
+};
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { registerCalendarInvitationTools } from "../src/tools/calendar-invitations";
+import { captureTools, fakeTokenManager } from "./tool-harness";
+
+const events = vi.hoisted(() => ({
+  get: vi.fn(),
+  patch: vi.fn(),
+}));
+
+vi.mock("googleapis", () => ({
+  google: { calendar: () => ({ events }) },
+}));
+
+const callTool = captureTools((server) =>
+  registerCalendarInvitationTools(server, fakeTokenManager())
+);
+
+const organizer = { email: "boss@example.com", responseStatus: "accepted" };
+const me = {
+  email: "me@example.com",
+  self: true,
+  responseStatus: "needsAction",
+};
+const colleague = {
+  email: "colleague@example.com",
+  optional: true,
+  responseStatus: "accepted",
+};
+
+function invitation(organizerIsMe = false) {
+  return {
+    id: "event1",
+    summary: "Planning",
+    start: { dateTime: "2026-11-02T10:00:00Z" },
+    end: { dateTime: "2026-11-02T11:00:00Z" },
+    organizer: organizerIsMe
+      ? { email: me.email, self: true }
+      : { email: organizer.email },
+    attendees: [organizer, me, colleague],
+  };
+}
+
+beforeEach(() => {
+  events.get.mockReset();
+  events.patch.mockReset();
+  events.patch.mockImplementation(async ({ requestBody }) => ({
+    data: { ...invitation(), ...requestBody },
+  }));
+});
+
+describe("calendar_respondToInvitation", () => {
+  it("sends only the guest's own entry, leaving the other attendees untouched", async () => {
+    events.get.mockResolvedValue({ data: invitation() });
+
+    await callTool("calendar_respondToInvitation", {
+      eventId: "event1",
+      response: "accepted",
+      comment: "See you there",
+    });
+
+    expect(events.patch).toHaveBeenCalledTimes(1);
+    expect(events.patch.mock.calls[0][0]).toMatchObject({
+      calendarId: "primary",
+      eventId: "event1",
+      requestBody: {
+        attendees: [
+          { ...me, responseStatus: "accepted", comment: "See you there" },
+        ],
+      },
+    });
+  });
+
+  it("sends the whole list back when the organizer responds", async () => {
+    events.get.mockResolvedValue({ data: invitation(true) });
+
+    await callTool("calendar_respondToInvitation", {
+      eventId: "event1",
+      response: "tentative",
+    });
+
+    expect(events.patch.mock.calls[0][0].requestBody.attendees).toEqual([
+      organizer,
+      { ...me, responseStatus: "tentative" },
+      colleague,
+    ]);
+  });
+});
+
+describe("calendar_proposeNewTime", () => {
+  it("sends only the guest's own entry with the proposal", async () => {
+    events.get.mockResolvedValue({ data: invitation() });
+
+    await callTool("calendar_proposeNewTime", {
+      eventId: "event1",
+      start: "2026-11-03T10:00:00Z",
+      end: "2026-11-03T11:00:00Z",
+      timeZone: "UTC",
+    });
+
+    const { attendees } = events.patch.mock.calls[0][0].requestBody;
+    expect(attendees).toHaveLength(1);
+    expect(attendees[0]).toMatchObject({
+      email: me.email,
+      responseStatus: "tentative",
+    });
+    expect(attendees[0].comment).toMatch(/^Proposed new time: /);
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { registerGmailTools } from "../src/tools/gmail";
+import type { ConfirmationStore } from "../src/utils/confirmations";
+import type { CursorStore } from "../src/utils/cursors";
+import { captureTools, fakeTokenManager } from "./tool-harness";
+
+const gmail = vi.hoisted(() => ({
+  drafts: { get: vi.fn(), update: vi.fn() },
+  attachments: { get: vi.fn() },
+}));
+
+vi.mock("googleapis", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("googleapis")>()),
+  google: {
+    gmail: () => ({
+      users: {
+        drafts: gmail.drafts,
+        messages: { attachments: gmail.attachments },
+      },
+    }),
+  },
+}));
+
+const callTool = captureTools((server) =>
+  registerGmailTools(
+    server,
+    fakeTokenManager(),
+    {} as CursorStore,
+    {} as ConfirmationStore
+  )
+);
+
+const encode = (text: string) => Buffer.from(text).toString("base64url");
+const IMAGE = Buffer.from("not really a png").toString("base64url");
+
+/**
+ * A draft written from a send-as alias, with an HTML body showing an
+ * inline image
+ */
+const draftMessage = {
+  id: "message1",
+  threadId: "thread1",
+  payload: {
+    mimeType: "multipart/related",
+    headers: [
+      { name: "From", value: "Support Team <support@example.com>" },
+      { name: "To", value: "customer@example.org" },
+      { name: "Subject", value: "Your order" },
+    ],
+    parts: [
+      {
+        partId: "0",
+        mimeType: "multipart/alternative",
+        parts: [
+          {
+            partId: "0.0",
+            mimeType: "text/plain",
+            body: { data: encode("Hello [logo]") },
+          },
+          {
+            partId: "0.1",
+            mimeType: "text/html",
+            body: { data: encode('<p>Hello <img src="cid:logo@shop"></p>') },
+          },
+        ],
+      },
+      {
+        partId: "1",
+        mimeType: "image/png",
+        filename: "logo.png",
+        headers: [{ name: "Content-ID", value: "<logo@shop>" }],
+        body: { attachmentId: "attachment1", size: 16 },
+      },
+    ],
+  },
+};
+
+/**
+ * Decodes the raw message the draft was updated with
+ */
+function sentMessage(): string {
+  const { raw } = gmail.drafts.update.mock.calls[0][0].requestBody.message;
+  return Buffer.from(raw, "base64url").toString("utf8");
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  gmail.drafts.get.mockResolvedValue({
+    data: { id: "draft1", message: draftMessage },
+  });
+  gmail.attachments.get.mockResolvedValue({ data: { data: IMAGE } });
+  gmail.drafts.update.mockResolvedValue({
+    data: { id: "draft1", message: { id: "message2" } },
+  });
+});
+
+describe("gmail_updateDraft", () => {
+  it("keeps the send-as alias the draft was written from", async () => {
+    await callTool("gmail_updateDraft", {
+      draftId: "draft1",
+      subject: "Your order has shipped",
+    });
+
+    const message = sentMessage();
+    expect(message).toMatch(/^From: "Support Team" <support@example\.com>\r$/m);
+    expect(message).toMatch(/^Subject: Your order has shipped\r$/m);
+  });
+
+  it("keeps the inline images the new body still shows", async () => {
+    await callTool("gmail_updateDraft", {
+      draftId: "draft1",
+      body: '<p>Hello again <img src="cid:logo@shop"></p>',
+    });
+
+    expect(gmail.attachments.get).toHaveBeenCalledWith({
+      userId: "me",
+      messageId: "message1",
+      id: "attachment1",
+    });
+    const message = sentMessage();
+    expect(message).toContain("multipart/related");
+    expect(message).toMatch(/^Content-ID: <logo@shop>\r$/m);
+    expect(message).toMatch(/^Content-Disposition: inline; /m);
+  });
+
+  it("keeps an HTML body and its inline images when only the subject changes", async () => {
+    await callTool("gmail_updateDraft", {
+      draftId: "draft1",
+      subject: "Your order has shipped",
+    });
+
+    const message = sentMessage();
+    expect(message).toContain("Content-Type: text/html");
+    expect(message).toMatch(/^Content-ID: <logo@shop>\r$/m);
+  });
+});
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import type { GoogleTokenManager } from "../src/utils/token-manager";
+import type { ToolRegistrar } from "../src/tools/registry";
+
+type Handler = (args: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Collects the tools a module registers so tests can call their handlers
+ * directly, with the arguments parsed (and defaulted) by the tool's own
+ * input schema as the MCP server would.
+ */
+export function captureTools(register: (server: ToolRegistrar) => void) {
+  const tools = new Map<
+    string,
+    { inputSchema: z.ZodRawShape; handler: Handler }
+  >();
+  const server = {
+    registerTool: (
+      name: string,
+      config: { inputSchema?: z.ZodRawShape },
+      handler: Handler
+    ) => {
+      tools.set(name, { inputSchema: config.inputSchema ?? {}, handler });
+    },
+  } as unknown as ToolRegistrar;
+  register(server);
+
+  return (name: string, args: Record<string, unknown>) => {
+    const tool = tools.get(name);
+    if (!tool) throw new Error(`Tool ${name} was not registered`);
+    return tool.handler(z.object(tool.inputSchema).parse(args));
+  };
+}
+
+/**
+ * A token manager for the signed-in user; API clients are mocked, so the
+ * OAuth client itself is never used.
+ */
+export function fakeTokenManager(email = "me@example.com") {
+  return {
+    props: { email, accessToken: "token" },
+    getClient: () => ({}),
+  } as unknown as GoogleTokenManager;
+}
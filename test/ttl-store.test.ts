@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TtlStorage, TtlStore } from "../src/utils/ttl-store";
+
+/**
+ * An in-memory stand-in for the Durable Object storage calls the store makes
+ */
+function memoryStorage() {
+  const data = new Map<string, unknown>();
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => {
+      data.set(key, value);
+    },
+    delete: async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) data.delete(key);
+    },
+    list: async ({ prefix }: { prefix: string }) =>
+      new Map([...data].filter(([key]) => key.startsWith(prefix))),
+  } as unknown as TtlStorage;
+  return { data, storage };
+}
+
+const MINUTE = 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-11-02T10:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TtlStore", () => {
+  it("reads values back until they expire", async () => {
+    const { storage } = memoryStorage();
+    const store = new TtlStore<string>(storage, "test:", 10 * MINUTE);
+
+    await store.put("a", "first");
+    await store.put("b", "second", Date.now() + 30 * MINUTE);
+    expect(await store.get("a")).toBe("first");
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(await store.get("a")).toBeUndefined();
+    expect(await store.get("b")).toBe("second");
+  });
+
+  it("hands a value out only once when taken", async () => {
+    const { storage } = memoryStorage();
+    const store = new TtlStore<string>(storage, "test:", 10 * MINUTE);
+
+    await store.put("a", "first");
+    expect(await store.take("a")).toBe("first");
+    expect(await store.take("a")).toBeUndefined();
+  });
+
+  it("sweeps expired values under its own prefix when storing", async () => {
+    const { data, storage } = memoryStorage();
+    const store = new TtlStore<string>(storage, "test:", 10 * MINUTE);
+    data.set("other:x", { value: "kept", expiresAt: 0 });
+
+    await store.put("old", "expired soon");
+    vi.advanceTimersByTime(2 * 60 * MINUTE);
+    await store.put("new", "fresh");
+
+    expect([...data.keys()].sort()).toEqual(["other:x", "test:new"]);
+  });
+});
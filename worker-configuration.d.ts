@@ -4,7 +4,12 @@ declare namespace Cloudflare {
     GOOGLE_OAUTH_CLIENT_ID: string;
     GOOGLE_OAUTH_CLIENT_SECRET: string;
     COOKIE_ENCRYPTION_KEY: string;
-    MCP_OBJECT: DurableObjectNamespace /* MyMCP */;
+    PUBSUB_VERIFICATION_TOKEN: string;
+    READ_ONLY_MODE: string;
+    GMAIL_PUBSUB_TOPIC: string;
+    WEBHOOK_BASE_URL: string;
+    SIMULATE_GMAIL_PUSH: string;
+    MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
   }
 }
 interface Env extends Cloudflare.Env {}
@@ -21,6 +26,7 @@ declare namespace NodeJS {
         | "GOOGLE_OAUTH_CLIENT_ID"
         | "GOOGLE_OAUTH_CLIENT_SECRET"
         | "COOKIE_ENCRYPTION_KEY"
+        | "PUBSUB_VERIFICATION_TOKEN"
       >
     > {}
 }